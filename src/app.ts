@@ -2,23 +2,43 @@ import express from "express";
 import * as http from "node:http";
 import { Server as SocketIOServer } from "socket.io";
 import { socketIoConnection } from "./lib/ws.js";
+import type { ClientToServerEvents, ServerToClientEvents } from "./protocol/index.js";
 import { initializeMediasoupWorkers } from "./lib/worker.js";
 import cors from "cors";
+import { recordingsRouter } from "./lib/recordingsHttp.js";
+import { hlsRouter } from "./lib/hlsHttp.js";
+import { adminRouter } from "./lib/adminHttp.js";
+import { whepRouter, whipRouter } from "./lib/whipHttp.js";
+import { metricsRouter } from "./lib/metricsHttp.js";
+import { provisionRooms } from "./lib/rooms.js";
+import { healthRouter } from "./lib/healthHttp.js";
+import { cleanupPreviousRun, initShutdown } from "./lib/shutdown.js";
 
 async function main() {
+  cleanupPreviousRun();
   await initializeMediasoupWorkers();
+  await provisionRooms();
 
   const app = express();
-  app.use("/hls", cors(), express.static("hls"));
+  app.use("/hls", cors(), hlsRouter());
+  app.use("/recordings", cors(), recordingsRouter());
+  app.use("/metrics", metricsRouter());
+  app.use("/health", healthRouter());
 
   const server = http.createServer(app);
 
-  const io = new SocketIOServer(server, {
+  const io = new SocketIOServer<ClientToServerEvents, ServerToClientEvents>(server, {
     path: "/ws",
     cors: { origin: "*" },
   });
 
   socketIoConnection(io);
+  initShutdown(io);
+  app.use("/admin", express.json(), adminRouter(io));
+  // WHIP/WHEP clients need the session URL from Location
+  const sessionCors = cors({ exposedHeaders: ["Location"] });
+  app.use("/whip", sessionCors, whipRouter(io));
+  app.use("/whep", sessionCors, whepRouter(io));
 
   const PORT = 3001;
   const HOST = "127.0.0.1";
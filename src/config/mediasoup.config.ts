@@ -3,6 +3,10 @@ import type {
     TransportListenInfo,
     WorkerLogTag,
 } from "mediasoup/types";
+import type { HlsLayout } from "../lib/hlsLayout.js";
+import type { HlsRendition } from "../lib/hlsLadder.js";
+import type { HlsMode } from "../lib/llhls.js";
+import type { RoomSpec } from "../lib/roomOptions.js";
 
 import os from "node:os";
 
@@ -26,12 +30,61 @@ export const config = {
                     clockRate: 48000,
                     channels: 2,
                 },
+                // The HLS/recording SDPs are written from each consumer's rtpParameters,
+                // so codecs can be added, removed or reordered freely
                 {
                     kind: "video",
                     mimeType: "video/VP8",
                     clockRate: 90000,
                 },
+                // SVC (e.g. scalabilityMode "L3T3")
+                {
+                    kind: "video",
+                    mimeType: "video/VP9",
+                    clockRate: 90000,
+                    parameters: { "profile-id": 0 },
+                },
+                // VP9 10-bit (HDR)
+                {
+                    kind: "video",
+                    mimeType: "video/VP9",
+                    clockRate: 90000,
+                    parameters: { "profile-id": 2 },
+                },
+                {
+                    kind: "video",
+                    mimeType: "video/H264",
+                    clockRate: 90000,
+                    parameters: {
+                        "packetization-mode": 1,
+                        "profile-level-id": "42e01f",
+                        "level-asymmetry-allowed": 1,
+                    },
+                },
+                {
+                    kind: "video",
+                    mimeType: "video/H264",
+                    clockRate: 90000,
+                    parameters: {
+                        "packetization-mode": 1,
+                        "profile-level-id": "4d0032",
+                        "level-asymmetry-allowed": 1,
+                    },
+                },
+                // High profile of hardware encoders; H264 profiles are negotiated per producer
+                {
+                    kind: "video",
+                    mimeType: "video/H264",
+                    clockRate: 90000,
+                    parameters: {
+                        "packetization-mode": 1,
+                        "profile-level-id": "640032",
+                        "level-asymmetry-allowed": 1,
+                    },
+                },
             ] as RtpCodecCapability[],
+            // A room gets another router (on another worker) once all of its routers carry this many consumers
+            maxConsumersPerRouter: 500,
         },
         //   webrtctrasport settings
         webRtcTransport: {
@@ -41,6 +94,150 @@ export const config = {
             enableUdp: true,
             enableTcp: true,
             preferUdp: true,
+            // Starting point of the bandwidth estimation that picks simulcast/SVC layers
+            initialAvailableOutgoingBitrate: 1000000,
+            // SCTP for data channels (produceData/consumeData)
+            enableSctp: true,
+            numSctpStreams: { OS: 1024, MIS: 1024 },
+            maxSctpMessageSize: 262144,
+        },
+    },
+
+    // HLS composition settings
+    hls: {
+        // "ts": MPEG-TS segments, "llhls": CMAF fMP4 with LL-HLS partial segments (per room, see setHlsMode)
+        mode: "ts" as HlsMode,
+        lowLatency: {
+            partDuration: 0.333,
+            windowSegments: 6,
         },
+        layout: {
+            mode: "grid",
+            width: 1920,
+            height: 1080,
+            fit: "pad",
+        } as HlsLayout,
+        // ABR ladder, bitrates in kbit/s. Video renditions larger than the
+        // layout canvas are skipped; gop = fps keeps 1 second segments.
+        renditions: [
+            {
+                name: "1080p", width: 1920, height: 1080, fps: 30,
+                videoBitrate: 4500, maxrate: 5000, bufsize: 7500, audioBitrate: 128,
+                gop: 30, preset: "ultrafast", profile: "high", level: 4.0,
+            },
+            {
+                name: "720p", width: 1280, height: 720, fps: 30,
+                videoBitrate: 2500, maxrate: 3000, bufsize: 4000, audioBitrate: 128,
+                gop: 30, preset: "ultrafast", profile: "main", level: 3.1,
+            },
+            {
+                name: "360p", width: 640, height: 360, fps: 30,
+                videoBitrate: 800, maxrate: 900, bufsize: 1200, audioBitrate: 96,
+                gop: 30, preset: "ultrafast", profile: "baseline", level: 3.0,
+            },
+            { name: "audio", audioOnly: true, audioBitrate: 64 },
+        ] as HlsRendition[],
+        // Pipeline supervision (ms): a pipeline without new output for stallTimeout
+        // (startTimeout after a launch) or with a crashed FFmpeg is restarted with
+        // exponential backoff between minBackoff and maxBackoff
+        supervisor: {
+            checkInterval: 2000,
+            startTimeout: 15000,
+            stallTimeout: 10000,
+            minBackoff: 1000,
+            maxBackoff: 30000,
+        },
+    },
+
+    // Audio level / active speaker detection (per room, intervals in ms)
+    speakers: {
+        // "audioLevels" events: up to maxEntries producers louder than threshold (dBvo, -127..0)
+        audioLevelInterval: 800,
+        threshold: -70,
+        maxEntries: 10,
+        activeSpeakerInterval: 300,
+        // How long a new active speaker has to keep the floor before the HLS speaker layout follows
+        hlsSwitchDelay: 3000,
+    },
+
+    // Room options (see createRoom)
+    rooms: {
+        // Used for every option createRoom leaves out
+        defaults: {
+            maxParticipants: undefined as number | undefined,
+            maxPublishers: undefined as number | undefined,
+            hls: true,
+            recording: true,
+            idleTimeoutSeconds: 0,
+        },
+        // Created at startup and kept when empty, e.g. { roomId: "lobby", name: "Lobby", maxPublishers: 4 }
+        preProvisioned: [] as RoomSpec[],
+    },
+
+    // Signaling auth (JWT). Without a secret/public key every socket is an anonymous host.
+    auth: {
+        secret: process.env.JWT_SECRET,
+        publicKey: process.env.JWT_PUBLIC_KEY,
+        issuer: process.env.JWT_ISSUER,
+        audience: process.env.JWT_AUDIENCE,
+    },
+
+    // HTTP admin API (/admin); disabled when no token is set
+    admin: {
+        token: process.env.ADMIN_TOKEN,
+    },
+
+    // Graceful shutdown (SIGTERM/SIGINT, POST /admin/shutdown)
+    shutdown: {
+        // Clients get "serverShuttingDown" this long before their rooms are closed
+        noticeSeconds: 5,
+        // Exit anyway when finalizing recordings and playlists takes longer
+        timeoutSeconds: 30,
+        // PIDs of running FFmpeg processes (relative to the working directory), see killOrphanedFfmpeg
+        pidFile: "ffmpeg.pids",
+    },
+
+    // Reconnects (resumeSession)
+    sessions: {
+        // A dropped socket's transports, producers and consumers are kept this long
+        // for the client to come back with its session token; 0 cleans up at once
+        graceSeconds: 30,
+    },
+
+    // Prometheus scrape endpoint (/metrics); open when no token is set
+    metrics: {
+        token: process.env.METRICS_TOKEN,
+    },
+
+    // External streams published into rooms (startIngest)
+    ingest: {
+        // Encoders publish to rtmp://<publicHost>:<port>/live/<key> or srt://<publicHost>:<port>
+        publicHost: process.env.INGEST_HOST ?? "127.0.0.1",
+        listenIp: "0.0.0.0",
+        minPort: 11000,
+        maxPort: 11100,
+        // Files for type "file" (relative to the working directory)
+        mediaDir: "media",
+        // Re-encoded to VP8/Opus, kbit/s
+        videoBitrate: 2500,
+        audioBitrate: 128,
+    },
+
+    // Synthetic participants added through the admin API (see bots.ts, npm run loadtest)
+    bots: {
+        maxPerRoom: 50,
+        // Test pattern; files (from ingest.mediaDir) keep their own size and rate
+        width: 640,
+        height: 360,
+        frameRate: 30,
+        // Encoded to VP8/Opus, kbit/s
+        videoBitrate: 800,
+        audioBitrate: 64,
+    },
+
+    // Room recordings (relative to the working directory)
+    recording: {
+        dir: "recordings",
+        format: "mp4" as "mp4" | "webm",
     },
 } as const;
@@ -0,0 +1,246 @@
+import express from "express";
+import { config } from "../config/mediasoup.config.js";
+import { createRoom, describeRoom, findProducer, getRoom, isDraining, listRooms, setDraining } from "./rooms.js";
+import { parseRoomSpec } from "./roomOptions.js";
+import { describeWorkers, workerResourceUsage } from "./worker.js";
+import { forceRestartRoomHls } from "./hlsPipeline.js";
+import { describeRestream } from "./restream.js";
+import { describeBot, parseBotSpec } from "./bots.js";
+import { addRoomBot, addRoomRestream, closeRoom, leaveRoom, removeRoomBot, removeRoomRestream, Server } from "./ws.js";
+import { isShuttingDown, shutdown } from "./shutdown.js";
+import { requireBearerToken } from "./httpAuth.js";
+
+/**
+ * GET    /workers                            -> mediasoup workers with their router/transport counts and CPU time
+ * GET    /rooms                              -> every room with users, transports, producers and HLS state
+ * POST   /rooms                              -> create a room (options as for createRoom, plus `persistent`)
+ * GET    /rooms/:roomId                      -> one room
+ * POST   /rooms/:roomId/hls/restart          -> rebuild the room's compositor
+ * GET    /rooms/:roomId/restreams            -> RTMP/SRT destinations with their status
+ * POST   /rooms/:roomId/restreams            -> add a destination (`{ url }`)
+ * DELETE /rooms/:roomId/restreams/:restreamId -> stop a destination
+ * GET    /rooms/:roomId/bots                 -> synthetic participants with their consumer counts
+ * POST   /rooms/:roomId/bots                 -> add a bot (`{ name?, media?, file?, audio?, video?, consume? }`)
+ * DELETE /rooms/:roomId/bots/:botId          -> remove a bot
+ * DELETE /rooms/:roomId/producers/:producerId -> close a producer
+ * DELETE /rooms/:roomId/users/:userId        -> kick a user out of the room
+ * DELETE /rooms/:roomId                      -> destroy the room
+ * POST   /drain                              -> stop accepting new rooms (rolling deploys)
+ * DELETE /drain                              -> accept new rooms again
+ * POST   /shutdown                           -> graceful shutdown (`{ noticeSeconds? }`), only with ADMIN_TOKEN
+ *
+ * Requires `Authorization: Bearer <ADMIN_TOKEN>`. Disabled (503) when config.admin.token is not set.
+ */
+export function adminRouter(io: Server): express.Router {
+    const router = express.Router();
+
+    // Without a token nothing is registered: every request gets a 503
+    const token = config.admin.token;
+    if (!token) {
+        console.warn("[admin] ADMIN_TOKEN is not set, the admin API is disabled");
+        router.use((_req, res) => {
+            res.status(503).json({ error: "Admin API disabled: ADMIN_TOKEN is not set" });
+        });
+        return router;
+    }
+    router.use(requireBearerToken(token));
+
+    router.get("/workers", async (_req, res) => {
+        const usage = await workerResourceUsage();
+        res.json({
+            workers: describeWorkers().map((worker, i) => ({
+                ...worker,
+                // CPU time of the worker process so far, in ms
+                cpu: usage[i]?.usage && { userMs: usage[i].usage.ru_utime, systemMs: usage[i].usage.ru_stime },
+            })),
+        });
+    });
+
+    router.get("/rooms", (_req, res) => {
+        res.json({ rooms: listRooms().map(([roomId, room]) => describeRoom(roomId, room)) });
+    });
+
+    router.post("/rooms", async (req, res) => {
+        const parsed = parseRoomSpec(req.body, { allowPersistent: true });
+        if ("error" in parsed) {
+            res.status(400).json({ error: parsed.error });
+            return;
+        }
+        if (isDraining()) {
+            res.status(503).json({ error: "Server is draining, no new rooms" });
+            return;
+        }
+        const result = await createRoom(parsed);
+        if ("error" in result) {
+            res.status(409).json({ error: result.error });
+            return;
+        }
+        res.status(201).json(describeRoom(result.roomId, result.room));
+    });
+
+    router.get("/rooms/:roomId", (req, res) => {
+        const room = getRoom(req.params.roomId);
+        if (!room) {
+            res.status(404).json({ error: "Room does not exist" });
+            return;
+        }
+        res.json(describeRoom(req.params.roomId, room));
+    });
+
+    router.post("/rooms/:roomId/hls/restart", async (req, res) => {
+        const room = getRoom(req.params.roomId);
+        if (!room) {
+            res.status(404).json({ error: "Room does not exist" });
+            return;
+        }
+        await forceRestartRoomHls(req.params.roomId, room);
+        res.json(describeRoom(req.params.roomId, room).hls);
+    });
+
+    router.get("/rooms/:roomId/restreams", (req, res) => {
+        const room = getRoom(req.params.roomId);
+        if (!room) {
+            res.status(404).json({ error: "Room does not exist" });
+            return;
+        }
+        res.json({ restreams: [...room.restreams.values()].map(describeRestream) });
+    });
+
+    router.post("/rooms/:roomId/restreams", async (req, res) => {
+        const room = getRoom(req.params.roomId);
+        if (!room) {
+            res.status(404).json({ error: "Room does not exist" });
+            return;
+        }
+        const result = await addRoomRestream(io, req.params.roomId, room, req.body?.url);
+        if ("error" in result) {
+            res.status(400).json({ error: result.error });
+            return;
+        }
+        res.status(201).json(result.restream);
+    });
+
+    router.delete("/rooms/:roomId/restreams/:restreamId", async (req, res) => {
+        const room = getRoom(req.params.roomId);
+        if (!room) {
+            res.status(404).json({ error: "Room does not exist" });
+            return;
+        }
+        if (!await removeRoomRestream(io, req.params.roomId, room, req.params.restreamId)) {
+            res.status(404).json({ error: "Restream not found" });
+            return;
+        }
+        res.json({ stopped: true });
+    });
+
+    router.get("/rooms/:roomId/bots", (req, res) => {
+        const room = getRoom(req.params.roomId);
+        if (!room) {
+            res.status(404).json({ error: "Room does not exist" });
+            return;
+        }
+        res.json({ bots: [...room.bots.values()].map(bot => describeBot(room, bot)) });
+    });
+
+    router.post("/rooms/:roomId/bots", async (req, res) => {
+        const room = getRoom(req.params.roomId);
+        if (!room) {
+            res.status(404).json({ error: "Room does not exist" });
+            return;
+        }
+        const parsed = parseBotSpec(req.body);
+        if ("error" in parsed) {
+            res.status(400).json({ error: parsed.error });
+            return;
+        }
+        const result = await addRoomBot(io, req.params.roomId, room, parsed.spec);
+        if ("error" in result) {
+            res.status(result.code === "roomNotFound" ? 404 : 409).json({ error: result.error });
+            return;
+        }
+        res.status(201).json(result.bot);
+    });
+
+    router.delete("/rooms/:roomId/bots/:botId", async (req, res) => {
+        const room = getRoom(req.params.roomId);
+        if (!room) {
+            res.status(404).json({ error: "Room does not exist" });
+            return;
+        }
+        if (!await removeRoomBot(room, req.params.botId)) {
+            res.status(404).json({ error: "Bot not found" });
+            return;
+        }
+        res.json({ stopped: true });
+    });
+
+    router.delete("/rooms/:roomId/producers/:producerId", (req, res) => {
+        const room = getRoom(req.params.roomId);
+        if (!room) {
+            res.status(404).json({ error: "Room does not exist" });
+            return;
+        }
+        const found = findProducer(room, req.params.producerId);
+        if (!found) {
+            res.status(404).json({ error: "Producer not found" });
+            return;
+        }
+        // The producer's close handler updates the room and the HLS pipeline
+        found.producer.close();
+        res.json({ closed: true });
+    });
+
+    router.delete("/rooms/:roomId/users/:userId", (req, res) => {
+        const { roomId, userId } = req.params;
+        const room = getRoom(roomId);
+        if (!room) {
+            res.status(404).json({ error: "Room does not exist" });
+            return;
+        }
+        if (!room.users.has(userId)) {
+            res.status(404).json({ error: "User not found" });
+            return;
+        }
+        // The user's current socket, also after a resumeSession
+        io.to(userId).emit("kicked", { roomId });
+        io.in(userId).socketsLeave(roomId);
+        leaveRoom(io, roomId, userId);
+        res.json({ kicked: true });
+    });
+
+    router.delete("/rooms/:roomId", (req, res) => {
+        if (!getRoom(req.params.roomId)) {
+            res.status(404).json({ error: "Room does not exist" });
+            return;
+        }
+        closeRoom(io, req.params.roomId, "Closed by admin");
+        res.json({ destroyed: true });
+    });
+
+    router.post("/drain", (_req, res) => {
+        setDraining(true);
+        res.json({ draining: true, rooms: listRooms().length });
+    });
+
+    router.delete("/drain", (_req, res) => {
+        if (isShuttingDown()) {
+            res.status(409).json({ error: "Server is shutting down" });
+            return;
+        }
+        setDraining(false);
+        res.json({ draining: false, rooms: listRooms().length });
+    });
+
+    // Registered after the token check only: an open /shutdown would let anyone stop the server
+    router.post("/shutdown", (req, res) => {
+        const noticeSeconds = req.body?.noticeSeconds;
+        if (noticeSeconds !== undefined && (typeof noticeSeconds !== "number" || noticeSeconds < 0 || noticeSeconds > 3600)) {
+            res.status(400).json({ error: "noticeSeconds must be a number between 0 and 3600" });
+            return;
+        }
+        res.status(202).json({ shuttingDown: true, rooms: listRooms().length });
+        shutdown("Requested through the admin API", noticeSeconds);
+    });
+
+    return router;
+}
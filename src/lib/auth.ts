@@ -0,0 +1,101 @@
+import jwt from "jsonwebtoken";
+import type { Socket } from "socket.io";
+import { config } from "../config/mediasoup.config.js";
+import type { Role } from "../protocol/index.js";
+
+// --- Type Declarations ---
+export type { Role } from "../protocol/index.js";
+export type Permission = "createRoom" | "manageRoom" | "produce" | "consume";
+
+export interface AuthUser {
+    userId: string;
+    name?: string;
+    role: Role;
+}
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+    host: ["createRoom", "manageRoom", "produce", "consume"],
+    speaker: ["produce", "consume"],
+    viewer: ["consume"],
+};
+const ROLES = Object.keys(ROLE_PERMISSIONS) as Role[];
+
+// --- Helpers ---
+function verificationKey(): string | undefined {
+    return config.auth.publicKey ?? config.auth.secret;
+}
+
+export function isAuthEnabled(): boolean {
+    return !!verificationKey();
+}
+
+/**
+ * Verifies a signed token (HS256 with `JWT_SECRET` or RS256/ES256 with
+ * `JWT_PUBLIC_KEY`) and maps its claims: `sub` -> userId, `name`, `role`.
+ */
+export function verifyToken(token: string): AuthUser {
+    const payload = jwt.verify(token, verificationKey()!, {
+        algorithms: config.auth.publicKey ? ["RS256", "ES256"] : ["HS256"],
+        issuer: config.auth.issuer,
+        audience: config.auth.audience,
+    });
+    if (typeof payload === "string" || typeof payload.sub !== "string") {
+        throw new Error("Token has no subject");
+    }
+    if (!ROLES.includes(payload.role)) {
+        throw new Error(`Unknown role: ${payload.role}`);
+    }
+    return {
+        userId: payload.sub,
+        name: typeof payload.name === "string" ? payload.name : undefined,
+        role: payload.role,
+    };
+}
+
+/**
+ * Socket.IO middleware: the token is taken from `handshake.auth.token` or an
+ * `Authorization: Bearer` header. Without a configured key every socket is an
+ * anonymous host (development only).
+ */
+export function socketAuthMiddleware(socket: Socket, next: (err?: Error) => void): void {
+    if (!isAuthEnabled()) {
+        socket.data.user = { userId: socket.id, role: "host" } satisfies AuthUser;
+        return next();
+    }
+    const header = socket.handshake.headers.authorization;
+    const token = socket.handshake.auth?.token ?? (header?.startsWith("Bearer ") ? header.slice(7) : undefined);
+    if (!token) return next(new Error("unauthorized: missing token"));
+    try {
+        socket.data.user = verifyToken(token);
+        next();
+    } catch (err) {
+        next(new Error(`unauthorized: ${(err as Error).message}`));
+    }
+}
+
+/**
+ * User of an HTTP request (WHIP/WHEP), from its `Authorization: Bearer` header.
+ * Without a configured key the anonymous host `anonymousId`. Throws on a
+ * missing or invalid token.
+ */
+export function requestUser(authorization: string | undefined, anonymousId: string): AuthUser {
+    if (!isAuthEnabled()) return { userId: anonymousId, role: "host" };
+    if (!authorization?.startsWith("Bearer ")) throw new Error("missing token");
+    return verifyToken(authorization.slice(7));
+}
+
+export function socketUser(socket: Socket): AuthUser {
+    return socket.data.user as AuthUser;
+}
+
+export function can(user: AuthUser | undefined, permission: Permission): boolean {
+    return !!user && ROLE_PERMISSIONS[user.role].includes(permission);
+}
+
+export function forbidden(user: AuthUser | undefined, permission: Permission) {
+    return {
+        error: `Forbidden: role "${user?.role ?? "none"}" may not ${permission}`,
+        code: "forbidden",
+        permission,
+    };
+}
@@ -0,0 +1,269 @@
+import type { Consumer, PlainTransport, Producer } from "mediasoup/types";
+import type { ChildProcess } from "child_process";
+import dgram from "dgram";
+import path from "path";
+import { config } from "../config/mediasoup.config.js";
+import { launchIngest, stopFfmpeg } from "./launchFfmpeg.js";
+import { createRtpProducers, mediaRoot, resolveMediaFile } from "./ingest.js";
+import { plainRtpCapabilities } from "./rtpUtils.js";
+import { ensureProducerPiped, pickConsumerRouter, releaseConsumerRouter, trackConsumer } from "./roomRouters.js";
+import type { ProducerKind, Room } from "./rooms.js";
+import { boolean, oneOf, optional, shape, string } from "../protocol/index.js";
+
+// --- Bots ---
+// Synthetic participants for load tests and for reproducing HLS layouts without
+// browsers. A bot publishes a generated test pattern and tone (or a looped media
+// file) like an ingest: FFmpeg into comedia PlainTransports, producers registered
+// under its id. A consuming bot also gets a PlainTransport on a consumer router
+// and consumes every other producer of the room; the RTP goes to a local UDP
+// socket that only counts it. Bots are not in room.users; their consumers are
+// in room.consumers under the bot id.
+
+// --- Type Declarations ---
+// Generated test pattern and tone, or a file from config.ingest.mediaDir
+export type BotMedia = "pattern" | "file";
+
+export interface BotSpec {
+    name: string;
+    media: BotMedia;
+    file?: string;
+    audio: boolean;
+    video: boolean;
+    consume: boolean;
+}
+
+export type Bot = {
+    // Synthetic participant id, the key of its producers and consumers
+    id: string;
+    spec: BotSpec;
+    transports: PlainTransport[];
+    producers: Producer[];
+    // Absent for bots that only consume
+    process?: ChildProcess;
+    consumerTransport?: PlainTransport;
+    // Producers consumed or being consumed, so none is consumed twice
+    consumedProducers: Set<string>;
+    // Receives the consumers' RTP/RTCP
+    sink?: dgram.Socket;
+    received: { packets: number; bytes: number };
+    startedAt: number;
+    stopped?: boolean;
+};
+
+export interface BotInfo {
+    botId: string;
+    name: string;
+    media: BotMedia;
+    file?: string;
+    producers: Array<{ producerId: string; kind: ProducerKind }>;
+    consumers: number;
+    received: { packets: number; bytes: number };
+    startedAt: string;
+}
+
+const BOT_MEDIA: BotMedia[] = ["pattern", "file"];
+const MAX_NAME_LENGTH = 128;
+
+// --- State ---
+// Bots started so far; gives each test pattern its own hue and tone
+let botCount = 0;
+
+// --- Helpers ---
+function generateBotId(): string {
+    return "bot_" + Math.random().toString(36).slice(2, 10);
+}
+
+// Shape of POST /admin/rooms/:roomId/bots, checked like a socket request
+const botRequest = shape({
+    name: optional(string({ maxLength: MAX_NAME_LENGTH })),
+    media: optional(oneOf(...BOT_MEDIA)),
+    file: optional(string()),
+    audio: optional(boolean),
+    video: optional(boolean),
+    consume: optional(boolean),
+});
+
+export function parseBotSpec(data: unknown): { spec: BotSpec } | { error: string } {
+    const checked = botRequest(data ?? {}, "");
+    if ("error" in checked) return checked;
+    const request = checked.value;
+    const name = (request.name ?? "Bot").trim();
+    if (!name) return { error: "name must not be empty" };
+    const spec: BotSpec = {
+        name,
+        media: request.media ?? "pattern",
+        audio: request.audio ?? true,
+        video: request.video ?? true,
+        consume: request.consume ?? false,
+    };
+    if (!spec.audio && !spec.video && !spec.consume) return { error: "A bot needs audio, video or consume" };
+    if (spec.media === "file") {
+        if (request.file === undefined) return { error: "file is required for media file" };
+        const file = resolveMediaFile(request.file);
+        if (!file) return { error: "File not found" };
+        spec.file = file;
+    }
+    return { spec };
+}
+
+/**
+ * FFmpeg input: a looped file read at its native rate, or one lavfi graph with
+ * the test pattern (video) and a sine tone (audio), told apart by hue and pitch.
+ */
+function botInput(spec: BotSpec): string[] {
+    if (spec.media === "file") return ["-re", "-stream_loop", "-1", "-i", spec.file!];
+    const n = botCount++;
+    const { width, height, frameRate } = config.bots;
+    const hue = (n * 47) % 360;
+    const frequency = 220 + (n % 8) * 110;
+    return [
+        "-re", "-f", "lavfi",
+        "-i", `testsrc2=size=${width}x${height}:rate=${frameRate},hue=h=${hue}[out0];sine=frequency=${frequency}:sample_rate=48000[out1]`,
+    ];
+}
+
+/**
+ * Consumer side: a router picked like for a client's consumer transport, and a
+ * PlainTransport sending to a local UDP socket.
+ */
+async function startConsuming(room: Room, bot: Bot): Promise<void> {
+    const entry = await pickConsumerRouter(room);
+    room.consumerRouters.set(bot.id, entry);
+    room.consumers.set(bot.id, new Map());
+    const sink = dgram.createSocket("udp4");
+    bot.sink = sink;
+    sink.on("message", (message) => {
+        bot.received.packets++;
+        bot.received.bytes += message.length;
+    });
+    await new Promise<void>((resolve, reject) => {
+        sink.once("error", reject);
+        sink.bind(0, "127.0.0.1", () => {
+            sink.off("error", reject);
+            resolve();
+        });
+    });
+    const transport = await entry.router.createPlainTransport({ listenIp: "127.0.0.1", rtcpMux: true, comedia: false });
+    bot.consumerTransport = transport;
+    await transport.connect({ ip: "127.0.0.1", port: sink.address().port });
+}
+
+/**
+ * Starts a bot: its producers on the room's origin router (see createRtpProducers)
+ * fed by FFmpeg, and its consumer transport if it consumes. The caller registers
+ * `producers` under `id` and starts consuming with consumeRoomProducers.
+ * `onEnded` is called when FFmpeg exits on its own.
+ */
+export async function startBot(room: Room, spec: BotSpec, onEnded: (bot: Bot) => void): Promise<Bot> {
+    const bot: Bot = {
+        id: generateBotId(),
+        spec,
+        transports: [],
+        producers: [],
+        consumedProducers: new Set(),
+        received: { packets: 0, bytes: 0 },
+        startedAt: Date.now(),
+    };
+    try {
+        const kinds: ProducerKind[] = [...(spec.audio ? ["audio" as const] : []), ...(spec.video ? ["video" as const] : [])];
+        if (kinds.length) {
+            const { transports, producers, outputs } = await createRtpProducers(room, bot.id, kinds);
+            bot.transports = transports;
+            bot.producers = producers;
+            bot.process = launchIngest({
+                inputArgs: botInput(spec),
+                audio: outputs.audio,
+                video: outputs.video,
+                videoBitrate: config.bots.videoBitrate,
+                audioBitrate: config.bots.audioBitrate,
+                tag: "bot",
+            });
+            bot.process.on("exit", () => {
+                if (bot.stopped) return;
+                stopBot(room, bot);
+                onEnded(bot);
+            });
+        }
+        if (spec.consume) await startConsuming(room, bot);
+    } catch (err) {
+        await stopBot(room, bot);
+        throw err;
+    }
+    return bot;
+}
+
+/**
+ * Has a consuming bot consume `producer` (once). Called for every producer
+ * registered in the bot's room; the consumer closes with the producer.
+ */
+export async function botConsume(room: Room, bot: Bot, producer: Producer): Promise<void> {
+    const transport = bot.consumerTransport;
+    const entry = room.consumerRouters.get(bot.id);
+    if (!transport || !entry || bot.stopped || producer.closed) return;
+    if (bot.consumedProducers.has(producer.id)) return;
+    bot.consumedProducers.add(producer.id);
+    try {
+        await ensureProducerPiped(room, entry, producer.id);
+        const consumer: Consumer = await transport.consume({
+            producerId: producer.id,
+            rtpCapabilities: plainRtpCapabilities(entry.router.rtpCapabilities),
+        });
+        trackConsumer(entry, consumer);
+        const consumers = room.consumers.get(bot.id);
+        if (bot.stopped || !consumers) {
+            consumer.close();
+            return;
+        }
+        consumers.set(consumer.id, consumer);
+        consumer.observer.on("close", () => {
+            consumers.delete(consumer.id);
+            bot.consumedProducers.delete(producer.id);
+        });
+    } catch (err) {
+        bot.consumedProducers.delete(producer.id);
+        throw err;
+    }
+}
+
+/**
+ * Consumes every producer of the room but the bot's own.
+ */
+export async function consumeRoomProducers(room: Room, bot: Bot): Promise<void> {
+    const producers = [...room.producers.entries()]
+        .filter(([userId]) => userId !== bot.id)
+        .flatMap(([, userProducers]) => [...userProducers.values()]);
+    await Promise.all(producers.map(producer => botConsume(room, bot, producer)));
+}
+
+/**
+ * Stops FFmpeg, closes the producers (their close handlers update the room),
+ * the consumers with their transport, and releases the bot's consumer router.
+ */
+export async function stopBot(room: Room, bot: Bot): Promise<void> {
+    if (bot.stopped) return;
+    bot.stopped = true;
+    await stopFfmpeg(bot.process);
+    for (const producer of bot.producers) {
+        if (!producer.closed) producer.close();
+    }
+    for (const transport of bot.transports) {
+        try { transport.close(); } catch { }
+    }
+    try { bot.consumerTransport?.close(); } catch { }
+    room.consumers.delete(bot.id);
+    releaseConsumerRouter(room, bot.id);
+    try { bot.sink?.close(); } catch { }
+}
+
+export function describeBot(room: Room, bot: Bot): BotInfo {
+    return {
+        botId: bot.id,
+        name: bot.spec.name,
+        media: bot.spec.media,
+        file: bot.spec.file && path.relative(mediaRoot(), bot.spec.file),
+        producers: bot.producers.map(producer => ({ producerId: producer.id, kind: producer.kind })),
+        consumers: room.consumers.get(bot.id)?.size ?? 0,
+        received: { ...bot.received },
+        startedAt: new Date(bot.startedAt).toISOString(),
+    };
+}
@@ -0,0 +1,35 @@
+import type { Room, SystemChannel } from "./rooms.js";
+
+// --- System channel ---
+// A DirectTransport data producer on the origin router lets the server push
+// messages into the room over the clients' SCTP data channels.
+
+export const SYSTEM_CHANNEL_LABEL = "system";
+
+async function createSystemChannel(room: Room): Promise<SystemChannel> {
+    const transport = await room.router.createDirectTransport();
+    const dataProducer = await transport.produceData({ label: SYSTEM_CHANNEL_LABEL, protocol: "json" });
+    return { transport, dataProducer };
+}
+
+/**
+ * The room's system channel, created on first use and again after the router was replaced.
+ */
+export async function ensureSystemChannel(room: Room): Promise<SystemChannel> {
+    const channel = room.systemChannel ? await room.systemChannel : undefined;
+    if (channel && !channel.transport.closed) return channel;
+    room.systemChannel = createSystemChannel(room);
+    return room.systemChannel;
+}
+
+/**
+ * Sends `{ type, ...payload, sentAt }` as JSON to every consumer of the room's system channel.
+ */
+export function sendSystemMessage(room: Room, type: string, payload: Record<string, unknown> = {}): void {
+    if (room.closed) return;
+    ensureSystemChannel(room)
+        .then(({ dataProducer }) => {
+            dataProducer.send(JSON.stringify({ type, ...payload, sentAt: new Date().toISOString() }));
+        })
+        .catch(err => console.error(`[data] Failed to send system message ${type}:`, err));
+}
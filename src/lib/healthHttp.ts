@@ -0,0 +1,18 @@
+import express from "express";
+import { isDraining, listRooms } from "./rooms.js";
+import { isShuttingDown } from "./shutdown.js";
+
+/**
+ * GET / -> 200 `{ status: "ok" }`, or 503 with "draining"/"shuttingDown" so a
+ * load balancer stops sending new rooms here (see POST /admin/drain).
+ */
+export function healthRouter(): express.Router {
+    const router = express.Router();
+
+    router.get("/", (_req, res) => {
+        const status = isShuttingDown() ? "shuttingDown" : isDraining() ? "draining" : "ok";
+        res.status(status === "ok" ? 200 : 503).json({ status, rooms: listRooms().length });
+    });
+
+    return router;
+}
@@ -0,0 +1,159 @@
+// Raw media the HLS mixer works on (see hlsMixer.ts): yuv420p frames and
+// interleaved s16le stereo PCM at 48 kHz. Pure functions, no I/O.
+
+// --- Type Declarations ---
+// A yuv420p picture: the full size Y plane, then the quarter size U and V planes
+export interface Frame { width: number; height: number; data: Buffer; }
+
+export const SAMPLE_RATE = 48000;
+export const CHANNELS = 2;
+// Bytes per sample frame (all channels)
+export const PCM_FRAME_BYTES = 2 * CHANNELS;
+
+// Limited range black
+const BLACK_Y = 16, BLACK_UV = 128;
+
+// --- Video ---
+export function frameBytes(width: number, height: number): number {
+    return width * height * 3 / 2;
+}
+
+export function blackFrame(width: number, height: number): Frame {
+    const data = Buffer.alloc(frameBytes(width, height), BLACK_UV);
+    data.fill(BLACK_Y, 0, width * height);
+    return { width, height, data };
+}
+
+function planes(frame: Frame): Array<{ offset: number; width: number; height: number }> {
+    const { width, height } = frame;
+    const luma = width * height, chroma = luma / 4;
+    return [
+        { offset: 0, width, height },
+        { offset: luma, width: width / 2, height: height / 2 },
+        { offset: luma + chroma, width: width / 2, height: height / 2 },
+    ];
+}
+
+/**
+ * Copies `frame` into `canvas` with its top left corner at (x, y), plane by
+ * plane and row by row. Whatever falls outside the canvas is cut off; x and y
+ * have to be even (chroma is subsampled 2x2).
+ */
+export function blitFrame(canvas: Frame, frame: Frame, x: number, y: number): void {
+    const target = planes(canvas), source = planes(frame);
+    for (let p = 0; p < 3; p++) {
+        const scale = p === 0 ? 1 : 2;
+        const px = x / scale, py = y / scale;
+        const rowBytes = Math.min(source[p].width, target[p].width - px);
+        if (rowBytes <= 0 || px < 0 || py < 0) continue;
+        const rows = Math.min(source[p].height, target[p].height - py);
+        for (let row = 0; row < rows; row++) {
+            const from = source[p].offset + row * source[p].width;
+            frame.data.copy(canvas.data, target[p].offset + (py + row) * target[p].width + px, from, from + rowBytes);
+        }
+    }
+}
+
+/**
+ * Nearest neighbour rescale. Only used to keep showing a tile's last picture
+ * at its new size until its decoder delivers frames of that size.
+ */
+export function scaleFrame(frame: Frame, width: number, height: number): Frame {
+    const scaled: Frame = { width, height, data: Buffer.allocUnsafe(frameBytes(width, height)) };
+    const target = planes(scaled), source = planes(frame);
+    for (let p = 0; p < 3; p++) {
+        const t = target[p], s = source[p];
+        for (let row = 0; row < t.height; row++) {
+            const sourceRow = s.offset + Math.floor(row * s.height / t.height) * s.width;
+            const targetRow = t.offset + row * t.width;
+            for (let col = 0; col < t.width; col++) {
+                scaled.data[targetRow + col] = frame.data[sourceRow + Math.floor(col * s.width / t.width)];
+            }
+        }
+    }
+    return scaled;
+}
+
+// --- Audio ---
+// Sample frames a tick covers, so that ticks add up to exactly SAMPLE_RATE per second
+export function samplesForTick(tick: number, fps: number): number {
+    return Math.floor(SAMPLE_RATE * (tick + 1) / fps) - Math.floor(SAMPLE_RATE * tick / fps);
+}
+
+// Jitter buffer of one audio input: decoders deliver PCM in bursts, the mixer takes it per tick
+export type PcmQueue = {
+    chunks: Buffer[];
+    bytes: number;
+    // Filled up to `primeBytes` since the last underrun
+    primed: boolean;
+};
+
+export function createPcmQueue(): PcmQueue {
+    return { chunks: [], bytes: 0, primed: false };
+}
+
+/**
+ * Appends decoded PCM. Beyond `maxBytes` the oldest audio is dropped, so a
+ * burst cannot delay the input for good.
+ */
+export function pushPcm(queue: PcmQueue, chunk: Buffer, maxBytes: number): void {
+    queue.chunks.push(chunk);
+    queue.bytes += chunk.length;
+    if (queue.bytes > maxBytes) dropPcm(queue, queue.bytes - maxBytes);
+}
+
+function dropPcm(queue: PcmQueue, bytes: number): void {
+    // Whole sample frames only, or the channels swap
+    let remaining = Math.ceil(bytes / PCM_FRAME_BYTES) * PCM_FRAME_BYTES;
+    while (remaining > 0 && queue.chunks.length) {
+        const head = queue.chunks[0];
+        if (head.length <= remaining) {
+            queue.chunks.shift();
+            queue.bytes -= head.length;
+            remaining -= head.length;
+        } else {
+            queue.chunks[0] = head.subarray(remaining);
+            queue.bytes -= remaining;
+            remaining = 0;
+        }
+    }
+}
+
+/**
+ * Takes `bytes` of PCM, padded with silence on an underrun. Nothing (undefined)
+ * until the queue holds `primeBytes`, again after every underrun.
+ */
+export function takePcm(queue: PcmQueue, bytes: number, primeBytes: number): Buffer | undefined {
+    if (!queue.primed) {
+        if (queue.bytes < primeBytes) return undefined;
+        queue.primed = true;
+    }
+    const out = Buffer.alloc(bytes);
+    let filled = 0;
+    while (filled < bytes && queue.chunks.length) {
+        const head = queue.chunks[0];
+        const n = Math.min(head.length, bytes - filled);
+        head.copy(out, filled, 0, n);
+        filled += n;
+        if (n === head.length) queue.chunks.shift();
+        else queue.chunks[0] = head.subarray(n);
+        queue.bytes -= n;
+    }
+    if (filled < bytes) queue.primed = false;
+    return out;
+}
+
+/**
+ * Sums s16le buffers of `bytes` each, clamped to the 16 bit range; silence without inputs.
+ */
+export function mixPcm(inputs: Buffer[], bytes: number): Buffer {
+    if (inputs.length === 1) return inputs[0];
+    const out = Buffer.alloc(bytes);
+    if (!inputs.length) return out;
+    for (let i = 0; i < bytes; i += 2) {
+        let sum = 0;
+        for (const input of inputs) sum += input.readInt16LE(i);
+        out.writeInt16LE(sum > 32767 ? 32767 : sum < -32768 ? -32768 : sum, i);
+    }
+    return out;
+}
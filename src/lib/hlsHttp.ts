@@ -0,0 +1,61 @@
+import express from "express";
+import { config } from "../config/mediasoup.config.js";
+import { getLlHlsStream } from "./llhls.js";
+
+// How long a blocking request may be held, in target durations (LL-HLS spec: at least three).
+// Segments target one second (gop = fps), parts config.hls.lowLatency.partDuration.
+const BLOCKING_TARGET_DURATIONS = 3;
+
+/**
+ * Serves `hls/`. Rooms in "llhls" mode get their media playlists from memory,
+ * with blocking playlist reload (`_HLS_msn` / `_HLS_part`) and blocking
+ * preload-hint part requests; everything else is plain static files.
+ */
+export function hlsRouter(): express.Router {
+    const router = express.Router();
+    const { partDuration } = config.hls.lowLatency;
+
+    router.get("/:roomId/:rendition/index.m3u8", async (req, res, next) => {
+        const stream = getLlHlsStream(req.params.roomId, req.params.rendition);
+        if (!stream) return next();
+
+        const msn = req.query._HLS_msn !== undefined ? Number(req.query._HLS_msn) : undefined;
+        const part = req.query._HLS_part !== undefined ? Number(req.query._HLS_part) : undefined;
+        if (msn !== undefined) {
+            if (!Number.isInteger(msn) || msn < 0 || (part !== undefined && (!Number.isInteger(part) || part < 0))) {
+                res.status(400).json({ error: "Invalid _HLS_msn/_HLS_part" });
+                return;
+            }
+            if (msn > stream.maxRequestableMsn()) {
+                res.status(400).json({ error: "_HLS_msn is too far in the future" });
+                return;
+            }
+            const ready = await stream.waitForPlaylist(msn, part, BLOCKING_TARGET_DURATIONS * 1000);
+            if (!ready) {
+                res.status(503).json({ error: "Playlist update timed out" });
+                return;
+            }
+        } else if (part !== undefined) {
+            res.status(400).json({ error: "_HLS_part requires _HLS_msn" });
+            return;
+        }
+
+        res.set("Cache-Control", msn !== undefined ? "max-age=60" : "no-cache");
+        res.type("application/vnd.apple.mpegurl").send(stream.playlist());
+    });
+
+    // Preload hints point at parts that do not exist yet: hold the request until they do
+    router.get("/:roomId/:rendition/:file", async (req, res, next) => {
+        const stream = getLlHlsStream(req.params.roomId, req.params.rendition);
+        if (!stream) return next();
+        const available = await stream.waitForFile(req.params.file, BLOCKING_TARGET_DURATIONS * partDuration * 1000);
+        if (!available) {
+            res.status(404).end();
+            return;
+        }
+        next();
+    });
+
+    router.use(express.static("hls"));
+    return router;
+}
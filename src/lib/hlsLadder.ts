@@ -0,0 +1,99 @@
+import { config } from "../config/mediasoup.config.js";
+
+// --- Type Declarations ---
+export type H264Profile = "baseline" | "main" | "high";
+
+export interface HlsVideoRendition {
+    name: string;
+    width: number;
+    height: number;
+    fps: number;
+    // Bitrates in kbit/s
+    videoBitrate: number;
+    maxrate: number;
+    bufsize: number;
+    audioBitrate: number;
+    // Keyframe interval in frames; gop / fps is the shortest possible segment
+    gop: number;
+    preset: string;
+    profile: H264Profile;
+    level: number;
+}
+
+export interface HlsAudioRendition {
+    name: string;
+    audioOnly: true;
+    audioBitrate: number;
+}
+
+export type HlsRendition = HlsVideoRendition | HlsAudioRendition;
+
+// profile_idc + constraint flags as written by libx264
+const H264_PROFILE_HEX: Record<H264Profile, string> = {
+    baseline: "42C0",
+    main: "4D40",
+    high: "6400",
+};
+const AAC_LC_CODEC = "mp4a.40.2";
+// Rough MPEG-TS/PES overhead on top of the encoder bitrate
+const CONTAINER_OVERHEAD = 1.1;
+
+export function isAudioOnly(rendition: HlsRendition): rendition is HlsAudioRendition {
+    return "audioOnly" in rendition && rendition.audioOnly;
+}
+
+/**
+ * Renditions to produce for a canvas: configured video renditions that do not
+ * upscale the canvas (at least the smallest one), plus the audio-only ones.
+ */
+export function selectRenditions(canvasWidth: number, canvasHeight: number): HlsRendition[] {
+    const renditions = config.hls.renditions as readonly HlsRendition[];
+    const video = renditions.filter((r): r is HlsVideoRendition => !isAudioOnly(r));
+    const audio = renditions.filter(isAudioOnly);
+
+    let fitting = video.filter(r => r.width <= canvasWidth && r.height <= canvasHeight);
+    if (!fitting.length && video.length) {
+        fitting = [video.reduce((a, b) => (a.height <= b.height ? a : b))];
+    }
+    return [...fitting, ...audio];
+}
+
+export function renditionCodecs(rendition: HlsRendition): string {
+    if (isAudioOnly(rendition)) return AAC_LC_CODEC;
+    const level = Math.round(rendition.level * 10).toString(16).toUpperCase().padStart(2, "0");
+    return `avc1.${H264_PROFILE_HEX[rendition.profile]}${level},${AAC_LC_CODEC}`;
+}
+
+/**
+ * Master playlist referencing `<name>/index.m3u8` of every rendition.
+ * BANDWIDTH is the peak (maxrate), AVERAGE-BANDWIDTH the target bitrate.
+ */
+export function buildMasterPlaylist(renditions: HlsRendition[]): string {
+    const lines = ["#EXTM3U", "#EXT-X-VERSION:3", "#EXT-X-INDEPENDENT-SEGMENTS"];
+    for (const rendition of renditions) {
+        const peakKbps = isAudioOnly(rendition) ? rendition.audioBitrate : rendition.maxrate + rendition.audioBitrate;
+        const averageKbps = isAudioOnly(rendition) ? rendition.audioBitrate : rendition.videoBitrate + rendition.audioBitrate;
+        const attributes = [
+            `BANDWIDTH=${Math.round(peakKbps * 1000 * CONTAINER_OVERHEAD)}`,
+            `AVERAGE-BANDWIDTH=${Math.round(averageKbps * 1000 * CONTAINER_OVERHEAD)}`,
+            `CODECS="${renditionCodecs(rendition)}"`,
+        ];
+        if (!isAudioOnly(rendition)) {
+            attributes.push(`RESOLUTION=${rendition.width}x${rendition.height}`, `FRAME-RATE=${rendition.fps.toFixed(3)}`);
+        }
+        lines.push(`#EXT-X-STREAM-INF:${attributes.join(",")}`, `${rendition.name}/index.m3u8`);
+    }
+    return lines.join("\n") + "\n";
+}
+
+/**
+ * FFmpeg `-var_stream_map` for the output stream order produced by the encoder:
+ * every video rendition maps one video and one audio stream, audio-only renditions one audio stream.
+ */
+export function buildVarStreamMap(renditions: HlsRendition[]): string {
+    let v = 0, a = 0;
+    return renditions.map(rendition => isAudioOnly(rendition)
+        ? `a:${a++},name:${rendition.name}`
+        : `v:${v++},a:${a++},name:${rendition.name}`
+    ).join(" ");
+}
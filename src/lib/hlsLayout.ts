@@ -0,0 +1,157 @@
+import type { HlsLayout, HlsLayoutMode, HlsLayoutPatch, HlsTileFit } from "../protocol/index.js";
+
+// --- Type Declarations ---
+export type { HlsLayout, HlsLayoutMode, HlsLayoutPatch, HlsTileFit } from "../protocol/index.js";
+
+export interface Tile { x: number; y: number; w: number; h: number; }
+
+const LAYOUT_MODES: HlsLayoutMode[] = ["grid", "speaker", "pinned"];
+const TILE_FITS: HlsTileFit[] = ["pad", "crop"];
+const MIN_DIMENSION = 160, MAX_DIMENSION = 3840;
+
+// --- Helpers ---
+// libx264 (yuv420p) needs even dimensions everywhere
+function even(n: number): number {
+    return Math.max(0, Math.floor(n / 2) * 2);
+}
+
+function evenSize(n: number): number {
+    return Math.max(2, even(n));
+}
+
+// Lays `count` equally sized tiles in a single centered row (or column) inside the given box
+function stripTiles(count: number, box: Tile, vertical: boolean, aspect: number): Tile[] {
+    if (count <= 0) return [];
+    const tiles: Tile[] = [];
+    let w: number, h: number;
+    if (vertical) {
+        h = evenSize(Math.min(box.h / count, box.w / aspect));
+        w = evenSize(Math.min(h * aspect, box.w));
+    } else {
+        w = evenSize(Math.min(box.w / count, box.h * aspect));
+        h = evenSize(Math.min(w / aspect, box.h));
+    }
+    const offsetX = box.x + even((box.w - (vertical ? w : w * count)) / 2);
+    const offsetY = box.y + even((box.h - (vertical ? h * count : h)) / 2);
+    for (let i = 0; i < count; i++) {
+        tiles.push({
+            x: vertical ? offsetX : offsetX + i * w,
+            y: vertical ? offsetY + i * h : offsetY,
+            w,
+            h,
+        });
+    }
+    return tiles;
+}
+
+/**
+ * Auto rows/columns: as square as possible, incomplete last row is centered.
+ */
+export function gridTiles(count: number, width: number, height: number): Tile[] {
+    const cols = Math.ceil(Math.sqrt(count));
+    const rows = Math.ceil(count / cols);
+    const w = evenSize(width / cols), h = evenSize(height / rows);
+    const offsetY = even((height - rows * h) / 2);
+    const tiles: Tile[] = [];
+    for (let i = 0; i < count; i++) {
+        const row = Math.floor(i / cols);
+        const inRow = row === rows - 1 ? count - row * cols : cols;
+        const offsetX = even((width - inRow * w) / 2);
+        tiles.push({ x: offsetX + (i % cols) * w, y: offsetY + row * h, w, h });
+    }
+    return tiles;
+}
+
+/**
+ * One large tile on top, thumbnails in a row along the bottom quarter.
+ */
+export function speakerTiles(count: number, focusIndex: number, width: number, height: number): Tile[] {
+    if (count === 1) return [{ x: 0, y: 0, w: evenSize(width), h: evenSize(height) }];
+    const main: Tile = { x: 0, y: 0, w: evenSize(width), h: evenSize(height * 3 / 4) };
+    const thumbHeight = even(height) - main.h;
+    const thumbs = stripTiles(count - 1, { x: 0, y: main.h, w: width, h: thumbHeight }, false, width / height);
+    return placeFocus(count, focusIndex, main, thumbs);
+}
+
+/**
+ * Pinned tile fills the left three quarters, everyone else stacked in a column on the right.
+ */
+export function pinnedTiles(count: number, pinnedIndex: number, width: number, height: number): Tile[] {
+    if (count === 1) return [{ x: 0, y: 0, w: evenSize(width), h: evenSize(height) }];
+    const main: Tile = { x: 0, y: 0, w: evenSize(width * 3 / 4), h: evenSize(height) };
+    const sideWidth = even(width) - main.w;
+    const thumbs = stripTiles(count - 1, { x: main.w, y: 0, w: sideWidth, h: height }, true, width / height);
+    return placeFocus(count, pinnedIndex, main, thumbs);
+}
+
+function placeFocus(count: number, focusIndex: number, main: Tile, thumbs: Tile[]): Tile[] {
+    const focus = focusIndex >= 0 && focusIndex < count ? focusIndex : 0;
+    const tiles: Tile[] = [];
+    let t = 0;
+    for (let i = 0; i < count; i++) {
+        tiles.push(i === focus ? main : thumbs[t++]);
+    }
+    return tiles;
+}
+
+export function computeTiles(count: number, layout: HlsLayout, focusIndex: number): Tile[] {
+    switch (layout.mode) {
+        case "speaker": return speakerTiles(count, focusIndex, layout.width, layout.height);
+        case "pinned": return pinnedTiles(count, focusIndex, layout.width, layout.height);
+        default: return gridTiles(count, layout.width, layout.height);
+    }
+}
+
+// The canvas the tiles are laid on
+export function canvasSize(layout: HlsLayout): { width: number; height: number } {
+    return { width: evenSize(layout.width), height: evenSize(layout.height) };
+}
+
+/**
+ * Video filter a tile's decoder runs: scales any input picture to exactly
+ * tile.w x tile.h yuv420p, cropped or letterboxed to keep its aspect ratio.
+ */
+export function buildTileFilter(tile: Tile, fit: HlsTileFit): string {
+    const fitted = fit === "crop"
+        ? `scale=${tile.w}:${tile.h}:force_original_aspect_ratio=increase,crop=${tile.w}:${tile.h}`
+        : `scale=${tile.w}:${tile.h}:force_original_aspect_ratio=decrease,` +
+            `pad=${tile.w}:${tile.h}:(ow-iw)/2:(oh-ih)/2:black`;
+    return `${fitted},setsar=1,format=yuv420p`;
+}
+
+/**
+ * Merges a client supplied layout patch onto the current one.
+ * Returns an error string when a field is invalid.
+ */
+export function mergeHlsLayout(current: HlsLayout, patch: HlsLayoutPatch): { layout: HlsLayout } | { error: string } {
+    if (!patch || typeof patch !== "object") return { error: "Invalid layout" };
+    const layout: HlsLayout = { ...current };
+
+    if (patch.mode !== undefined) {
+        if (!LAYOUT_MODES.includes(patch.mode)) return { error: `Unknown layout mode: ${patch.mode}` };
+        layout.mode = patch.mode;
+    }
+    if (patch.fit !== undefined) {
+        if (!TILE_FITS.includes(patch.fit)) return { error: `Unknown tile fit: ${patch.fit}` };
+        layout.fit = patch.fit;
+    }
+    for (const dim of ["width", "height"] as const) {
+        if (patch[dim] === undefined) continue;
+        const value = Number(patch[dim]);
+        if (!Number.isInteger(value) || value < MIN_DIMENSION || value > MAX_DIMENSION) {
+            return { error: `${dim} must be an integer between ${MIN_DIMENSION} and ${MAX_DIMENSION}` };
+        }
+        layout[dim] = evenSize(value);
+    }
+    if (patch.pinnedUserId !== undefined) {
+        if (patch.pinnedUserId !== null && typeof patch.pinnedUserId !== "string") {
+            return { error: "pinnedUserId must be a string" };
+        }
+        layout.pinnedUserId = patch.pinnedUserId ?? undefined;
+    }
+    return { layout };
+}
+
+export function hlsLayoutKey(layout: HlsLayout): string {
+    return `${layout.mode}:${layout.width}x${layout.height}:${layout.fit}:${layout.pinnedUserId ?? ""}`;
+}
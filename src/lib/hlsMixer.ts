@@ -0,0 +1,367 @@
+import type { ChildProcess } from "child_process";
+import dgram from "dgram";
+import type { Readable, Writable } from "stream";
+import {
+    blackFrame, blitFrame, createPcmQueue, Frame, frameBytes, mixPcm, PcmQueue, PCM_FRAME_BYTES,
+    pushPcm, samplesForTick, scaleFrame, takePcm,
+} from "./hlsCanvas.js";
+import { isStopping, launchFfmpeg, launchInputDecoder, RtpInput, stopFfmpeg } from "./launchFfmpeg.js";
+import type { HlsTileFit, Tile } from "./hlsLayout.js";
+import type { HlsRendition } from "./hlsLadder.js";
+
+/*
+ * The room's composition without restarts: one decoder FFmpeg per producer
+ * (launchInputDecoder) writes raw frames or PCM to stdout, the mixer keeps the
+ * latest frame of each tile and a jitter buffer per voice, and on every tick of
+ * its clock blits the tiles onto the canvas (black where nobody is), mixes the
+ * voices (silence without any) and writes both to one long-lived encoder FFmpeg
+ * (launchFfmpeg). The encoder's MPEG-TS is sent over UDP to the packager, the
+ * recorder and the restreams. Joins, leaves and layout changes only start or
+ * stop decoders; listeners only change where the datagrams go.
+ */
+
+// --- Type Declarations ---
+export type MixerInput = {
+    kind: "audio" | "video";
+    rtp: RtpInput;
+    // Video: where the frames go on the canvas, and how the decoder fits them to the tile
+    tile?: Tile;
+    fit?: HlsTileFit;
+    decoder?: ChildProcess;
+    // Latest complete frame, and the one being read from the decoder
+    frame?: Frame;
+    reading?: { data: Buffer; filled: number };
+    pcm: PcmQueue;
+    // Decoder exits since it last delivered media (restart backoff)
+    failures: number;
+    restartTimer?: NodeJS.Timeout;
+    // Called after every decoder launch (keyframe requests, stats)
+    onLaunch: () => void;
+    removed?: boolean;
+};
+
+export type MixerEncoder = {
+    process: ChildProcess;
+    video: Writable;
+    audio: Writable;
+    // Once it wrote output (its inputs are open)
+    started: boolean;
+};
+
+export type HlsMixer = {
+    roomId: string;
+    width: number;
+    height: number;
+    fps: number;
+    // Replaced on canvas changes and recoveries, the inputs keep running
+    encoder?: MixerEncoder;
+    // By producer id
+    inputs: Map<string, MixerInput>;
+    // UDP ports the encoder's output is sent to
+    outputPorts: number[];
+    socket: dgram.Socket;
+    background: Frame;
+    // Canvas buffers the encoder pipe is done with
+    freeBuffers: Buffer[];
+    clock: { startedAt: number; ticks: number; timer?: NodeJS.Timeout };
+    // Ticks not written because the encoder did not keep up
+    droppedTicks: number;
+    closed?: boolean;
+};
+
+export type MixerInputOptions = Pick<MixerInput, "kind" | "rtp" | "tile" | "fit" | "onLaunch">;
+
+// MPEG-TS over UDP: 7 packets of 188 bytes per datagram
+const DATAGRAM_BYTES = 1316;
+// Audio jitter buffer of each input, in ticks: filled this far before it plays, dropped beyond the maximum
+const PCM_PRIME_TICKS = 3, PCM_MAX_TICKS = 12;
+// A clock further behind than this skips ahead instead of catching up
+const MAX_CATCH_UP_TICKS = 5;
+// Ticks written but not read by the encoder yet, beyond which ticks are dropped. More while it
+// starts: FFmpeg opens its inputs one by one, the audio pipe is only read once the video one
+// is open, so the ticks cannot wait for the video pipe to drain.
+const MAX_PENDING_TICKS = 8, MAX_PENDING_TICKS_STARTING = 60;
+const MAX_FREE_BUFFERS = 4;
+const DECODER_STOP_TIMEOUT = 1000;
+const DECODER_MIN_BACKOFF = 500, DECODER_MAX_BACKOFF = 10_000;
+
+// --- Lifecycle ---
+export function createHlsMixer(roomId: string, width: number, height: number, fps: number): HlsMixer {
+    const socket = dgram.createSocket("udp4");
+    socket.on("error", err => console.error(`[hls-mixer] ${roomId} socket error:`, err));
+    const mixer: HlsMixer = {
+        roomId,
+        width,
+        height,
+        fps,
+        inputs: new Map(),
+        outputPorts: [],
+        socket,
+        background: blackFrame(width, height),
+        freeBuffers: [],
+        clock: { startedAt: Date.now(), ticks: 0 },
+        droppedTicks: 0,
+    };
+    scheduleTick(mixer);
+    return mixer;
+}
+
+/**
+ * New canvas size or rate. Only while no encoder runs: the next one is launched for it.
+ */
+export function resizeHlsMixer(mixer: HlsMixer, width: number, height: number, fps: number): void {
+    if (mixer.width === width && mixer.height === height && mixer.fps === fps) return;
+    mixer.width = width;
+    mixer.height = height;
+    mixer.background = blackFrame(width, height);
+    mixer.freeBuffers = [];
+    if (mixer.fps !== fps) {
+        mixer.fps = fps;
+        clearTimeout(mixer.clock.timer);
+        mixer.clock = { startedAt: Date.now(), ticks: 0 };
+        scheduleTick(mixer);
+    }
+}
+
+/**
+ * Stops everything; resolves once the decoders and the encoder have exited.
+ */
+export async function closeHlsMixer(mixer: HlsMixer): Promise<void> {
+    mixer.closed = true;
+    clearTimeout(mixer.clock.timer);
+    await Promise.all([
+        ...[...mixer.inputs.keys()].map(id => removeMixerInput(mixer, id)),
+        stopMixerEncoder(mixer),
+    ]);
+    mixer.socket.close();
+}
+
+// --- Encoder ---
+/**
+ * Launches the encoder for the current canvas. Its output goes to the mixer's output ports.
+ */
+export function startMixerEncoder(
+    mixer: HlsMixer,
+    opts: { renditions: HlsRendition[]; timestampOffset: number }
+): ChildProcess {
+    const { process, video, audio, output } = launchFfmpeg(mixer.roomId, {
+        width: mixer.width,
+        height: mixer.height,
+        fps: mixer.fps,
+        ...opts,
+    });
+    // EPIPE when it exits; the supervisor sees the exit
+    for (const pipe of [video, audio]) pipe.on("error", () => { });
+    const encoder: MixerEncoder = { process, video, audio, started: false };
+    mixer.encoder = encoder;
+    output.once("data", () => { encoder.started = true; });
+    process.once("exit", () => {
+        if (mixer.encoder?.process === process) mixer.encoder = undefined;
+    });
+    forwardOutput(mixer, output);
+    return process;
+}
+
+/**
+ * Stops the encoder gracefully and resolves once its last packets were sent on.
+ */
+export async function stopMixerEncoder(mixer: HlsMixer): Promise<void> {
+    const encoder = mixer.encoder;
+    mixer.encoder = undefined;
+    if (!encoder) return;
+    const output = encoder.process.stdout;
+    const drained = output && !output.readableEnded
+        ? new Promise(resolve => output.once("close", resolve))
+        : Promise.resolve();
+    // End of input: it encodes what it has, flushes and exits
+    await stopFfmpeg(encoder.process, 5000, [encoder.video, encoder.audio]);
+    await drained;
+}
+
+export function setMixerOutputs(mixer: HlsMixer, ports: number[]): void {
+    mixer.outputPorts = ports;
+}
+
+// Cuts the encoder's MPEG-TS into datagrams and sends each to every output port
+function forwardOutput(mixer: HlsMixer, output: Readable): void {
+    let pending = Buffer.alloc(0);
+    const send = (datagram: Buffer) => {
+        if (mixer.closed) return;
+        // Unconnected UDP: a port nobody listens on yet is not an error worth reporting
+        for (const port of mixer.outputPorts) mixer.socket.send(datagram, port, "127.0.0.1", () => { });
+    };
+    output.on("data", (data: Buffer) => {
+        pending = pending.length ? Buffer.concat([pending, data]) : data;
+        const whole = pending.length - pending.length % DATAGRAM_BYTES;
+        for (let offset = 0; offset < whole; offset += DATAGRAM_BYTES) {
+            send(pending.subarray(offset, offset + DATAGRAM_BYTES));
+        }
+        pending = pending.subarray(whole);
+    });
+    output.on("end", () => {
+        if (pending.length) send(pending);
+    });
+}
+
+// --- Inputs ---
+/**
+ * Adds an input or updates its tile. Its decoder is only restarted when the
+ * tile changes size or fit; until the new size arrives the tile shows its
+ * last picture rescaled. A moved tile just changes where it is blitted.
+ */
+export async function setMixerInput(mixer: HlsMixer, id: string, opts: MixerInputOptions): Promise<void> {
+    const input = mixer.inputs.get(id);
+    if (!input) {
+        const created: MixerInput = { ...opts, pcm: createPcmQueue(), failures: 0 };
+        mixer.inputs.set(id, created);
+        launchDecoder(mixer, id, created);
+        return;
+    }
+    const resized = input.tile?.w !== opts.tile?.w || input.tile?.h !== opts.tile?.h || input.fit !== opts.fit;
+    input.tile = opts.tile;
+    input.fit = opts.fit;
+    input.onLaunch = opts.onLaunch;
+    if (!resized) return;
+    if (input.frame && opts.tile) input.frame = scaleFrame(input.frame, opts.tile.w, opts.tile.h);
+    input.reading = undefined;
+    clearTimeout(input.restartTimer);
+    input.restartTimer = undefined;
+    const previous = input.decoder;
+    input.decoder = undefined;
+    await stopFfmpeg(previous, DECODER_STOP_TIMEOUT);
+    if (!input.removed && !input.decoder) launchDecoder(mixer, id, input);
+}
+
+/**
+ * Removes an input; its tile turns black (or its voice silent) from the next tick.
+ */
+export async function removeMixerInput(mixer: HlsMixer, id: string): Promise<void> {
+    const input = mixer.inputs.get(id);
+    if (!input) return;
+    mixer.inputs.delete(id);
+    input.removed = true;
+    clearTimeout(input.restartTimer);
+    const decoder = input.decoder;
+    input.decoder = undefined;
+    await stopFfmpeg(decoder, DECODER_STOP_TIMEOUT);
+}
+
+function launchDecoder(mixer: HlsMixer, id: string, input: MixerInput): void {
+    const { tile, fit } = input;
+    const proc = launchInputDecoder(mixer.roomId, {
+        name: `input-${id}`,
+        input: input.rtp,
+        video: input.kind === "video" && tile ? { tile, fit: fit ?? "pad" } : undefined,
+    });
+    input.decoder = proc;
+    const maxPcmBytes = PCM_MAX_TICKS * samplesForTick(0, mixer.fps) * PCM_FRAME_BYTES;
+    proc.stdout?.on("data", (data: Buffer) => {
+        // Output of a decoder that is being replaced
+        if (input.decoder !== proc) return;
+        input.failures = 0;
+        if (input.kind === "audio") pushPcm(input.pcm, data, maxPcmBytes);
+        else if (tile) readFrames(input, data, tile);
+    });
+    proc.on("exit", () => {
+        if (isStopping(proc) || input.decoder !== proc || input.removed) return;
+        input.decoder = undefined;
+        const delay = Math.min(DECODER_MIN_BACKOFF * 2 ** input.failures, DECODER_MAX_BACKOFF);
+        input.failures++;
+        console.warn(`[hls-mixer] ${mixer.roomId} decoder of ${id} exited, restarting in ${delay} ms`);
+        input.restartTimer = setTimeout(() => {
+            input.restartTimer = undefined;
+            if (!input.removed && !mixer.closed) launchDecoder(mixer, id, input);
+        }, delay);
+    });
+    input.onLaunch();
+}
+
+// Reassembles whole frames from the decoder's stdout; the buffer of the replaced frame is reused
+function readFrames(input: MixerInput, data: Buffer, tile: Tile): void {
+    const size = frameBytes(tile.w, tile.h);
+    let offset = 0;
+    while (offset < data.length) {
+        input.reading ??= { data: Buffer.allocUnsafe(size), filled: 0 };
+        const reading = input.reading;
+        const copied = data.copy(reading.data, reading.filled, offset, offset + size - reading.filled);
+        reading.filled += copied;
+        offset += copied;
+        if (reading.filled < size) continue;
+        const replaced = input.frame;
+        input.frame = { width: tile.w, height: tile.h, data: reading.data };
+        input.reading = replaced?.data.length === size ? { data: replaced.data, filled: 0 } : undefined;
+    }
+}
+
+// --- Clock ---
+function scheduleTick(mixer: HlsMixer): void {
+    const { clock } = mixer;
+    const interval = 1000 / mixer.fps;
+    clock.timer = setTimeout(() => {
+        if (mixer.closed || mixer.clock !== clock) return;
+        const due = Math.floor((Date.now() - clock.startedAt) / interval) + 1 - clock.ticks;
+        if (due > MAX_CATCH_UP_TICKS) {
+            // Blocked for a while: the output falls behind by the lost ticks instead of bursting them out
+            mixer.droppedTicks += due - 1;
+            clock.startedAt = Date.now() - clock.ticks * interval;
+            tick(mixer);
+        } else {
+            for (let i = 0; i < due; i++) tick(mixer);
+        }
+        scheduleTick(mixer);
+    }, Math.max(0, clock.startedAt + clock.ticks * interval - Date.now()));
+}
+
+function tick(mixer: HlsMixer): void {
+    const pcmBytes = samplesForTick(mixer.clock.ticks, mixer.fps) * PCM_FRAME_BYTES;
+    const primeBytes = PCM_PRIME_TICKS * pcmBytes;
+    mixer.clock.ticks++;
+    // Voices are taken even when nothing is written, so they do not fall behind
+    const voices: Buffer[] = [];
+    for (const input of mixer.inputs.values()) {
+        if (input.kind !== "audio") continue;
+        const pcm = takePcm(input.pcm, pcmBytes, primeBytes);
+        if (pcm) voices.push(pcm);
+    }
+
+    const encoder = mixer.encoder;
+    if (!encoder) return;
+    const { width, height } = mixer;
+    const maxPending = encoder.started ? MAX_PENDING_TICKS : MAX_PENDING_TICKS_STARTING;
+    if (encoder.video.writableLength >= maxPending * frameBytes(width, height) ||
+        encoder.audio.writableLength >= maxPending * pcmBytes) {
+        mixer.droppedTicks++;
+        return;
+    }
+    const canvas: Frame = { width, height, data: mixer.freeBuffers.pop() ?? Buffer.allocUnsafe(frameBytes(width, height)) };
+    mixer.background.data.copy(canvas.data);
+    for (const input of mixer.inputs.values()) {
+        if (input.frame && input.tile) blitFrame(canvas, input.frame, input.tile.x, input.tile.y);
+    }
+    encoder.video.write(canvas.data, () => {
+        if (canvas.data.length === frameBytes(mixer.width, mixer.height) && mixer.freeBuffers.length < MAX_FREE_BUFFERS) {
+            mixer.freeBuffers.push(canvas.data);
+        }
+    });
+    encoder.audio.write(mixPcm(voices, pcmBytes));
+}
+
+/**
+ * JSON friendly snapshot for the admin API.
+ */
+export function describeHlsMixer(mixer: HlsMixer) {
+    return {
+        canvas: `${mixer.width}x${mixer.height}`,
+        fps: mixer.fps,
+        encoderPid: mixer.encoder?.process.pid,
+        outputPorts: mixer.outputPorts,
+        droppedTicks: mixer.droppedTicks,
+        inputs: [...mixer.inputs.entries()].map(([producerId, input]) => ({
+            producerId,
+            kind: input.kind,
+            tile: input.tile,
+            decoderPid: input.decoder?.pid,
+            restarting: input.restartTimer !== undefined,
+        })),
+    };
+}
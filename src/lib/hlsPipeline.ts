@@ -0,0 +1,344 @@
+import type { Consumer, Producer } from "mediasoup/types";
+import type { ChildProcess } from "child_process";
+import fs from "fs";
+import path from "path";
+import getPort, { portNumbers } from "get-port";
+import { config } from "../config/mediasoup.config.js";
+import { launchHlsPackager, launchLlHlsPackager, resetHlsDir, RtpInput, stopFfmpeg } from "./launchFfmpeg.js";
+import { getEvenPort, plainRtpCapabilities, requestKeyFrameWithRetry } from "./rtpUtils.js";
+import { canvasSize, computeTiles } from "./hlsLayout.js";
+import { HlsRendition, HlsVideoRendition, isAudioOnly, selectRenditions } from "./hlsLadder.js";
+import {
+    closeHlsMixer, createHlsMixer, removeMixerInput, resizeHlsMixer, setMixerInput, setMixerOutputs,
+    startMixerEncoder, stopMixerEncoder,
+} from "./hlsMixer.js";
+import { attachLlHlsOutputs, closeLlHls } from "./llhls.js";
+import { maxLayers } from "./layers.js";
+import { hlsLaunched, scheduleHlsRecovery, stopHlsSupervision, superviseHlsProcess } from "./hlsSupervisor.js";
+import type { HlsLayout } from "./hlsLayout.js";
+import type { HlsSlot, ProducerSource, Room } from "./rooms.js";
+
+// Per user order of the producers in the composition
+const SOURCE_ORDER: ProducerSource[] = ["mic", "screen-audio", "webcam", "screen"];
+// Canvas rate of audio-only ladders
+const DEFAULT_FPS = 30;
+
+// --- State ---
+const hlsRestarting: Map<string, boolean> = new Map();
+
+// --- HLS Restart Logic (serialized per room) ---
+export async function safeRestartRoomHls(roomId: string, room: Room) {
+    if (hlsRestarting.get(roomId)) {
+        room.__pendingRestart = true;
+        return;
+    }
+    hlsRestarting.set(roomId, true);
+    const startedAt = Date.now();
+    try {
+        if (await restartRoomHls(roomId, room)) {
+            const stats = room.hlsStats;
+            const duration = Date.now() - startedAt;
+            stats.restarts++;
+            stats.lastRestartMs = duration;
+            stats.maxRestartMs = Math.max(stats.maxRestartMs, duration);
+            stats.totalRestartMs += duration;
+        }
+    } catch (err) {
+        room.hlsStats.failures++;
+        console.error(`[safeRestartRoomHls] Error for room ${roomId}:`, err);
+        if (!room.closed) recoverRoomHls(roomId, room, "failed", `Restart failed: ${(err as Error).message}`, false);
+    } finally {
+        hlsRestarting.delete(roomId);
+        if (room.__pendingRestart) {
+            room.__pendingRestart = false;
+            safeRestartRoomHls(roomId, room);
+        }
+    }
+}
+
+function closeHlsSlot(slot: HlsSlot): void {
+    try { slot.transport.close(); } catch { }
+}
+
+/**
+ * Tears down the whole HLS output of a room (mixer, packager and slots).
+ */
+export function closeRoomHls(roomId: string, room: Room): void {
+    if (room.hlsMixer) closeHlsMixer(room.hlsMixer).catch(err => console.error(`[hls] ${roomId} closing the mixer:`, err));
+    if (room.hlsPackager) stopFfmpeg(room.hlsPackager.process);
+    if (room.hlsSlots) for (const slot of room.hlsSlots.values()) closeHlsSlot(slot);
+    room.hlsMixer = undefined;
+    room.hlsPackager = undefined;
+    room.hlsSlots = undefined;
+    room.hlsMixerKey = undefined;
+    closeLlHls(roomId);
+    stopHlsSupervision(room);
+}
+
+/**
+ * Shutdown variant of closeRoomHls: lets the compositor and then the packager
+ * flush their last segment and marks the playlists as ended (EXT-X-ENDLIST),
+ * so players stop instead of waiting for a stream that will not come back.
+ * LL-HLS playlists are served from memory and end with the server.
+ */
+export async function endRoomHls(roomId: string, room: Room): Promise<void> {
+    const { hlsDir, hlsPackager } = room;
+    stopHlsSupervision(room);
+    if (room.hlsMixer) await stopMixerEncoder(room.hlsMixer);
+    await stopFfmpeg(hlsPackager?.process);
+    closeRoomHls(roomId, room);
+    if (!hlsDir || hlsPackager?.mode !== "ts") return;
+    for (const rendition of hlsPackager.renditions) {
+        const playlist = path.join(hlsDir, rendition.name, "index.m3u8");
+        try {
+            if (!fs.readFileSync(playlist, "utf8").includes("#EXT-X-ENDLIST")) fs.appendFileSync(playlist, "#EXT-X-ENDLIST\n");
+        } catch {
+            // No segment was written
+        }
+    }
+}
+
+/**
+ * Supervisor recovery (crash, stall or failed restart) after its backoff:
+ * relaunches the compositor, with `withPackager` the packager as well. The
+ * playlist continues (append_list, or the kept LL-HLS streams).
+ */
+function recoverRoomHls(roomId: string, room: Room, status: "stalled" | "failed", reason: string, withPackager: boolean): void {
+    scheduleHlsRecovery(roomId, room, status, reason, async () => {
+        if (withPackager && room.hlsPackager) room.hlsPackager.stale = true;
+        await forceRestartRoomHls(roomId, room);
+    });
+}
+
+type CompositionInput = { userId: string; source: ProducerSource; producer: Producer };
+
+/**
+ * What goes into the composition: every video producer is a tile (per user the
+ * webcam before the screen share), every audio producer is mixed.
+ */
+function compositionInputs(room: Room): { audio: CompositionInput[]; video: CompositionInput[] } {
+    const audio: CompositionInput[] = [];
+    const video: CompositionInput[] = [];
+    for (const [userId, userProducers] of room.producers) {
+        for (const source of SOURCE_ORDER) {
+            const producer = userProducers.get(source);
+            if (producer) (producer.kind === "audio" ? audio : video).push({ userId, source, producer });
+        }
+    }
+    return { audio, video };
+}
+
+/**
+ * Layout and focus tile: a screen share always gets the large tile (speaker
+ * layout), otherwise the pinned user or the active speaker is focused.
+ */
+function compositionLayout(room: Room, video: CompositionInput[]): { layout: HlsLayout; focusIndex: number } {
+    const screenIndex = video.findIndex(input => input.source === "screen");
+    if (screenIndex >= 0) return { layout: { ...room.hlsLayout, mode: "speaker" }, focusIndex: screenIndex };
+    if (room.hlsLayout.mode === "grid") return { layout: room.hlsLayout, focusIndex: 0 };
+    const focusUserId = room.hlsLayout.mode === "pinned" ? room.hlsLayout.pinnedUserId : room.hlsSpeaker;
+    const focusIndex = video.findIndex(input => input.userId === focusUserId && input.source === "webcam");
+    return { layout: room.hlsLayout, focusIndex: Math.max(0, focusIndex) };
+}
+
+/**
+ * Long-lived readers of the composition besides the packager: the composite
+ * recorder and every restream destination.
+ */
+function compositionListeners(room: Room): Array<{ id: string; port: number; startedAt: number }> {
+    const listeners = [...room.restreams.values()].map(({ id, port, startedAt }) => ({ id, port, startedAt }));
+    if (room.recording) {
+        const { id, compositePort, startedAt } = room.recording;
+        listeners.unshift({ id, port: compositePort, startedAt });
+    }
+    return listeners;
+}
+
+function rtpInput(slot: HlsSlot): RtpInput {
+    return { ports: slot.ports, rtpParameters: slot.consumer.rtpParameters };
+}
+
+// The canvas rate: the fastest video rendition
+function canvasFps(renditions: HlsRendition[]): number {
+    const rates = renditions.filter((r): r is HlsVideoRendition => !isAudioOnly(r)).map(r => r.fps);
+    return rates.length ? Math.max(...rates) : DEFAULT_FPS;
+}
+
+/**
+ * Full pipeline: 1. collect the inputs, 2. (re)start the packager if needed,
+ * 3. (re)launch the compositor (the mixer's encoder) if the canvas changed, 4. point
+ * the mixer's output at the packager and listeners, 5. close slots of producers that
+ * are gone, 6. create transports and paused consumers for new producers, 7. give
+ * every slot its tile (decoders of new or resized tiles start before their ports
+ * are connected), 8. connect new transports, 9. resume new consumers, request
+ * keyframes.
+ *
+ * Participant and layout changes only start or stop the affected decoders (see
+ * hlsMixer.ts): the compositor, the packager and so the playlist keep running.
+ * Resolves to whether a new compositor was launched.
+ */
+async function restartRoomHls(roomId: string, room: Room): Promise<boolean> {
+    // Room destroyed while this restart was queued
+    if (room.closed) return false;
+
+    // --- Step 1: Collect the tiles (video producers) and the audio to mix
+    const { audio, video } = compositionInputs(room);
+    const inputs = [...audio, ...video];
+    // Nothing published yet and no output running: nothing to do.
+    // Rooms without HLS only run the compositor while they are recorded or restreamed.
+    const listeners = compositionListeners(room);
+    if (!room.options.hls && !listeners.length) {
+        if (room.hlsMixer || room.hlsSlots) closeRoomHls(roomId, room);
+        return false;
+    }
+    if (!inputs.length && !room.hlsPackager && !room.hlsMixer && !listeners.length) return false;
+
+    // --- Step 2: (Re)start the packager; only a canvas (or output mode) change breaks the running playlist
+    // (a stale packager is relaunched on top of it, see recoverRoomHls)
+    const { width, height } = canvasSize(room.hlsLayout);
+    const canvas = `${width}x${height}`;
+    const current = room.hlsPackager;
+    if (current && (current.stale || current.canvas !== canvas || current.mode !== room.hlsMode)) {
+        await stopFfmpeg(current.process);
+        if (current.mode !== room.hlsMode) {
+            // Different segment format: start over with a fresh output directory
+            closeLlHls(roomId);
+            resetHlsDir(roomId);
+        }
+        room.hlsPackager = undefined;
+    }
+    if (!room.hlsPackager && room.options.hls) {
+        const port = await getPort({ port: portNumbers(10302, 10400) });
+        const renditions = selectRenditions(width, height);
+        let packagerProcess: ChildProcess;
+        if (room.hlsMode === "llhls") {
+            const { partDuration, windowSegments } = config.hls.lowLatency;
+            const packager = launchLlHlsPackager(roomId, { inputPort: port, renditions, partDuration });
+            attachLlHlsOutputs(roomId, packager.hlsDir, renditions.map((rendition, i) => ({
+                name: rendition.name,
+                output: packager.outputs[i],
+                segmentTarget: isAudioOnly(rendition) ? 1 : rendition.gop / rendition.fps,
+            })), { partTarget: partDuration, windowSegments });
+            packagerProcess = packager.process;
+            room.hlsDir = packager.hlsDir;
+        } else {
+            const packager = launchHlsPackager(roomId, { inputPort: port, renditions });
+            packagerProcess = packager.process;
+            room.hlsDir = packager.hlsDir;
+        }
+        room.hlsPackager = { process: packagerProcess, port, startedAt: Date.now(), canvas, renditions, mode: room.hlsMode };
+        superviseHlsProcess(room, packagerProcess, "packager", reason => recoverRoomHls(roomId, room, "failed", reason, true));
+    }
+
+    // --- Step 3: (Re)launch the compositor for a new canvas, a new ladder or after a failure
+    // Without a packager only the recorder/restreams listen; they keep the first (largest) rendition
+    const renditions = room.hlsPackager?.renditions ?? selectRenditions(width, height).slice(0, 1);
+    const mixerKey = `${canvas}#${renditions.map(rendition => rendition.name).join(",")}`;
+    let mixer = room.hlsMixer;
+    let launched = false;
+    if (!mixer || room.hlsMixerKey !== mixerKey) {
+        const fps = canvasFps(renditions);
+        if (mixer) {
+            await stopMixerEncoder(mixer);
+            resizeHlsMixer(mixer, width, height, fps);
+        } else {
+            mixer = room.hlsMixer = createHlsMixer(roomId, width, height, fps);
+        }
+        const startedAt = Math.min(room.hlsPackager?.startedAt ?? Infinity, ...listeners.map(listener => listener.startedAt));
+        const encoder = startMixerEncoder(mixer, { renditions, timestampOffset: (Date.now() - startedAt) / 1000 });
+        superviseHlsProcess(room, encoder, "compositor", reason => recoverRoomHls(roomId, room, "failed", reason, false));
+        hlsLaunched(roomId, room, reason => recoverRoomHls(roomId, room, "stalled", reason, true));
+        room.hlsMixerKey = mixerKey;
+        room.hlsStats.lastStartedAt = Date.now();
+        launched = true;
+    }
+
+    // --- Step 4: Listeners joining or leaving only change where the output goes
+    setMixerOutputs(mixer, [room.hlsPackager?.port, ...listeners.map(listener => listener.port)]
+        .filter((port): port is number => port !== undefined));
+
+    // --- Step 5: Close slots of producers that are gone (their tile turns black)
+    const slots = room.hlsSlots ?? new Map<string, HlsSlot>();
+    for (const [producerId, slot] of slots) {
+        if (!inputs.some(input => input.producer.id === producerId)) {
+            await removeMixerInput(mixer, producerId);
+            closeHlsSlot(slot);
+            slots.delete(producerId);
+        }
+    }
+
+    // --- Step 6: Allocate ports, create transports and paused consumers for new producers
+    const usedPorts = new Set<number>();
+    for (const slot of slots.values()) {
+        usedPorts.add(slot.ports.rtp); usedPorts.add(slot.ports.rtcp);
+    }
+    const newSlots: HlsSlot[] = [];
+    for (const { userId, source, producer } of inputs) {
+        if (slots.has(producer.id)) continue;
+        const range = producer.kind === "audio" ? { startPort: 10102, endPort: 10200 } : { startPort: 10202, endPort: 10300 };
+        const rtp = await getEvenPort(range, usedPorts);
+        usedPorts.add(rtp); usedPorts.add(rtp + 1);
+
+        const transport = await room.router.createPlainTransport({
+            listenIp: "127.0.0.1", rtcpMux: false, comedia: false,
+        });
+        let consumer: Consumer;
+        try {
+            // Simulcast/SVC: always the full resolution for the composition (there is no BWE on a PlainTransport)
+            consumer = await transport.consume({
+                producerId: producer.id,
+                rtpCapabilities: plainRtpCapabilities(room.router.rtpCapabilities),
+                paused: true,
+                preferredLayers: producer.kind === "video" ? maxLayers(producer.rtpParameters) : undefined,
+            });
+        } catch (err) {
+            transport.close();
+            throw err;
+        }
+        const slot: HlsSlot = { userId, source, kind: producer.kind, transport, ports: { rtp, rtcp: rtp + 1 }, consumer };
+        slots.set(producer.id, slot);
+        newSlots.push(slot);
+    }
+    room.hlsSlots = slots;
+
+    // --- Step 7: Tiles; the decoders of new inputs and of resized tiles (re)start, before their ports are connected
+    const { layout, focusIndex } = compositionLayout(room, video);
+    const tiles = computeTiles(video.length, layout, focusIndex);
+    await Promise.all(inputs.map(({ source, producer }) => {
+        const slot = slots.get(producer.id)!;
+        const i = video.findIndex(input => input.producer.id === producer.id);
+        return setMixerInput(mixer, producer.id, {
+            kind: slot.kind,
+            rtp: rtpInput(slot),
+            tile: i >= 0 ? tiles[i] : undefined,
+            // Screen shares are always letterboxed, never cropped
+            fit: i >= 0 ? (source === "screen" ? "pad" : layout.fit) : undefined,
+            onLaunch: () => {
+                room.hlsStats.decoderLaunches++;
+                // A fresh decoder cannot decode anything before the next keyframe (new consumers get theirs in step 9)
+                if (slot.kind === "video" && !slot.consumer.paused) requestKeyFrameWithRetry(slot.consumer, 5, 500);
+            },
+        });
+    }));
+
+    // --- Step 8: Connect new transports (AFTER their decoders started)
+    for (const slot of newSlots) {
+        await slot.transport.connect({ ip: "127.0.0.1", port: slot.ports.rtp, rtcpPort: slot.ports.rtcp });
+    }
+
+    // --- Step 9: Resume the new consumers, then request keyframes on the new video slots
+    await Promise.all(newSlots.map(slot => slot.consumer.resume()));
+    await Promise.all(newSlots.map(slot =>
+        slot.kind === "video" ? requestKeyFrameWithRetry(slot.consumer, 5, 500) : Promise.resolve()
+    ));
+    return launched;
+}
+
+/**
+ * Relaunches the compositor even if nothing changed (admin "force restart",
+ * supervisor recovery). The decoders keep running.
+ */
+export function forceRestartRoomHls(roomId: string, room: Room): Promise<void> {
+    room.hlsMixerKey = undefined;
+    return safeRestartRoomHls(roomId, room);
+}
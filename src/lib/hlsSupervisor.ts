@@ -0,0 +1,184 @@
+import type { ChildProcess } from "child_process";
+import fs from "fs";
+import path from "path";
+import { config } from "../config/mediasoup.config.js";
+import { isStopping } from "./launchFfmpeg.js";
+import type { Room } from "./rooms.js";
+import type { HlsHealthInfo, HlsStatus } from "../protocol/index.js";
+
+// --- Type Declarations ---
+export type { HlsStatus } from "../protocol/index.js";
+export type HlsProcessRole = "compositor" | "packager";
+
+export type HlsHealth = {
+    status: HlsStatus;
+    // When the current status was entered
+    since: number;
+    // Recoveries since the pipeline was last live
+    attempts: number;
+    lastError?: string;
+    // Last progress line of the compositor (`time=`, `speed=`)
+    progress?: { time: string; speed?: number; at: number };
+    nextAttemptAt?: number;
+    retryTimer?: NodeJS.Timeout;
+    watchdog?: NodeJS.Timeout;
+};
+
+type HlsStatusListener = (roomId: string, room: Room) => void;
+
+const PROGRESS_LINE = /time=\s*(\S+).*?speed=\s*([\d.]+)x/;
+const ERROR_LINE = /error|invalid|failed|could not|cannot|refused|already in use/i;
+
+// --- State ---
+const statusListeners: HlsStatusListener[] = [];
+
+export function onHlsStatus(listener: HlsStatusListener): void {
+    statusListeners.push(listener);
+}
+
+function health(room: Room): HlsHealth {
+    room.hlsHealth ??= { status: "starting", since: Date.now(), attempts: 0 };
+    return room.hlsHealth;
+}
+
+function setStatus(roomId: string, room: Room, status: HlsStatus): void {
+    const h = health(room);
+    h.status = status;
+    h.since = Date.now();
+    console.log(`[hls] ${roomId} ${status}${status !== "live" && h.lastError ? `: ${h.lastError}` : ""}`);
+    for (const listener of statusListeners) listener(roomId, room);
+}
+
+/**
+ * Newest file of the top rendition (playlist, segments or LL-HLS parts);
+ * undefined before the packager wrote anything.
+ */
+export async function lastHlsOutputAt(room: Room): Promise<number | undefined> {
+    const rendition = room.hlsPackager?.renditions[0];
+    if (!room.hlsDir || !rendition) return undefined;
+    const dir = path.join(room.hlsDir, rendition.name);
+    try {
+        const names = await fs.promises.readdir(dir);
+        const mtimes = await Promise.all(names.map(async name => (await fs.promises.stat(path.join(dir, name))).mtimeMs));
+        return mtimes.length ? Math.max(...mtimes) : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Follows one FFmpeg of the pipeline: compositor progress and the last error
+ * line from stderr, and `onCrash` when it exits without stopFfmpeg.
+ */
+export function superviseHlsProcess(
+    room: Room,
+    proc: ChildProcess,
+    role: HlsProcessRole,
+    onCrash: (reason: string) => void
+): void {
+    let lastErrorLine: string | undefined;
+    let partial = "";
+    proc.stderr?.on("data", (data: Buffer) => {
+        // Progress lines end with \r, log lines with \n
+        const lines = (partial + data.toString()).split(/[\r\n]+/);
+        partial = lines.pop() ?? "";
+        for (const line of lines) {
+            const progress = PROGRESS_LINE.exec(line);
+            if (progress && role === "compositor") {
+                if (room.hlsHealth) room.hlsHealth.progress = { time: progress[1], speed: Number(progress[2]) || undefined, at: Date.now() };
+            } else if (ERROR_LINE.test(line)) {
+                lastErrorLine = line.trim();
+            }
+        }
+    });
+    proc.on("exit", (code, signal) => {
+        if (isStopping(proc)) return;
+        onCrash(`${role} exited with ${signal ?? `code ${code}`}${lastErrorLine ? ` (${lastErrorLine})` : ""}`);
+    });
+}
+
+/**
+ * A compositor was launched: "starting" until output appears, unless the
+ * pipeline is live already (participant changes keep the playlist running).
+ * Starts the watchdog, which calls `onStall` when the output stops advancing.
+ */
+export function hlsLaunched(roomId: string, room: Room, onStall: (reason: string) => void): void {
+    const fresh = !room.hlsHealth;
+    const h = health(room);
+    if (fresh || h.status === "stalled" || h.status === "failed") setStatus(roomId, room, "starting");
+    else if (h.status === "starting") h.since = Date.now();
+    if (h.watchdog) return;
+    const { checkInterval, startTimeout, stallTimeout } = config.hls.supervisor;
+    // A recovery is pending
+    const recovering = () => h.status === "stalled" || h.status === "failed";
+    h.watchdog = setInterval(async () => {
+        if (recovering()) return;
+        // Rooms without HLS only have the compositor's progress (recording/restreams)
+        const outputAt = room.hlsPackager ? await lastHlsOutputAt(room) : h.progress?.at;
+        if (room.hlsHealth !== h || recovering()) return;
+        const now = Date.now();
+        if (h.status === "starting") {
+            if (outputAt !== undefined && outputAt > h.since) {
+                h.attempts = 0;
+                h.lastError = undefined;
+                setStatus(roomId, room, "live");
+            } else if (now - h.since > startTimeout) {
+                onStall(`No output ${startTimeout / 1000} s after the launch`);
+            }
+        } else if (outputAt === undefined || now - outputAt > stallTimeout) {
+            onStall(`No output for ${stallTimeout / 1000} s`);
+        }
+    }, checkInterval);
+}
+
+/**
+ * Reports the pipeline as stalled or failed and runs `recover` after a backoff
+ * that doubles per attempt (config.hls.supervisor). Ignored while a recovery is pending.
+ */
+export function scheduleHlsRecovery(
+    roomId: string,
+    room: Room,
+    status: "stalled" | "failed",
+    reason: string,
+    recover: () => Promise<void>
+): void {
+    const h = health(room);
+    if (h.retryTimer) return;
+    const { minBackoff, maxBackoff } = config.hls.supervisor;
+    const delay = Math.min(minBackoff * 2 ** h.attempts, maxBackoff);
+    h.attempts++;
+    h.lastError = reason;
+    h.nextAttemptAt = Date.now() + delay;
+    setStatus(roomId, room, status);
+    h.retryTimer = setTimeout(() => {
+        h.retryTimer = undefined;
+        h.nextAttemptAt = undefined;
+        if (room.closed || room.hlsHealth !== h) return;
+        recover();
+    }, delay);
+}
+
+/**
+ * The pipeline was shut down on purpose: no more checks or recoveries.
+ */
+export function stopHlsSupervision(room: Room): void {
+    const h = room.hlsHealth;
+    if (!h) return;
+    clearInterval(h.watchdog);
+    clearTimeout(h.retryTimer);
+    room.hlsHealth = undefined;
+}
+
+/**
+ * JSON friendly snapshot, sent as "hlsStatus" and included in joinRoom / the admin API.
+ */
+export function describeHlsHealth(h: HlsHealth): HlsHealthInfo {
+    return {
+        status: h.status,
+        since: new Date(h.since).toISOString(),
+        attempts: h.attempts,
+        lastError: h.lastError,
+        nextAttemptAt: h.nextAttemptAt !== undefined ? new Date(h.nextAttemptAt).toISOString() : undefined,
+        progress: h.progress && { time: h.progress.time, speed: h.progress.speed },
+    };
+}
@@ -0,0 +1,22 @@
+import crypto from "crypto";
+import express from "express";
+
+/**
+ * Whether an Authorization header is `Bearer <token>`. Compares SHA-256 digests
+ * with timingSafeEqual, so the time taken tells nothing about the token (nor its length).
+ */
+export function bearerTokenMatches(authorization: string | undefined, token: string): boolean {
+    const digest = (value: string) => crypto.createHash("sha256").update(value).digest();
+    return crypto.timingSafeEqual(digest(authorization ?? ""), digest(`Bearer ${token}`));
+}
+
+// Answers 401 to requests without `Authorization: Bearer <token>`
+export function requireBearerToken(token: string): express.RequestHandler {
+    return (req, res, next) => {
+        if (!bearerTokenMatches(req.headers.authorization, token)) {
+            res.status(401).json({ error: "Unauthorized" });
+            return;
+        }
+        next();
+    };
+}
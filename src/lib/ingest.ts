@@ -0,0 +1,250 @@
+import type { PlainTransport, Producer, RtpParameters } from "mediasoup/types";
+import type { ChildProcess } from "child_process";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import getPort, { portNumbers } from "get-port";
+import { config } from "../config/mediasoup.config.js";
+import { IngestRtpOutput, launchIngest, stopFfmpeg } from "./launchFfmpeg.js";
+import type { ProducerKind, Room } from "./rooms.js";
+import type { IngestInfo, IngestType, StartIngestRequest } from "../protocol/index.js";
+
+// --- Type Declarations ---
+export type { IngestType } from "../protocol/index.js";
+
+export interface IngestSpec {
+    type: IngestType;
+    name: string;
+    url?: string;
+    file?: string;
+    // Files only: start over at the end instead of ending the ingest
+    loop: boolean;
+    audio: boolean;
+    video: boolean;
+}
+
+export type Ingest = {
+    // Synthetic participant id, the key of its producers in room.producers
+    id: string;
+    spec: IngestSpec;
+    // Where the encoder publishes to (rtmp/srt)
+    publishUrl?: string;
+    listenPort?: number;
+    transports: PlainTransport[];
+    producers: Producer[];
+    process: ChildProcess;
+    startedAt: number;
+    stopped?: boolean;
+};
+
+const INGEST_TYPES: IngestType[] = ["rtmp", "srt", "pull", "file"];
+const PULL_PROTOCOLS = ["rtsp:", "rtsps:", "rtmp:", "rtmps:", "srt:", "udp:"];
+const MAX_NAME_LENGTH = 128;
+// Payload types FFmpeg sends with
+const PAYLOAD_TYPES: Record<ProducerKind, number> = { audio: 100, video: 101 };
+
+// --- State ---
+// Listen ports of running rtmp/srt ingests
+const usedIngestPorts: Set<number> = new Set();
+
+// --- Helpers ---
+function generateIngestId(): string {
+    return "ingest_" + Math.random().toString(36).slice(2, 10);
+}
+
+export function mediaRoot(): string {
+    return path.join(process.cwd(), config.ingest.mediaDir);
+}
+
+/**
+ * Absolute path of a file below the media directory; undefined when it is outside or missing.
+ */
+export function resolveMediaFile(file: string): string | undefined {
+    const resolved = path.resolve(mediaRoot(), file);
+    if (!resolved.startsWith(mediaRoot() + path.sep) || !fs.existsSync(resolved)) return undefined;
+    return resolved;
+}
+
+export function parseIngestSpec(data: StartIngestRequest): { spec: IngestSpec } | { error: string } {
+    const { type } = data;
+    if (!INGEST_TYPES.includes(type)) return { error: `type must be one of ${INGEST_TYPES.join(", ")}` };
+    const name = data.name ?? "Ingest";
+    if (!name.trim() || name.length > MAX_NAME_LENGTH) {
+        return { error: `name must be a non-empty string of at most ${MAX_NAME_LENGTH} characters` };
+    }
+    const spec: IngestSpec = {
+        type,
+        name: name.trim(),
+        loop: data.loop ?? false,
+        audio: data.audio ?? true,
+        video: data.video ?? true,
+    };
+    if (!spec.audio && !spec.video) return { error: "An ingest needs audio or video" };
+
+    if (type === "pull") {
+        let url: URL;
+        try {
+            url = new URL(data.url ?? "");
+        } catch {
+            return { error: "url is not a valid URL" };
+        }
+        if (!PULL_PROTOCOLS.includes(url.protocol)) return { error: `Unsupported protocol: ${url.protocol}` };
+        spec.url = url.toString();
+    }
+    if (type === "file") {
+        if (data.file === undefined) return { error: "file is required for type file" };
+        const file = resolveMediaFile(data.file);
+        if (!file) return { error: "File not found" };
+        spec.file = file;
+    }
+    return { spec };
+}
+
+function rtpParameters(kind: ProducerKind, ssrc: number): RtpParameters {
+    const codec = kind === "audio"
+        ? { mimeType: "audio/opus", clockRate: 48000, channels: 2, parameters: { "sprop-stereo": 1 } }
+        : { mimeType: "video/VP8", clockRate: 90000 };
+    return {
+        codecs: [{ ...codec, payloadType: PAYLOAD_TYPES[kind] }],
+        encodings: [{ ssrc }],
+    };
+}
+
+/**
+ * FFmpeg input of the ingest; for rtmp/srt also the URL the encoder publishes to.
+ */
+function ingestInput(spec: IngestSpec, port?: number): { inputArgs: string[]; publishUrl?: string } {
+    const { listenIp, publicHost } = config.ingest;
+    switch (spec.type) {
+        case "rtmp": {
+            const key = crypto.randomBytes(8).toString("hex");
+            return {
+                inputArgs: ["-listen", "1", "-i", `rtmp://${listenIp}:${port}/live/${key}`],
+                publishUrl: `rtmp://${publicHost}:${port}/live/${key}`,
+            };
+        }
+        case "srt": {
+            const passphrase = crypto.randomBytes(16).toString("hex");
+            return {
+                inputArgs: ["-i", `srt://${listenIp}:${port}?mode=listener&passphrase=${passphrase}`],
+                publishUrl: `srt://${publicHost}:${port}?passphrase=${passphrase}`,
+            };
+        }
+        case "pull":
+            return { inputArgs: spec.url!.startsWith("rtsp") ? ["-rtsp_transport", "tcp", "-i", spec.url!] : ["-i", spec.url!] };
+        case "file":
+            // Read at its native rate, as a live source would send it
+            return { inputArgs: ["-re", ...(spec.loop ? ["-stream_loop", "-1"] : []), "-i", spec.file!] };
+    }
+}
+
+/**
+ * One comedia PlainTransport and producer per kind on the room's origin router,
+ * with the RTP outputs FFmpeg has to send to (see launchIngest). The producers
+ * carry `userId` in their appData; the caller registers them.
+ */
+export async function createRtpProducers(room: Room, userId: string, kinds: ProducerKind[]): Promise<{
+    transports: PlainTransport[];
+    producers: Producer[];
+    outputs: Partial<Record<ProducerKind, IngestRtpOutput>>;
+}> {
+    const transports: PlainTransport[] = [];
+    const outputs: Partial<Record<ProducerKind, IngestRtpOutput>> = {};
+    try {
+        for (const kind of kinds) {
+            // comedia: mediasoup learns FFmpeg's address from its first packet
+            const transport = await room.router.createPlainTransport({
+                listenIp: "127.0.0.1", rtcpMux: false, comedia: true,
+            });
+            transports.push(transport);
+            outputs[kind] = {
+                port: transport.tuple.localPort,
+                rtcpPort: transport.rtcpTuple!.localPort,
+                ssrc: crypto.randomBytes(4).readUInt32BE() || 1,
+                payloadType: PAYLOAD_TYPES[kind],
+            };
+        }
+
+        const producers = await Promise.all(kinds.map((kind, i) => transports[i].produce({
+            kind,
+            rtpParameters: rtpParameters(kind, outputs[kind]!.ssrc),
+            appData: { source: kind === "audio" ? "mic" : "webcam", userId },
+        })));
+        return { transports, producers, outputs };
+    } catch (err) {
+        // Closing a transport closes the producers already made on it
+        for (const transport of transports) transport.close();
+        throw err;
+    }
+}
+
+/**
+ * Starts an ingest on the room's origin router (see createRtpProducers), fed by
+ * an FFmpeg that re-encodes the input to VP8/Opus.
+ * The caller registers `producers` under `id`. `onEnded` is called when FFmpeg
+ * exits on its own (publisher disconnected, file or stream ended).
+ */
+export async function startIngest(room: Room, spec: IngestSpec, onEnded: (ingest: Ingest) => void): Promise<Ingest> {
+    const id = generateIngestId();
+    let listenPort: number | undefined;
+    if (spec.type === "rtmp" || spec.type === "srt") {
+        listenPort = await getPort({ port: portNumbers(config.ingest.minPort, config.ingest.maxPort), exclude: usedIngestPorts });
+        usedIngestPorts.add(listenPort);
+    }
+
+    try {
+        const kinds: ProducerKind[] = [...(spec.audio ? ["audio" as const] : []), ...(spec.video ? ["video" as const] : [])];
+        const { transports, producers, outputs } = await createRtpProducers(room, id, kinds);
+
+        const { inputArgs, publishUrl } = ingestInput(spec, listenPort);
+        const proc = launchIngest({
+            inputArgs,
+            audio: outputs.audio,
+            video: outputs.video,
+            videoBitrate: config.ingest.videoBitrate,
+            audioBitrate: config.ingest.audioBitrate,
+        });
+        const ingest: Ingest = { id, spec, publishUrl, listenPort, transports, producers, process: proc, startedAt: Date.now() };
+        proc.on("exit", () => {
+            if (ingest.stopped) return;
+            stopIngest(ingest);
+            onEnded(ingest);
+        });
+        return ingest;
+    } catch (err) {
+        // createRtpProducers cleans up after itself; the reserved port is ours to release
+        if (listenPort !== undefined) usedIngestPorts.delete(listenPort);
+        throw err;
+    }
+}
+
+/**
+ * Stops FFmpeg and closes the producers (their close handlers update the room) and transports.
+ */
+export async function stopIngest(ingest: Ingest): Promise<void> {
+    if (ingest.stopped) return;
+    ingest.stopped = true;
+    await stopFfmpeg(ingest.process);
+    for (const producer of ingest.producers) {
+        if (!producer.closed) producer.close();
+    }
+    for (const transport of ingest.transports) {
+        try { transport.close(); } catch { }
+    }
+    if (ingest.listenPort !== undefined) usedIngestPorts.delete(ingest.listenPort);
+}
+
+/**
+ * JSON friendly snapshot; `publishUrl` carries the stream key, only the creator gets it.
+ */
+export function describeIngest(ingest: Ingest, { withPublishUrl = false } = {}): IngestInfo {
+    return {
+        ingestId: ingest.id,
+        type: ingest.spec.type,
+        name: ingest.spec.name,
+        file: ingest.spec.file && path.relative(mediaRoot(), ingest.spec.file),
+        publishUrl: withPublishUrl ? ingest.publishUrl : undefined,
+        producers: ingest.producers.map(producer => ({ producerId: producer.id, kind: producer.kind })),
+        startedAt: new Date(ingest.startedAt).toISOString(),
+    };
+}
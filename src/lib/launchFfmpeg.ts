@@ -1,121 +1,511 @@
-import { spawn, ChildProcess } from "child_process";
+import type { RtpParameters } from "mediasoup/types";
+import { spawn, ChildProcess, SpawnOptions } from "child_process";
 import fs from "fs";
 import path from "path";
+import type { Readable, Writable } from "stream";
+import { config } from "../config/mediasoup.config.js";
+import { buildTileFilter, HlsTileFit, Tile } from "./hlsLayout.js";
+import { CHANNELS, SAMPLE_RATE } from "./hlsCanvas.js";
+import type { RestreamProtocol } from "./restream.js";
+import { codecLines } from "./sdp.js";
+import { buildMasterPlaylist, buildVarStreamMap, HlsRendition, HlsVideoRendition, isAudioOnly } from "./hlsLadder.js";
 
 export interface PortPair { rtp: number; rtcp: number; }
 
-export interface LaunchFfmpegOptions {
-    audioPortPairs: PortPair[];
-    videoPortPairs: PortPair[];
-    audioCodec?: string;
-    videoCodec?: string;
+export interface IngestRtpOutput { port: number; rtcpPort: number; ssrc: number; payloadType: number; }
+
+// One RTP stream FFmpeg receives: where it listens and what the consumer sends there
+export interface RtpInput { ports: PortPair; rtpParameters: RtpParameters; }
+
+/**
+ * Generates an SDP file for non-muxed RTP/RTCP (rtcpMux: false), one m-section
+ * per input in order. Payload type, clock rate, channels, fmtp and SSRC come
+ * from the consumer's rtpParameters, so any codec of the router works.
+ */
+export function generateSdp(inputs: RtpInput[]): string {
+    const lines = [
+        "v=0",
+        "o=- 0 0 IN IP4 127.0.0.1",
+        "s=Multi RTP",
+        "c=IN IP4 127.0.0.1",
+        "t=0 0",
+    ];
+    for (const { ports, rtpParameters } of inputs) {
+        // The media codec; RTX is not negotiated for FFmpeg (see plainRtpCapabilities)
+        const codec = rtpParameters.codecs[0];
+        const [kind] = codec.mimeType.split("/");
+        lines.push(
+            `m=${kind} ${ports.rtp} RTP/AVP ${codec.payloadType}`,
+            `a=rtcp:${ports.rtcp} IN IP4 127.0.0.1`,
+            ...codecLines({ ...codec, rtcpFeedback: [] }),
+        );
+        const ssrc = rtpParameters.encodings?.[0]?.ssrc;
+        if (ssrc) lines.push(`a=ssrc:${ssrc} cname:${rtpParameters.rtcp?.cname ?? "mediasoup"}`);
+    }
+    return lines.join("\n");
+}
+
+// --- Process registry ---
+// PIDs of running FFmpeg processes, mirrored to config.shutdown.pidFile so the
+// next start can kill the ones a crashed server left behind
+const runningPids: Set<number> = new Set();
+
+function pidFile(): string {
+    return path.join(process.cwd(), config.shutdown.pidFile);
+}
+
+function writePidFile(): void {
+    try {
+        fs.writeFileSync(pidFile(), [...runningPids].join("\n"));
+    } catch (err) {
+        console.error("[ffmpeg] Cannot write the PID file:", err);
+    }
+}
+
+function spawnFfmpeg(args: string[], options: SpawnOptions = {}): ChildProcess {
+    const proc = spawn("ffmpeg", args, options);
+    const pid = proc.pid;
+    if (pid !== undefined) {
+        runningPids.add(pid);
+        writePidFile();
+        proc.once("exit", () => {
+            runningPids.delete(pid);
+            writePidFile();
+        });
+    }
+    return proc;
 }
 
 /**
- * Generates an SDP file for non-muxed RTP/RTCP (rtcpMux: false).
- * FFmpeg will read this SDP to know where to receive audio/video.
+ * Startup: kills FFmpeg processes listed in the PID file of a previous run that
+ * are still alive (checked against /proc, so a reused PID is left alone).
  */
-function generateSdp(opts: LaunchFfmpegOptions): string {
-    const { audioPortPairs, videoPortPairs, audioCodec = "opus", videoCodec = "VP8" } = opts;
-    let sdp = `
-v=0
-o=- 0 0 IN IP4 127.0.0.1
-s=Multi RTP
-c=IN IP4 127.0.0.1
-t=0 0
-`.trim();
-
-    audioPortPairs.forEach(pair => {
-        sdp += `
-m=audio ${pair.rtp} RTP/AVP 100
-a=rtpmap:100 ${audioCodec}/48000/2
-a=rtcp:${pair.rtcp} IN IP4 127.0.0.1
-`;
-    });
-    videoPortPairs.forEach(pair => {
-        sdp += `
-m=video ${pair.rtp} RTP/AVP 101
-a=rtpmap:101 ${videoCodec}/90000
-a=rtcp:${pair.rtcp} IN IP4 127.0.0.1
-`;
-    });
+export function killOrphanedFfmpeg(): number {
+    let pids: number[];
+    try {
+        pids = fs.readFileSync(pidFile(), "utf8").split("\n").map(Number).filter(pid => pid > 0);
+    } catch {
+        return 0;
+    }
+    let killed = 0;
+    for (const pid of pids) {
+        try {
+            if (!fs.readFileSync(`/proc/${pid}/cmdline`, "utf8").includes("ffmpeg")) continue;
+            process.kill(pid, "SIGKILL");
+            killed++;
+        } catch {
+            // Gone already (or no /proc)
+        }
+    }
+    fs.rmSync(pidFile(), { force: true });
+    return killed;
+}
 
-    return sdp.trim();
+/**
+ * Startup: removes the output directories of rooms of a previous run.
+ */
+export function cleanHlsRoot(): number {
+    const root = path.join(process.cwd(), "hls");
+    const entries = fs.existsSync(root) ? fs.readdirSync(root) : [];
+    for (const entry of entries) fs.rmSync(path.join(root, entry), { recursive: true, force: true });
+    return entries.length;
 }
 
-export function launchFfmpeg(
-    roomId: string,
-    opts: LaunchFfmpegOptions
-): { process: ChildProcess, hlsDir: string } {
-    const { audioPortPairs, videoPortPairs } = opts;
+function hlsDirFor(roomId: string): string {
     const hlsDir = path.join(process.cwd(), "hls", roomId);
     fs.mkdirSync(hlsDir, { recursive: true });
+    return hlsDir;
+}
 
-    const sdp = generateSdp(opts);
-    const sdpPath = path.join(hlsDir, "input.sdp");
-    fs.writeFileSync(sdpPath, sdp);
-
-    // Audio filter: amix for mixing N audio streams
-    let amixFilter = '';
-    if (audioPortPairs.length === 1) {
-        amixFilter = '[0:a:0]anull[aout]';
-    } else if (audioPortPairs.length > 1) {
-        amixFilter = audioPortPairs.map((_, i) => `[0:a:${i}]`).join('') +
-            `amix=inputs=${audioPortPairs.length}:duration=longest[aout]`;
-    }
+/**
+ * Removes every output of the room (playlists, segments, SDP files).
+ */
+export function resetHlsDir(roomId: string): void {
+    fs.rmSync(path.join(process.cwd(), "hls", roomId), { recursive: true, force: true });
+}
 
-    // Video filter: scale/stack/grid
-    const scaleWidth = 320, scaleHeight = 240;
-    let videoFilterSteps: string[] = [], videoInputs: string[] = [];
-    for (let i = 0; i < videoPortPairs.length; i++) {
-        videoFilterSteps.push(`[0:v:${i}]scale=${scaleWidth}:${scaleHeight}[v${i}]`);
-        videoInputs.push(`[v${i}]`);
-    }
-    let vfilter = '';
-    if (videoPortPairs.length === 1) {
-        vfilter = `[0:v:0]scale=${scaleWidth}:${scaleHeight},fps=60[vout]`;
-    } else if (videoPortPairs.length === 2) {
-        vfilter = `${videoFilterSteps.join(';')};${videoInputs.join('')}hstack=inputs=2,fps=60[vout]`;
-    } else if (videoPortPairs.length > 2) {
-        const layout = videoInputs.map((_, idx) => `${idx * scaleWidth}_0`).join('|');
-        vfilter = `${videoFilterSteps.join(';')};${videoInputs.join('')}xstack=inputs=${videoInputs.length}:layout=${layout},fps=60[vout]`;
+function pipeLogs(proc: ChildProcess, tag: string, logStdout = true): void {
+    if (logStdout) proc.stdout?.on("data", (data: Buffer) => console.log(`[${tag}] ${data}`));
+    proc.stderr?.on("data", (data: Buffer) => console.error(`[${tag}] ${data}`));
+    proc.on("exit", (code: number | null, signal: NodeJS.Signals | null) => {
+        console.log(`[${tag}] exited with code ${code} (${signal})`);
+    });
+}
+
+/**
+ * Long-lived HLS packager: remuxes the MPEG-TS stream of the compositor
+ * (sent by hlsMixer.ts) into one media playlist per rendition (`<name>/index.m3u8`)
+ * plus `master.m3u8`, without re-encoding. It survives
+ * compositor restarts, so the playlist and its media sequence stay continuous.
+ * When it is restarted on top of an existing playlist, `append_list` continues
+ * the sequence and marks the first new segment with EXT-X-DISCONTINUITY.
+ */
+export function launchHlsPackager(
+    roomId: string,
+    opts: { inputPort: number; renditions: HlsRendition[] }
+): { process: ChildProcess, hlsDir: string } {
+    const hlsDir = hlsDirFor(roomId);
+    for (const rendition of opts.renditions) {
+        fs.mkdirSync(path.join(hlsDir, rendition.name), { recursive: true });
     }
+    // The packager only copies streams, FFmpeg cannot know their bitrates: write the master playlist from config
+    fs.writeFileSync(path.join(hlsDir, "master.m3u8"), buildMasterPlaylist(opts.renditions));
+
+    const ffmpegArgs = [
+        "-protocol_whitelist", "udp",
+        "-i", `udp://127.0.0.1:${opts.inputPort}?fifo_size=1000000&overrun_nonfatal=1`,
+        "-map", "0",
+        "-c", "copy",
+        "-f", "hls",
+        "-hls_time", "1",
+        "-hls_list_size", "3",
+        // omit_endlist: a compositor gap must not look like the end of the stream to players
+        "-hls_flags", "delete_segments+append_list+program_date_time+omit_endlist+independent_segments",
+        "-var_stream_map", buildVarStreamMap(opts.renditions),
+        "-hls_segment_filename", path.join(hlsDir, "%v", "seg_%d.ts"),
+        path.join(hlsDir, "%v", "index.m3u8"),
+    ];
+
+    const ffmpeg = spawnFfmpeg(ffmpegArgs);
+    pipeLogs(ffmpeg, "hls-packager");
+
+    return { process: ffmpeg, hlsDir };
+}
 
-    const filterComplex = [vfilter, amixFilter].filter(Boolean).join(";");
+/**
+ * Low-latency variant of the packager: one fragmented MP4 (CMAF) stream per
+ * rendition, written to the extra stdio pipes (fd 3, 4, ...) in rendition
+ * order. Fragments are cut every `partDuration` seconds and at keyframes;
+ * the LL-HLS playlists, parts and segments are produced by llhls.ts.
+ */
+export function launchLlHlsPackager(
+    roomId: string,
+    opts: { inputPort: number; renditions: HlsRendition[]; partDuration: number }
+): { process: ChildProcess, hlsDir: string, outputs: Readable[] } {
+    const hlsDir = hlsDirFor(roomId);
+    fs.writeFileSync(path.join(hlsDir, "master.m3u8"), buildMasterPlaylist(opts.renditions));
 
+    const ffmpegArgs = [
+        "-protocol_whitelist", "udp",
+        "-i", `udp://127.0.0.1:${opts.inputPort}?fifo_size=1000000&overrun_nonfatal=1`,
+    ];
+    let v = 0, a = 0;
+    opts.renditions.forEach((rendition, i) => {
+        if (!isAudioOnly(rendition)) ffmpegArgs.push("-map", `0:v:${v++}`);
+        ffmpegArgs.push(
+            "-map", `0:a:${a++}`,
+            "-c", "copy",
+            "-f", "mp4",
+            "-movflags", "+frag_keyframe+empty_moov+default_base_moof+cmaf",
+            "-frag_duration", String(Math.round(opts.partDuration * 1_000_000)),
+            `pipe:${3 + i}`,
+        );
+    });
+
+    const ffmpeg = spawnFfmpeg(ffmpegArgs, {
+        stdio: ["ignore", "pipe", "pipe", ...opts.renditions.map(() => "pipe" as const)],
+    });
+    pipeLogs(ffmpeg, "hls-packager");
+
+    const outputs = opts.renditions.map((_, i) => ffmpeg.stdio[3 + i] as Readable);
+    return { process: ffmpeg, hlsDir, outputs };
+}
+
+/**
+ * Decoder of one composition input (see hlsMixer.ts): receives a producer over
+ * RTP (SDP input) and writes raw media to stdout, yuv420p frames of exactly
+ * tile.w x tile.h for video (`video`), s16le 48 kHz stereo for audio. Restarted
+ * on its own when its tile changes size, the rest of the composition goes on.
+ */
+export function launchInputDecoder(
+    roomId: string,
+    opts: { name: string; input: RtpInput; video?: { tile: Tile; fit: HlsTileFit } }
+): ChildProcess {
+    const sdpPath = path.join(hlsDirFor(roomId), `${opts.name}.sdp`);
+    fs.writeFileSync(sdpPath, generateSdp([opts.input]));
+
+    const outputArgs = opts.video
+        ? ["-map", "0:v:0", "-vf", buildTileFilter(opts.video.tile, opts.video.fit), "-f", "rawvideo", "-pix_fmt", "yuv420p"]
+        : ["-map", "0:a:0", "-f", "s16le", "-ar", String(SAMPLE_RATE), "-ac", String(CHANNELS)];
     const ffmpegArgs = [
         "-protocol_whitelist", "file,udp,rtp",
+        "-fflags", "nobuffer",
         "-i", sdpPath,
+        ...outputArgs,
+        "-nostats",
+        "pipe:1",
+    ];
+
+    // No stdin: stopFfmpeg interrupts it right away, there is nothing to finalize
+    const ffmpeg = spawnFfmpeg(ffmpegArgs, { stdio: ["ignore", "pipe", "pipe"] });
+    pipeLogs(ffmpeg, "hls-decoder", false);
+    return ffmpeg;
+}
+
+/**
+ * Compositor (the mixer's encoder): reads the composed canvas (raw yuv420p,
+ * `width` x `height` at `fps`) from fd 3 and the mixed audio (s16le 48 kHz
+ * stereo) from fd 4, encodes the ladder and writes MPEG-TS to stdout; hlsMixer.ts
+ * feeds the pipes and sends the output to the packager, recorder and restreams.
+ * It only restarts when the canvas changes or after a failure; `timestampOffset`
+ * (seconds) then continues the output timeline of the previous run.
+ */
+export function launchFfmpeg(
+    roomId: string,
+    opts: { width: number; height: number; fps: number; renditions: HlsRendition[]; timestampOffset: number }
+): { process: ChildProcess, video: Writable, audio: Writable, output: Readable } {
+    // The formats are given: no probing, which would read seconds of video before opening the audio pipe
+    const inputArgs = [
+        "-probesize", "32",
+        "-thread_queue_size", "64",
+        "-f", "rawvideo", "-pix_fmt", "yuv420p", "-video_size", `${opts.width}x${opts.height}`,
+        "-framerate", String(opts.fps), "-i", "pipe:3",
+        "-probesize", "32",
+        "-thread_queue_size", "64",
+        "-f", "s16le", "-ar", String(SAMPLE_RATE), "-ac", String(CHANNELS), "-i", "pipe:4",
+    ];
+
+    // Ladder: split the canvas and the mix once per rendition, encode each with its own settings.
+    // Output stream order (v0, a0, v1, a1, ..., audio-only) must match buildVarStreamMap.
+    const videoRenditions = opts.renditions.filter((r): r is HlsVideoRendition => !isAudioOnly(r));
+    const vsplit = videoRenditions.map((_, i) => `[vs${i}]`).join("");
+    const asplit = opts.renditions.map((_, i) => `[as${i}]`).join("");
+    const filterComplex = [
+        `[0:v]split=${videoRenditions.length}${vsplit}`,
+        ...videoRenditions.map((r, i) =>
+            `[vs${i}]scale=${r.width}:${r.height}:force_original_aspect_ratio=decrease,` +
+            `pad=${r.width}:${r.height}:(ow-iw)/2:(oh-ih)/2:black,setsar=1,fps=${r.fps}[vout${i}]`
+        ),
+        `[1:a]asplit=${opts.renditions.length}${asplit}`,
+    ].join(";");
+
+    const encodeArgs: string[] = [];
+    let v = 0, a = 0;
+    opts.renditions.forEach((rendition, i) => {
+        if (!isAudioOnly(rendition)) {
+            encodeArgs.push(
+                "-map", `[vout${v}]`,
+                `-c:v:${v}`, "libx264",
+                `-preset:v:${v}`, rendition.preset,
+                `-profile:v:${v}`, rendition.profile,
+                `-level:v:${v}`, rendition.level.toFixed(1),
+                `-b:v:${v}`, `${rendition.videoBitrate}k`,
+                `-maxrate:v:${v}`, `${rendition.maxrate}k`,
+                `-bufsize:v:${v}`, `${rendition.bufsize}k`,
+                `-g:v:${v}`, String(rendition.gop),
+                `-keyint_min:v:${v}`, String(rendition.gop),
+            );
+            v++;
+        }
+        encodeArgs.push(
+            "-map", `[as${i}]`,
+            `-c:a:${a}`, "aac",
+            `-b:a:${a}`, `${rendition.audioBitrate}k`,
+        );
+        a++;
+    });
+
+    const ffmpegArgs = [
+        ...inputArgs,
         "-filter_complex", filterComplex,
-        "-map", "[vout]",
-        "-map", "[aout]",
-        "-r", "60",
-        "-c:v", "libx264",
-        "-preset", "ultrafast",
-        "-tune", "zerolatency",
-        "-b:v", "2500k", 
-        "-maxrate", "3000k", 
-        "-bufsize", "4000k",
-        "-g", "60",
-        "-keyint_min", "60",
+        ...encodeArgs,
+        "-tune:v", "zerolatency",
         "-sc_threshold", "0",
-        "-c:a", "aac",
+        "-pix_fmt", "yuv420p",
         "-ar", "48000",
-        "-b:a", "128k",
-        "-f", "hls",
-        "-hls_time", "1",
-        "-hls_list_size", "3",
-        "-hls_flags", "delete_segments+append_list+program_date_time",
-        path.join(hlsDir, "index.m3u8"),
+        "-output_ts_offset", opts.timestampOffset.toFixed(3),
+        // Hand every packet to the mixer right away instead of in 32 KiB blocks
+        "-flush_packets", "1",
+        "-f", "mpegts",
+        "pipe:1",
     ];
 
-    const ffmpeg = spawn("ffmpeg", ffmpegArgs);
+    // FFmpeg does not read `q` from stdin when its inputs are pipes: stopFfmpeg ends the pipes instead
+    const ffmpeg = spawnFfmpeg(ffmpegArgs, { stdio: ["ignore", "pipe", "pipe", "pipe", "pipe"] });
+    pipeLogs(ffmpeg, "ffmpeg", false);
 
-    ffmpeg.stdout.on("data", (data: Buffer) => console.log(`[ffmpeg] ${data}`));
-    ffmpeg.stderr.on("data", (data: Buffer) => console.error(`[ffmpeg] ${data}`));
-    ffmpeg.on("exit", (code: number | null, signal: NodeJS.Signals | null) => {
-        console.log(`[ffmpeg] exited with code ${code} (${signal})`);
-    });
+    return {
+        process: ffmpeg,
+        video: ffmpeg.stdio[3] as Writable,
+        audio: ffmpeg.stdio[4] as Writable,
+        output: ffmpeg.stdout as Readable,
+    };
+}
 
-    return { process: ffmpeg, hlsDir };
+/**
+ * Records the composition sent by the compositor. MP4 is a plain remux,
+ * WebM has to re-encode to VP8/Opus.
+ */
+export function launchCompositeRecorder(opts: {
+    inputPort: number;
+    outputPath: string;
+    format: "mp4" | "webm";
+}): ChildProcess {
+    const codecArgs = opts.format === "mp4"
+        ? ["-c", "copy", "-movflags", "+faststart"]
+        : ["-c:v", "libvpx", "-deadline", "realtime", "-cpu-used", "8", "-b:v", "2500k", "-c:a", "libopus", "-b:a", "128k"];
+
+    const ffmpegArgs = [
+        "-protocol_whitelist", "udp",
+        "-i", `udp://127.0.0.1:${opts.inputPort}?fifo_size=1000000&overrun_nonfatal=1`,
+        // Only the top rendition of the ladder
+        "-map", "0:v:0",
+        "-map", "0:a:0",
+        ...codecArgs,
+        "-f", opts.format,
+        opts.outputPath,
+    ];
+
+    const ffmpeg = spawnFfmpeg(ffmpegArgs);
+    pipeLogs(ffmpeg, "recorder");
+    return ffmpeg;
+}
+
+/**
+ * Pushes the top rendition of the composition to an RTMP (FLV) or SRT
+ * (MPEG-TS) destination without re-encoding. Progress is reported on stdout
+ * (`-progress`), which only starts once the destination accepted the stream.
+ */
+export function launchRestream(opts: {
+    inputPort: number;
+    url: string;
+    protocol: RestreamProtocol;
+}): ChildProcess {
+    const formatArgs = opts.protocol === "rtmp"
+        ? ["-f", "flv", "-flvflags", "no_duration_filesize"]
+        : ["-f", "mpegts"];
+
+    const ffmpegArgs = [
+        "-i", `udp://127.0.0.1:${opts.inputPort}?fifo_size=1000000&overrun_nonfatal=1`,
+        "-map", "0:v:0",
+        "-map", "0:a:0",
+        "-c", "copy",
+        "-progress", "pipe:1",
+        "-nostats",
+        ...formatArgs,
+        opts.url,
+    ];
+
+    const ffmpeg = spawnFfmpeg(ffmpegArgs);
+    pipeLogs(ffmpeg, "restream", false);
+    return ffmpeg;
+}
+
+/**
+ * Ingest: decodes an external stream or file (`inputArgs`) and sends it as
+ * VP8/Opus RTP to comedia PlainTransports, one RTP output per kind. The SSRCs
+ * and payload types have to match the producers' rtpParameters. Also feeds bots
+ * (`tag` "bot").
+ */
+export function launchIngest(opts: {
+    inputArgs: string[];
+    audio?: IngestRtpOutput;
+    video?: IngestRtpOutput;
+    videoBitrate: number;
+    audioBitrate: number;
+    tag?: string;
+}): ChildProcess {
+    const rtpUrl = (output: IngestRtpOutput) =>
+        `rtp://127.0.0.1:${output.port}?rtcpport=${output.rtcpPort}&pkt_size=1200`;
+
+    const ffmpegArgs = [...opts.inputArgs];
+    if (opts.audio) {
+        ffmpegArgs.push(
+            "-map", "0:a:0",
+            "-c:a", "libopus",
+            "-ar", "48000",
+            "-ac", "2",
+            "-b:a", `${opts.audioBitrate}k`,
+            "-ssrc", String(opts.audio.ssrc),
+            "-payload_type", String(opts.audio.payloadType),
+            "-f", "rtp", rtpUrl(opts.audio),
+        );
+    }
+    if (opts.video) {
+        ffmpegArgs.push(
+            "-map", "0:v:0",
+            "-c:v", "libvpx",
+            "-deadline", "realtime",
+            "-cpu-used", "8",
+            "-b:v", `${opts.videoBitrate}k`,
+            // PLIs of consumers never reach FFmpeg: a keyframe every 2 seconds instead
+            "-force_key_frames", "expr:gte(t,n_forced*2)",
+            "-pix_fmt", "yuv420p",
+            "-ssrc", String(opts.video.ssrc),
+            "-payload_type", String(opts.video.payloadType),
+            "-f", "rtp", rtpUrl(opts.video),
+        );
+    }
+
+    const ffmpeg = spawnFfmpeg(ffmpegArgs);
+    pipeLogs(ffmpeg, opts.tag ?? "ingest");
+    return ffmpeg;
+}
+
+/**
+ * Records a single producer from its PlainTransport (SDP input). The WebRTC
+ * codec is written as-is: to WebM (Opus/VP8/VP9/AV1) or Matroska (H264).
+ */
+export function launchProducerRecorder(opts: {
+    sdpPath: string;
+    outputPath: string;
+    format: "webm" | "matroska";
+}): ChildProcess {
+    const ffmpegArgs = [
+        "-protocol_whitelist", "file,udp,rtp",
+        "-i", opts.sdpPath,
+        "-map", "0",
+        "-c", "copy",
+        "-f", opts.format,
+        opts.outputPath,
+    ];
+
+    const ffmpeg = spawnFfmpeg(ffmpegArgs);
+    pipeLogs(ffmpeg, "recorder");
+    return ffmpeg;
+}
+
+// Processes ended through stopFfmpeg, so supervisors can tell them from crashes
+const stoppingProcesses: WeakSet<ChildProcess> = new WeakSet();
+
+export function isStopping(proc: ChildProcess): boolean {
+    return stoppingProcesses.has(proc);
+}
+
+/**
+ * Stops an FFmpeg process gracefully and resolves once it has exited (and
+ * released its ports). `q` on stdin (SIGINT when stdin is not a pipe) lets
+ * FFmpeg flush the last segment and finalize its outputs; SIGINT follows after
+ * half of `timeoutMs`, SIGKILL after `timeoutMs`. A process fed through pipes
+ * (the mixer's encoder) is given the end of `inputs` instead of `q`.
+ */
+export function stopFfmpeg(proc: ChildProcess | undefined, timeoutMs = 5000, inputs: Writable[] = []): Promise<void> {
+    if (!proc || proc.exitCode !== null || proc.signalCode !== null) return Promise.resolve();
+    stoppingProcesses.add(proc);
+    return new Promise(resolve => {
+        const interrupt = setTimeout(() => {
+            try { proc.kill("SIGINT"); } catch { }
+        }, timeoutMs / 2);
+        const kill = setTimeout(() => {
+            try { proc.kill("SIGKILL"); } catch { }
+        }, timeoutMs);
+        proc.once("exit", () => {
+            clearTimeout(interrupt);
+            clearTimeout(kill);
+            resolve();
+        });
+        try {
+            if (inputs.length) {
+                for (const input of inputs) input.end();
+            }
+            else if (proc.stdin?.writable) {
+                // EPIPE when FFmpeg exits at the same moment; the exit handler resolves anyway
+                proc.stdin.on("error", () => { });
+                proc.stdin.end("q\n");
+            }
+            else proc.kill("SIGINT");
+        } catch {
+            try { proc.kill("SIGKILL"); } catch { }
+        }
+    });
 }
@@ -0,0 +1,119 @@
+import { parseScalabilityMode } from "mediasoup";
+import type { Consumer, ConsumerLayers, RtpParameters } from "mediasoup/types";
+
+// --- Simulcast / SVC layers ---
+
+// Score-based adaptation: consumer scores are 0..10 (10 = no loss)
+const ADAPT_INTERVAL_MS = 2000;
+const LOW_SCORE = 4;
+const HIGH_SCORE = 9;
+// Consecutive checks before stepping a spatial layer down / up again
+const DOWNGRADE_AFTER = 2;
+const UPGRADE_AFTER = 5;
+
+type AdaptiveConsumer = {
+    consumer: Consumer;
+    // Highest layers the client asked for (or the producer offers)
+    ceiling: ConsumerLayers;
+    spatialLayer: number;
+    badChecks: number;
+    goodChecks: number;
+};
+
+// --- State ---
+const adaptiveConsumers: Map<string, AdaptiveConsumer> = new Map();
+let adaptTimer: NodeJS.Timeout | undefined;
+
+/**
+ * Highest spatial/temporal layer a producer sends: one spatial layer per
+ * simulcast encoding, or as many as the SVC scalabilityMode (e.g. "L3T3") has.
+ */
+export function maxLayers(rtpParameters: RtpParameters): ConsumerLayers {
+    const encodings = rtpParameters.encodings ?? [];
+    const { spatialLayers, temporalLayers } = parseScalabilityMode(encodings[0]?.scalabilityMode);
+    return {
+        spatialLayer: (encodings.length > 1 ? encodings.length : spatialLayers) - 1,
+        temporalLayer: temporalLayers - 1,
+    };
+}
+
+export function parseLayers(data: ConsumerLayers): { layers: ConsumerLayers } | { error: string } {
+    const { spatialLayer, temporalLayer } = data;
+    if (!Number.isInteger(spatialLayer) || spatialLayer < 0) return { error: "spatialLayer must be a non-negative integer" };
+    if (temporalLayer !== undefined && (!Number.isInteger(temporalLayer) || temporalLayer < 0)) {
+        return { error: "temporalLayer must be a non-negative integer" };
+    }
+    return { layers: { spatialLayer, temporalLayer } };
+}
+
+export function parsePriority(priority: unknown): number | undefined {
+    return Number.isInteger(priority) && (priority as number) >= 1 && (priority as number) <= 255
+        ? priority as number
+        : undefined;
+}
+
+// Never above what the producer sends
+function clampLayers(layers: ConsumerLayers, max: ConsumerLayers): ConsumerLayers {
+    return {
+        spatialLayer: Math.min(layers.spatialLayer, max.spatialLayer),
+        temporalLayer: Math.min(layers.temporalLayer ?? max.temporalLayer!, max.temporalLayer!),
+    };
+}
+
+/**
+ * Lowers the spatial layer of a simulcast/SVC consumer while its score stays
+ * low and raises it again (up to the preferred layers) once it recovers.
+ * mediasoup's bandwidth estimation still picks layers below that ceiling.
+ */
+export function adaptConsumerLayers(consumer: Consumer, producerRtpParameters: RtpParameters, preferred?: ConsumerLayers): void {
+    if (consumer.type !== "simulcast" && consumer.type !== "svc") return;
+    const max = maxLayers(producerRtpParameters);
+    const ceiling = clampLayers(preferred ?? max, max);
+    adaptiveConsumers.set(consumer.id, { consumer, ceiling, spatialLayer: ceiling.spatialLayer, badChecks: 0, goodChecks: 0 });
+    consumer.observer.on("close", () => {
+        adaptiveConsumers.delete(consumer.id);
+        if (!adaptiveConsumers.size && adaptTimer) {
+            clearInterval(adaptTimer);
+            adaptTimer = undefined;
+        }
+    });
+    if (!adaptTimer) {
+        adaptTimer = setInterval(checkConsumerScores, ADAPT_INTERVAL_MS);
+        adaptTimer.unref();
+    }
+}
+
+/**
+ * Applies the layers a client asked for; they become the new adaptation ceiling.
+ */
+export async function setPreferredLayers(consumer: Consumer, producerRtpParameters: RtpParameters, layers: ConsumerLayers): Promise<ConsumerLayers> {
+    const applied = clampLayers(layers, maxLayers(producerRtpParameters));
+    await consumer.setPreferredLayers(applied);
+    const state = adaptiveConsumers.get(consumer.id);
+    if (state) {
+        state.ceiling = applied;
+        state.spatialLayer = applied.spatialLayer;
+        state.badChecks = state.goodChecks = 0;
+    }
+    return applied;
+}
+
+function checkConsumerScores(): void {
+    for (const state of adaptiveConsumers.values()) {
+        const { consumer, ceiling } = state;
+        if (consumer.paused || consumer.producerPaused) continue;
+        const score = consumer.score.score;
+        state.badChecks = score <= LOW_SCORE ? state.badChecks + 1 : 0;
+        state.goodChecks = score >= HIGH_SCORE ? state.goodChecks + 1 : 0;
+
+        let spatialLayer = state.spatialLayer;
+        if (state.badChecks >= DOWNGRADE_AFTER && spatialLayer > 0) spatialLayer--;
+        else if (state.goodChecks >= UPGRADE_AFTER && spatialLayer < ceiling.spatialLayer) spatialLayer++;
+        if (spatialLayer === state.spatialLayer) continue;
+
+        state.spatialLayer = spatialLayer;
+        state.badChecks = state.goodChecks = 0;
+        consumer.setPreferredLayers({ spatialLayer, temporalLayer: ceiling.temporalLayer })
+            .catch(err => console.error(`[layers] Cannot adapt consumer ${consumer.id}:`, err));
+    }
+}
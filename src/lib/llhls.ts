@@ -0,0 +1,374 @@
+import { EventEmitter } from "events";
+import fs from "fs";
+import path from "path";
+import type { Readable } from "stream";
+
+// --- Type Declarations ---
+export type { HlsMode } from "../protocol/index.js";
+
+export interface LlHlsOptions {
+    // Seconds
+    partTarget: number;
+    segmentTarget: number;
+    // Complete segments kept in the playlist
+    windowSegments: number;
+}
+
+type Part = { uri: string; duration: number; independent: boolean };
+type Segment = {
+    msn: number;
+    // Set once the segment is complete
+    uri?: string;
+    duration: number;
+    parts: Part[];
+    data: Buffer[];
+    programDateTime: number;
+    discontinuity: boolean;
+    mapUri: string;
+};
+type TrackInfo = { id: number; timescale: number; handler: string; defaultDuration: number; defaultFlags: number };
+type Box = { type: string; start: number; body: number; end: number };
+
+export type LlHlsStream = {
+    attach(output: Readable): void;
+    playlist(): string;
+    // Resolves false on timeout
+    waitForPlaylist(msn: number, part: number | undefined, timeoutMs: number): Promise<boolean>;
+    waitForFile(name: string, timeoutMs: number): Promise<boolean>;
+    // Highest msn a blocking request may ask for (spec: at most two segments ahead)
+    maxRequestableMsn(): number;
+    close(): void;
+};
+
+const PART_FILE = /^seg(\d+)\.part(\d+)\.m4s$/;
+// Parts are listed (and kept on disk) for the current and this many complete segments
+const PART_SEGMENTS = 2;
+// sample_is_non_sync_sample in ISO BMFF sample flags
+const NON_SYNC_SAMPLE = 0x10000;
+
+// --- State ---
+const streams: Map<string, Map<string, LlHlsStream>> = new Map();
+
+// --- ISO BMFF helpers ---
+function readBoxes(buf: Buffer, start: number, end: number): Box[] {
+    const boxes: Box[] = [];
+    let pos = start;
+    while (pos + 8 <= end) {
+        let size = buf.readUInt32BE(pos);
+        const type = buf.toString("latin1", pos + 4, pos + 8);
+        let header = 8;
+        if (size === 1) {
+            size = Number(buf.readBigUInt64BE(pos + 8));
+            header = 16;
+        } else if (size === 0) {
+            size = end - pos;
+        }
+        if (size < header || pos + size > end) break;
+        boxes.push({ type, start: pos, body: pos + header, end: pos + size });
+        pos += size;
+    }
+    return boxes;
+}
+
+function child(buf: Buffer, box: Box, type: string): Box | undefined {
+    return readBoxes(buf, box.body, box.end).find(b => b.type === type);
+}
+
+function parseTracks(moov: Buffer): Map<number, TrackInfo> {
+    const tracks: Map<number, TrackInfo> = new Map();
+    const [root] = readBoxes(moov, 0, moov.length);
+    const boxes = readBoxes(moov, root.body, root.end);
+    for (const trak of boxes.filter(b => b.type === "trak")) {
+        const tkhd = child(moov, trak, "tkhd");
+        const mdia = child(moov, trak, "mdia");
+        const mdhd = mdia && child(moov, mdia, "mdhd");
+        const hdlr = mdia && child(moov, mdia, "hdlr");
+        if (!tkhd || !mdhd || !hdlr) continue;
+        const id = moov.readUInt32BE(tkhd.body + (moov[tkhd.body] === 1 ? 20 : 12));
+        const timescale = moov.readUInt32BE(mdhd.body + (moov[mdhd.body] === 1 ? 20 : 12));
+        const handler = moov.toString("latin1", hdlr.body + 8, hdlr.body + 12);
+        tracks.set(id, { id, timescale, handler, defaultDuration: 0, defaultFlags: 0 });
+    }
+    const mvex = boxes.find(b => b.type === "mvex");
+    for (const trex of mvex ? readBoxes(moov, mvex.body, mvex.end).filter(b => b.type === "trex") : []) {
+        const track = tracks.get(moov.readUInt32BE(trex.body + 4));
+        if (!track) continue;
+        track.defaultDuration = moov.readUInt32BE(trex.body + 12);
+        track.defaultFlags = moov.readUInt32BE(trex.body + 20);
+    }
+    return tracks;
+}
+
+/**
+ * Duration (seconds) of the main track in a fragment and whether it starts with a sync sample.
+ */
+function parseFragment(moof: Buffer, track: TrackInfo): { duration: number; independent: boolean } {
+    const [root] = readBoxes(moof, 0, moof.length);
+    for (const traf of readBoxes(moof, root.body, root.end).filter(b => b.type === "traf")) {
+        const tfhd = child(moof, traf, "tfhd");
+        if (!tfhd || moof.readUInt32BE(tfhd.body + 4) !== track.id) continue;
+
+        const tfhdFlags = moof.readUInt32BE(tfhd.body) & 0xffffff;
+        let p = tfhd.body + 8;
+        if (tfhdFlags & 0x01) p += 8;
+        if (tfhdFlags & 0x02) p += 4;
+        let defaultDuration = track.defaultDuration, defaultFlags = track.defaultFlags;
+        if (tfhdFlags & 0x08) { defaultDuration = moof.readUInt32BE(p); p += 4; }
+        if (tfhdFlags & 0x10) p += 4;
+        if (tfhdFlags & 0x20) defaultFlags = moof.readUInt32BE(p);
+
+        let ticks = 0;
+        let firstFlags: number | undefined;
+        for (const trun of readBoxes(moof, traf.body, traf.end).filter(b => b.type === "trun")) {
+            const flags = moof.readUInt32BE(trun.body) & 0xffffff;
+            const count = moof.readUInt32BE(trun.body + 4);
+            let q = trun.body + 8;
+            if (flags & 0x01) q += 4;
+            if (flags & 0x04) { firstFlags ??= moof.readUInt32BE(q); q += 4; }
+            for (let i = 0; i < count; i++) {
+                ticks += flags & 0x100 ? moof.readUInt32BE(q) : defaultDuration;
+                if (flags & 0x100) q += 4;
+                if (flags & 0x200) q += 4;
+                if (flags & 0x400) { if (i === 0) firstFlags ??= moof.readUInt32BE(q); q += 4; }
+                if (flags & 0x800) q += 4;
+            }
+        }
+        const independent = track.handler !== "vide" || ((firstFlags ?? defaultFlags) & NON_SYNC_SAMPLE) === 0;
+        return { duration: ticks / track.timescale, independent };
+    }
+    return { duration: 0, independent: false };
+}
+
+// --- Stream ---
+/**
+ * Turns a fragmented MP4 (CMAF) byte stream into an LL-HLS media playlist:
+ * every moof+mdat becomes a partial segment, a new segment starts at the first
+ * independent part once the current one reached half the target duration.
+ */
+export function createLlHlsStream(dir: string, opts: LlHlsOptions): LlHlsStream {
+    const events = new EventEmitter();
+    events.setMaxListeners(0);
+    const segments: Segment[] = [];
+    let nextMsn = 0;
+    let discontinuitySequence = 0;
+    let initCount = 0;
+    let mapUri = "";
+    let partTarget = opts.partTarget;
+    let pendingDiscontinuity = false;
+    let current: Readable | undefined;
+
+    function write(name: string, data: Buffer): void {
+        fs.writeFileSync(path.join(dir, name), data);
+    }
+
+    function remove(name: string): void {
+        fs.rm(path.join(dir, name), { force: true }, () => { });
+    }
+
+    function live(): Segment | undefined {
+        const last = segments[segments.length - 1];
+        return last && !last.uri ? last : undefined;
+    }
+
+    function completeSegment(): void {
+        const segment = live();
+        if (!segment) return;
+        segment.uri = `seg${segment.msn}.m4s`;
+        write(segment.uri, Buffer.concat(segment.data));
+        segment.data = [];
+    }
+
+    function trim(): void {
+        const complete = segments.filter(s => s.uri);
+        while (complete.length > opts.windowSegments) {
+            const removed = complete.shift()!;
+            segments.splice(segments.indexOf(removed), 1);
+            if (removed.discontinuity) discontinuitySequence++;
+            remove(removed.uri!);
+            removed.parts.forEach(part => remove(part.uri));
+        }
+        // Part files are only needed close to the live edge
+        const withParts = segments.filter(s => s.parts.length && s.uri);
+        for (const segment of withParts.slice(0, Math.max(0, withParts.length - PART_SEGMENTS))) {
+            segment.parts.forEach(part => remove(part.uri));
+            segment.parts = [];
+        }
+    }
+
+    function addPart(data: Buffer, duration: number, independent: boolean): void {
+        let segment = live();
+        if (!segment || (independent && segment.duration >= opts.segmentTarget / 2)) {
+            // Players can only join at an independent part
+            if (!independent) return;
+            completeSegment();
+            segment = {
+                msn: nextMsn++,
+                duration: 0,
+                parts: [],
+                data: [],
+                programDateTime: Date.now(),
+                discontinuity: pendingDiscontinuity,
+                mapUri,
+            };
+            pendingDiscontinuity = false;
+            segments.push(segment);
+        }
+        const uri = `seg${segment.msn}.part${segment.parts.length}.m4s`;
+        write(uri, data);
+        segment.parts.push({ uri, duration, independent });
+        segment.data.push(data);
+        segment.duration += duration;
+        partTarget = Math.max(partTarget, Math.ceil(duration * 1000) / 1000);
+        trim();
+        events.emit("update");
+    }
+
+    function hasPart(msn: number, part: number | undefined): boolean {
+        const segment = segments.find(s => s.msn === msn);
+        if (!segment) return segments.some(s => s.msn > msn);
+        return !!segment.uri || (part !== undefined && segment.parts.length > part);
+    }
+
+    function attach(output: Readable): void {
+        // A new packager process: finish the running segment, continue with a new init segment
+        if (current) {
+            current.removeAllListeners("data");
+            completeSegment();
+            pendingDiscontinuity = true;
+        }
+        current = output;
+        let buffer = Buffer.alloc(0);
+        let ftyp: Buffer | undefined;
+        let moof: Buffer | undefined;
+        let mainTrack: TrackInfo | undefined;
+
+        output.on("data", (chunk: Buffer) => {
+            buffer = Buffer.concat([buffer, chunk]);
+            const boxes = readBoxes(buffer, 0, buffer.length);
+            for (const box of boxes) {
+                const data = buffer.subarray(box.start, box.end);
+                if (box.type === "ftyp") {
+                    ftyp = Buffer.from(data);
+                } else if (box.type === "moov") {
+                    const tracks = [...parseTracks(data).values()];
+                    mainTrack = tracks.find(t => t.handler === "vide") ?? tracks.find(t => t.handler === "soun");
+                    mapUri = `init${initCount++}.mp4`;
+                    write(mapUri, Buffer.concat([ftyp ?? Buffer.alloc(0), data]));
+                } else if (box.type === "moof") {
+                    moof = Buffer.from(data);
+                } else if (box.type === "mdat" && moof && mainTrack) {
+                    const { duration, independent } = parseFragment(moof, mainTrack);
+                    addPart(Buffer.concat([moof, data]), duration, independent);
+                    moof = undefined;
+                }
+            }
+            const consumed = boxes.length ? boxes[boxes.length - 1].end : 0;
+            buffer = Buffer.from(buffer.subarray(consumed));
+        });
+    }
+
+    function playlist(): string {
+        const complete = segments.filter(s => s.uri);
+        const targetDuration = Math.ceil(Math.max(opts.segmentTarget, ...complete.map(s => s.duration)));
+        const lines = [
+            "#EXTM3U",
+            "#EXT-X-VERSION:9",
+            `#EXT-X-TARGETDURATION:${targetDuration}`,
+            `#EXT-X-PART-INF:PART-TARGET=${partTarget.toFixed(3)}`,
+            `#EXT-X-SERVER-CONTROL:CAN-BLOCK-RELOAD=YES,PART-HOLD-BACK=${(partTarget * 3).toFixed(3)}`,
+            `#EXT-X-MEDIA-SEQUENCE:${segments[0]?.msn ?? nextMsn}`,
+            `#EXT-X-DISCONTINUITY-SEQUENCE:${discontinuitySequence}`,
+        ];
+        let lastMap = "";
+        for (const segment of segments) {
+            if (segment.discontinuity && segment !== segments[0]) lines.push("#EXT-X-DISCONTINUITY");
+            if (segment.mapUri !== lastMap) {
+                lines.push(`#EXT-X-MAP:URI="${segment.mapUri}"`);
+                lastMap = segment.mapUri;
+            }
+            lines.push(`#EXT-X-PROGRAM-DATE-TIME:${new Date(segment.programDateTime).toISOString()}`);
+            for (const part of segment.parts) {
+                lines.push(`#EXT-X-PART:DURATION=${part.duration.toFixed(5)},URI="${part.uri}"${part.independent ? ",INDEPENDENT=YES" : ""}`);
+            }
+            if (segment.uri) lines.push(`#EXTINF:${segment.duration.toFixed(5)},`, segment.uri);
+        }
+        const next = live();
+        if (next) lines.push(`#EXT-X-PRELOAD-HINT:TYPE=PART,URI="seg${next.msn}.part${next.parts.length}.m4s"`);
+        return lines.join("\n") + "\n";
+    }
+
+    function waitUntil(ready: () => boolean, timeoutMs: number): Promise<boolean> {
+        if (ready()) return Promise.resolve(true);
+        return new Promise(resolve => {
+            const onUpdate = () => {
+                if (!ready()) return;
+                cleanup();
+                resolve(true);
+            };
+            const timer = setTimeout(() => { cleanup(); resolve(false); }, timeoutMs);
+            const cleanup = () => { clearTimeout(timer); events.off("update", onUpdate); events.off("close", onClose); };
+            const onClose = () => { cleanup(); resolve(false); };
+            events.on("update", onUpdate);
+            events.once("close", onClose);
+        });
+    }
+
+    return {
+        attach,
+        playlist,
+        waitForPlaylist: (msn, part, timeoutMs) => waitUntil(() => hasPart(msn, part), timeoutMs),
+        waitForFile(name, timeoutMs) {
+            const match = PART_FILE.exec(name);
+            if (!match) return Promise.resolve(fs.existsSync(path.join(dir, name)));
+            return waitUntil(() => hasPart(Number(match[1]), Number(match[2])), timeoutMs);
+        },
+        maxRequestableMsn: () => (live()?.msn ?? nextMsn) + 2,
+        close() {
+            current?.removeAllListeners("data");
+            current = undefined;
+            events.emit("close");
+        },
+    };
+}
+
+// --- Registry (per room and rendition) ---
+
+/**
+ * Feeds the per-rendition outputs of a (re)started LL-HLS packager into the
+ * room's streams. Streams of renditions that still exist keep their sequence.
+ */
+export function attachLlHlsOutputs(
+    roomId: string,
+    hlsDir: string,
+    outputs: Array<{ name: string; output: Readable; segmentTarget: number }>,
+    opts: Omit<LlHlsOptions, "segmentTarget">
+): void {
+    const roomStreams = streams.get(roomId) ?? new Map<string, LlHlsStream>();
+    for (const [name, stream] of roomStreams) {
+        if (outputs.some(o => o.name === name)) continue;
+        stream.close();
+        roomStreams.delete(name);
+    }
+    for (const { name, output, segmentTarget } of outputs) {
+        let stream = roomStreams.get(name);
+        if (!stream) {
+            const dir = path.join(hlsDir, name);
+            fs.mkdirSync(dir, { recursive: true });
+            stream = createLlHlsStream(dir, { ...opts, segmentTarget });
+            roomStreams.set(name, stream);
+        }
+        stream.attach(output);
+    }
+    streams.set(roomId, roomStreams);
+}
+
+export function getLlHlsStream(roomId: string, rendition: string): LlHlsStream | undefined {
+    return streams.get(roomId)?.get(rendition);
+}
+
+export function closeLlHls(roomId: string): void {
+    const roomStreams = streams.get(roomId);
+    if (!roomStreams) return;
+    for (const stream of roomStreams.values()) stream.close();
+    streams.delete(roomId);
+}
@@ -0,0 +1,162 @@
+import type { ChildProcess } from "child_process";
+import { listRooms, Room } from "./rooms.js";
+import { workerResourceUsage } from "./worker.js";
+import { lastHlsOutputAt } from "./hlsSupervisor.js";
+
+// --- Prometheus text format (version 0.0.4) ---
+
+type Labels = Record<string, string | number | undefined>;
+type Sample = { labels: Labels; value: number };
+type MetricType = "gauge" | "counter";
+
+function escapeLabel(value: string): string {
+    return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+    const pairs = Object.entries(labels)
+        .filter((entry): entry is [string, string | number] => entry[1] !== undefined)
+        .map(([key, value]) => `${key}="${escapeLabel(String(value))}"`);
+    return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+/**
+ * Collects samples per metric and renders them with their HELP/TYPE header.
+ */
+function createRegistry() {
+    const metrics = new Map<string, { help: string; type: MetricType; samples: Sample[] }>();
+    return {
+        add(name: string, type: MetricType, help: string, value: number, labels: Labels = {}): void {
+            let metric = metrics.get(name);
+            if (!metric) {
+                metric = { help, type, samples: [] };
+                metrics.set(name, metric);
+            }
+            if (Number.isFinite(value)) metric.samples.push({ labels, value });
+        },
+        render(): string {
+            const lines: string[] = [];
+            for (const [name, metric] of metrics) {
+                lines.push(`# HELP ${name} ${metric.help}`, `# TYPE ${name} ${metric.type}`);
+                for (const sample of metric.samples) lines.push(`${name}${formatLabels(sample.labels)} ${sample.value}`);
+            }
+            return lines.join("\n") + "\n";
+        },
+    };
+}
+
+type Registry = ReturnType<typeof createRegistry>;
+
+// --- Collectors ---
+
+function isRunning(proc: ChildProcess | undefined): boolean {
+    return !!proc && proc.exitCode === null && proc.signalCode === null;
+}
+
+async function collectWorkers(registry: Registry): Promise<void> {
+    for (const worker of await workerResourceUsage()) {
+        const labels = { worker: worker.index, pid: worker.pid };
+        registry.add("mediasoup_worker_routers", "gauge", "Routers on the worker", worker.routers, labels);
+        registry.add("mediasoup_worker_transports", "gauge", "Open transports on the worker", worker.transports, labels);
+        if (!worker.usage) continue;
+        // getResourceUsage() reports CPU times in ms and the max RSS in KiB
+        registry.add("mediasoup_worker_cpu_user_seconds_total", "counter", "User CPU time of the worker process",
+            worker.usage.ru_utime / 1000, labels);
+        registry.add("mediasoup_worker_cpu_system_seconds_total", "counter", "System CPU time of the worker process",
+            worker.usage.ru_stime / 1000, labels);
+        registry.add("mediasoup_worker_max_rss_bytes", "gauge", "Peak resident memory of the worker process",
+            worker.usage.ru_maxrss * 1024, labels);
+    }
+}
+
+async function collectTransports(registry: Registry, roomId: string, room: Room): Promise<void> {
+    await Promise.all([...room.transports.entries()].map(async ([key, transport]) => {
+        if (transport.closed) return;
+        const [userId, kind] = key.split(":");
+        const labels = { room: roomId, user: userId, kind };
+        let stats;
+        try {
+            [stats] = await transport.getStats();
+        } catch {
+            // Closed while collecting
+            return;
+        }
+        if (!stats) return;
+        registry.add("sfu_transport_recv_bitrate_bps", "gauge", "Bitrate received on the transport", stats.recvBitrate, labels);
+        registry.add("sfu_transport_send_bitrate_bps", "gauge", "Bitrate sent on the transport", stats.sendBitrate, labels);
+        registry.add("sfu_transport_packet_loss_received_ratio", "gauge", "RTP packet loss of the received streams (0..1)",
+            stats.rtpPacketLossReceived ?? 0, labels);
+        registry.add("sfu_transport_packet_loss_sent_ratio", "gauge", "RTP packet loss reported for the sent streams (0..1)",
+            stats.rtpPacketLossSent ?? 0, labels);
+    }));
+}
+
+async function collectHls(registry: Registry, roomId: string, room: Room): Promise<void> {
+    const labels = { room: roomId };
+    registry.add("sfu_hls_compositor_running", "gauge", "Whether the room's compositor FFmpeg is running",
+        isRunning(room.hlsMixer?.encoder?.process) ? 1 : 0, labels);
+    registry.add("sfu_hls_packager_running", "gauge", "Whether the room's HLS packager FFmpeg is running",
+        isRunning(room.hlsPackager?.process) ? 1 : 0, labels);
+    registry.add("sfu_hls_restarts_total", "counter", "Compositor launches by safeRestartRoomHls", room.hlsStats.restarts, labels);
+    registry.add("sfu_hls_restart_failures_total", "counter", "Failed pipeline restarts", room.hlsStats.failures, labels);
+    registry.add("sfu_hls_decoder_launches_total", "counter", "Input decoder launches (new, resized or crashed tiles and voices)",
+        room.hlsStats.decoderLaunches, labels);
+    if (room.hlsMixer) {
+        registry.add("sfu_hls_mixer_dropped_ticks_total", "counter", "Canvas ticks the compositor did not keep up with",
+            room.hlsMixer.droppedTicks, labels);
+    }
+    registry.add("sfu_hls_restart_duration_seconds_total", "counter", "Time spent launching compositors",
+        room.hlsStats.totalRestartMs / 1000, labels);
+    if (room.hlsStats.lastRestartMs !== undefined) {
+        registry.add("sfu_hls_last_restart_duration_seconds", "gauge", "How long the last compositor launch took",
+            room.hlsStats.lastRestartMs / 1000, labels);
+    }
+    if (room.hlsStats.lastStartedAt) {
+        registry.add("sfu_hls_compositor_started_timestamp_seconds", "gauge", "When the running compositor was launched",
+            room.hlsStats.lastStartedAt / 1000, labels);
+    }
+    if (room.hlsHealth) {
+        registry.add("sfu_hls_live", "gauge", "Whether the supervisor sees the pipeline's output advance",
+            room.hlsHealth.status === "live" ? 1 : 0, labels);
+    }
+    const outputAt = await lastHlsOutputAt(room);
+    if (outputAt !== undefined) {
+        registry.add("sfu_hls_last_segment_age_seconds", "gauge", "Time since the packager last wrote output",
+            (Date.now() - outputAt) / 1000, labels);
+    }
+}
+
+function collectRoom(registry: Registry, roomId: string, room: Room): void {
+    const labels = { room: roomId };
+    const producers = [...room.producers.values()].flatMap(userProducers => [...userProducers.values()]);
+    const consumers = [...room.consumers.values()].reduce((sum, consumers) => sum + consumers.size, 0);
+    registry.add("sfu_room_users", "gauge", "Participants in the room", room.users.size, labels);
+    for (const kind of ["audio", "video"] as const) {
+        registry.add("sfu_room_producers", "gauge", "Producers in the room", producers.filter(p => p.kind === kind).length, { ...labels, kind });
+    }
+    registry.add("sfu_room_consumers", "gauge", "Consumers of participants and bots in the room", consumers, labels);
+    registry.add("sfu_room_bots", "gauge", "Bots in the room", room.bots.size, labels);
+    registry.add("sfu_room_routers", "gauge", "Routers of the room", room.routers.length, labels);
+    registry.add("sfu_room_recording", "gauge", "Whether the room is being recorded", room.recording ? 1 : 0, labels);
+    for (const restream of room.restreams.values()) {
+        registry.add("sfu_restream_live", "gauge", "Whether a restream destination is live",
+            restream.status === "live" ? 1 : 0, { ...labels, restream: restream.id });
+    }
+}
+
+/**
+ * Every metric in the Prometheus text format. Per room series carry a `room`
+ * label, transport series also `user` and `kind` (producer/consumer).
+ */
+export async function collectMetrics(): Promise<string> {
+    const registry = createRegistry();
+    const rooms = listRooms();
+    registry.add("sfu_rooms", "gauge", "Open rooms", rooms.length);
+    await collectWorkers(registry);
+    for (const [roomId, room] of rooms) {
+        collectRoom(registry, roomId, room);
+        await collectHls(registry, roomId, room);
+        await collectTransports(registry, roomId, room);
+    }
+    return registry.render();
+}
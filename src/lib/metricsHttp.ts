@@ -0,0 +1,27 @@
+import express from "express";
+import { config } from "../config/mediasoup.config.js";
+import { collectMetrics } from "./metrics.js";
+import { requireBearerToken } from "./httpAuth.js";
+
+/**
+ * GET / -> Prometheus text format (see metrics.ts)
+ *
+ * Requires `Authorization: Bearer <METRICS_TOKEN>` when config.metrics.token is set.
+ */
+export function metricsRouter(): express.Router {
+    const router = express.Router();
+
+    if (config.metrics.token) router.use(requireBearerToken(config.metrics.token));
+
+    router.get("/", async (_req, res) => {
+        try {
+            const body = await collectMetrics();
+            res.type("text/plain; version=0.0.4").send(body);
+        } catch (err) {
+            console.error("Collecting metrics failed:", err);
+            res.status(500).json({ error: "Collecting metrics failed" });
+        }
+    });
+
+    return router;
+}
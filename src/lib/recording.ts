@@ -0,0 +1,234 @@
+import type { Consumer, PlainTransport, Producer, Router } from "mediasoup/types";
+import type { ChildProcess } from "child_process";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import getPort, { portNumbers } from "get-port";
+import { config } from "../config/mediasoup.config.js";
+import { generateSdp, launchCompositeRecorder, launchProducerRecorder, stopFfmpeg } from "./launchFfmpeg.js";
+import { getEvenPort, plainRtpCapabilities, requestKeyFrameWithRetry } from "./rtpUtils.js";
+import type { RecordingFile, RecordingFormat, RecordingMetadata } from "../protocol/index.js";
+
+// --- Type Declarations ---
+export type { RecordingFile, RecordingFormat, RecordingMetadata } from "../protocol/index.js";
+
+export interface RecordingOptions {
+    format: RecordingFormat;
+    // Additionally write one file per producer (WebM, Matroska for H264)
+    perProducer: boolean;
+}
+
+type ProducerRecorder = {
+    transport: PlainTransport;
+    process: ChildProcess;
+    ports: number[];
+};
+
+export type ActiveRecording = {
+    id: string;
+    roomId: string;
+    dir: string;
+    options: RecordingOptions;
+    startedAt: number;
+    // The compositor sends its output here (in addition to the HLS packager)
+    compositePort: number;
+    compositeProcess: ChildProcess;
+    participants: Set<string>;
+    files: RecordingFile[];
+    producerRecorders: Map<string, ProducerRecorder>;
+};
+
+const RECORDING_FORMATS: RecordingFormat[] = ["mp4", "webm"];
+const METADATA_FILE = "metadata.json";
+
+// --- State ---
+// Ports handed to producer recorders that FFmpeg may not have bound yet
+const usedRecorderPorts: Set<number> = new Set();
+
+// --- Helpers ---
+function recordingsRoot(): string {
+    return path.join(process.cwd(), config.recording.dir);
+}
+
+// WebM only carries VP8/VP9/AV1/Opus
+function producerFileFormat(mimeType: string): { format: "webm" | "matroska"; extension: string } {
+    return mimeType.toLowerCase() === "video/h264" ? { format: "matroska", extension: "mkv" } : { format: "webm", extension: "webm" };
+}
+
+// 96 random bits: ids end up in download URLs
+function generateRecordingId(): string {
+    return "rec_" + crypto.randomBytes(12).toString("hex");
+}
+
+function isValidRecordingId(id: string): boolean {
+    return /^rec_[0-9a-f]{24}$/.test(id);
+}
+
+export function parseRecordingOptions(data: { format?: RecordingFormat; perProducer?: boolean }): { options: RecordingOptions } | { error: string } {
+    const format = data.format ?? config.recording.format;
+    if (!RECORDING_FORMATS.includes(format)) return { error: `Unknown recording format: ${format}` };
+    return { options: { format, perProducer: data.perProducer ?? false } };
+}
+
+/**
+ * Starts the composite recorder. The caller has to run the HLS pipeline so
+ * the compositor's output is sent to `compositePort`.
+ */
+export async function startRecording(roomId: string, options: RecordingOptions): Promise<ActiveRecording> {
+    const id = generateRecordingId();
+    const dir = path.join(recordingsRoot(), id);
+    fs.mkdirSync(dir, { recursive: true });
+
+    const compositePort = await getPort({ port: portNumbers(10402, 10500) });
+    const name = `composite.${options.format}`;
+    const compositeProcess = launchCompositeRecorder({
+        inputPort: compositePort,
+        outputPath: path.join(dir, name),
+        format: options.format,
+    });
+
+    return {
+        id,
+        roomId,
+        dir,
+        options,
+        startedAt: Date.now(),
+        compositePort,
+        compositeProcess,
+        participants: new Set(),
+        files: [{ name, type: "composite" }],
+        producerRecorders: new Map(),
+    };
+}
+
+/**
+ * Records one producer into its own file until the producer (or the recording) closes.
+ */
+export async function recordProducer(
+    recording: ActiveRecording,
+    router: Router,
+    userId: string,
+    producer: Producer
+): Promise<void> {
+    if (recording.producerRecorders.has(producer.id) || producer.closed) return;
+
+    const rtp = await getEvenPort({ startPort: 10502, endPort: 10700 }, new Set(usedRecorderPorts));
+    const ports = [rtp, rtp + 1];
+    ports.forEach(port => usedRecorderPorts.add(port));
+
+    const transport = await router.createPlainTransport({
+        listenIp: "127.0.0.1", rtcpMux: false, comedia: false,
+    });
+
+    // Paused until FFmpeg listens; its SDP is written from the consumer's parameters
+    let consumer: Consumer;
+    try {
+        consumer = await transport.consume({
+            producerId: producer.id,
+            rtpCapabilities: plainRtpCapabilities(router.rtpCapabilities),
+            paused: true,
+        });
+    } catch (err) {
+        transport.close();
+        ports.forEach(port => usedRecorderPorts.delete(port));
+        throw err;
+    }
+
+    const pair = { rtp, rtcp: rtp + 1 };
+    const sdpPath = path.join(recording.dir, `${producer.id}.sdp`);
+    fs.writeFileSync(sdpPath, generateSdp([{ ports: pair, rtpParameters: consumer.rtpParameters }]));
+
+    const source = typeof producer.appData.source === "string" ? producer.appData.source : producer.kind;
+    const { format, extension } = producerFileFormat(consumer.rtpParameters.codecs[0].mimeType);
+    const name = `${userId}-${source}-${producer.id}.${extension}`;
+    const recorderProcess = launchProducerRecorder({ sdpPath, outputPath: path.join(recording.dir, name), format });
+    recording.producerRecorders.set(producer.id, { transport, process: recorderProcess, ports });
+    recording.files.push({ name, type: "producer", userId, producerId: producer.id, kind: producer.kind, source });
+
+    // Connect and resume only after FFmpeg listens (same order as the HLS pipeline)
+    await transport.connect({ ip: "127.0.0.1", port: pair.rtp, rtcpPort: pair.rtcp });
+    consumer.on("producerclose", () => {
+        stopProducerRecorder(recording, producer.id);
+    });
+    await consumer.resume();
+    if (consumer.kind === "video") await requestKeyFrameWithRetry(consumer, 5, 500);
+}
+
+async function stopProducerRecorder(recording: ActiveRecording, producerId: string): Promise<void> {
+    const recorder = recording.producerRecorders.get(producerId);
+    if (!recorder) return;
+    recording.producerRecorders.delete(producerId);
+    await stopFfmpeg(recorder.process);
+    try { recorder.transport.close(); } catch { }
+    recorder.ports.forEach(port => usedRecorderPorts.delete(port));
+}
+
+/**
+ * Finalizes the per-producer files only; the composite recording continues.
+ * Used when the producers are gone with their router (worker died).
+ */
+export async function stopProducerRecorders(recording: ActiveRecording): Promise<void> {
+    await Promise.all([...recording.producerRecorders.keys()].map(id => stopProducerRecorder(recording, id)));
+}
+
+/**
+ * Finalizes every file of the recording and writes its metadata.
+ */
+export async function stopRecording(recording: ActiveRecording): Promise<RecordingMetadata> {
+    const endedAt = Date.now();
+    await Promise.all([
+        stopFfmpeg(recording.compositeProcess),
+        ...[...recording.producerRecorders.keys()].map(id => stopProducerRecorder(recording, id)),
+    ]);
+
+    // Drop files FFmpeg never wrote (e.g. no media arrived)
+    const files = recording.files.filter(file => fs.existsSync(path.join(recording.dir, file.name)));
+    const metadata: RecordingMetadata = {
+        id: recording.id,
+        roomId: recording.roomId,
+        format: recording.options.format,
+        startedAt: new Date(recording.startedAt).toISOString(),
+        endedAt: new Date(endedAt).toISOString(),
+        durationMs: endedAt - recording.startedAt,
+        participants: [...recording.participants],
+        files,
+    };
+    fs.writeFileSync(path.join(recording.dir, METADATA_FILE), JSON.stringify(metadata, null, 2));
+    return metadata;
+}
+
+// --- Finished recordings ---
+
+export async function getRecording(id: string): Promise<RecordingMetadata | undefined> {
+    if (!isValidRecordingId(id)) return undefined;
+    try {
+        const raw = await fs.promises.readFile(path.join(recordingsRoot(), id, METADATA_FILE), "utf8");
+        return JSON.parse(raw) as RecordingMetadata;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Lists finished recordings (those with metadata), newest first.
+ */
+export async function listRecordings(roomId?: string): Promise<RecordingMetadata[]> {
+    let ids: string[];
+    try {
+        ids = await fs.promises.readdir(recordingsRoot());
+    } catch {
+        return [];
+    }
+    const recordings = (await Promise.all(ids.map(getRecording)))
+        .filter((r): r is RecordingMetadata => !!r && (!roomId || r.roomId === roomId));
+    return recordings.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+/**
+ * Absolute path of a file of a finished recording, only for files listed in its metadata.
+ */
+export async function getRecordingFilePath(id: string, name: string): Promise<string | undefined> {
+    const metadata = await getRecording(id);
+    if (!metadata || !metadata.files.some(file => file.name === name)) return undefined;
+    return path.join(recordingsRoot(), id, name);
+}
@@ -0,0 +1,36 @@
+import express from "express";
+import { getRecording, getRecordingFilePath, listRecordings } from "./recording.js";
+
+/**
+ * GET /                        -> finished recordings (optionally `?roomId=`)
+ * GET /:recordingId            -> metadata of one recording
+ * GET /:recordingId/files/:name -> download a recorded file
+ */
+export function recordingsRouter(): express.Router {
+    const router = express.Router();
+
+    router.get("/", async (req, res) => {
+        const roomId = typeof req.query.roomId === "string" ? req.query.roomId : undefined;
+        res.json({ recordings: await listRecordings(roomId) });
+    });
+
+    router.get("/:recordingId", async (req, res) => {
+        const recording = await getRecording(req.params.recordingId);
+        if (!recording) {
+            res.status(404).json({ error: "Recording not found" });
+            return;
+        }
+        res.json(recording);
+    });
+
+    router.get("/:recordingId/files/:name", async (req, res) => {
+        const filePath = await getRecordingFilePath(req.params.recordingId, req.params.name);
+        if (!filePath) {
+            res.status(404).json({ error: "File not found" });
+            return;
+        }
+        res.download(filePath);
+    });
+
+    return router;
+}
@@ -0,0 +1,152 @@
+import type { ChildProcess } from "child_process";
+import getPort, { portNumbers } from "get-port";
+import { launchRestream, stopFfmpeg } from "./launchFfmpeg.js";
+import type { RestreamInfo, RestreamProtocol, RestreamStatus } from "../protocol/index.js";
+
+// --- Type Declarations ---
+export type { RestreamProtocol, RestreamStatus } from "../protocol/index.js";
+
+export type Restream = {
+    id: string;
+    url: string;
+    protocol: RestreamProtocol;
+    // The compositor sends its output here (like the composite recorder)
+    port: number;
+    startedAt: number;
+    status: RestreamStatus;
+    // Failed attempts since the destination was last live for a while
+    attempts: number;
+    lastError?: string;
+    liveSince?: number;
+    nextAttemptAt?: number;
+    process?: ChildProcess;
+    retryTimer?: NodeJS.Timeout;
+    stopped?: boolean;
+};
+
+// Reconnect backoff: RETRY_MIN_MS doubled per failed attempt, up to RETRY_MAX_MS
+const RETRY_MIN_MS = 1000;
+const RETRY_MAX_MS = 30000;
+// A destination live for this long starts over with the shortest backoff
+const STABLE_AFTER_MS = 30000;
+
+// --- State ---
+// Input ports of every destination, also while FFmpeg is down between attempts
+const usedRestreamPorts: Set<number> = new Set();
+
+// --- Helpers ---
+function generateRestreamId(): string {
+    return "rs_" + Math.random().toString(36).slice(2, 10);
+}
+
+export function parseRestreamUrl(url: unknown): { url: string; protocol: RestreamProtocol } | { error: string } {
+    if (typeof url !== "string") return { error: "url must be a string" };
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return { error: "url is not a valid URL" };
+    }
+    if (parsed.protocol === "rtmp:" || parsed.protocol === "rtmps:") return { url, protocol: "rtmp" };
+    if (parsed.protocol === "srt:") return { url, protocol: "srt" };
+    return { error: `Unsupported protocol: ${parsed.protocol} (rtmp, rtmps or srt)` };
+}
+
+// Stream keys and SRT passphrases stay on the server
+function maskUrl(url: string): string {
+    const parsed = new URL(url);
+    const path = parsed.pathname.split("/");
+    if (path.length > 2) path[path.length - 1] = "***";
+    return `${parsed.protocol}//${parsed.host}${path.join("/")}${parsed.search ? "?***" : ""}`;
+}
+
+/**
+ * Allocates the destination's input port and starts its first attempt.
+ * The caller has to run the HLS pipeline so the compositor's output is sent to `port`.
+ * `onStatus` is called on every status change until stopRestream.
+ */
+export async function startRestream(
+    url: string,
+    protocol: RestreamProtocol,
+    onStatus: (restream: Restream) => void
+): Promise<Restream> {
+    const port = await getPort({ port: portNumbers(10702, 10800), exclude: usedRestreamPorts });
+    usedRestreamPorts.add(port);
+    const restream: Restream = {
+        id: generateRestreamId(),
+        url,
+        protocol,
+        port,
+        startedAt: Date.now(),
+        status: "connecting",
+        attempts: 0,
+    };
+    connect(restream, onStatus);
+    return restream;
+}
+
+// One attempt: FFmpeg reports progress once the destination accepted the stream
+function connect(restream: Restream, onStatus: (restream: Restream) => void): void {
+    const proc = launchRestream({ inputPort: restream.port, url: restream.url, protocol: restream.protocol });
+    restream.process = proc;
+    restream.nextAttemptAt = undefined;
+    setStatus(restream, "connecting", onStatus);
+
+    proc.stdout?.on("data", (data: Buffer) => {
+        if (restream.status !== "live" && data.toString().includes("progress=continue")) {
+            restream.liveSince = Date.now();
+            restream.lastError = undefined;
+            setStatus(restream, "live", onStatus);
+        }
+    });
+    proc.on("exit", (code, signal) => {
+        if (restream.stopped || restream.process !== proc) return;
+        restream.process = undefined;
+        if (restream.liveSince && Date.now() - restream.liveSince >= STABLE_AFTER_MS) restream.attempts = 0;
+        restream.liveSince = undefined;
+        const delay = Math.min(RETRY_MIN_MS * 2 ** restream.attempts, RETRY_MAX_MS);
+        restream.attempts++;
+        restream.lastError = `FFmpeg exited with code ${code} (${signal})`;
+        restream.nextAttemptAt = Date.now() + delay;
+        setStatus(restream, "failed", onStatus);
+        restream.retryTimer = setTimeout(() => {
+            restream.retryTimer = undefined;
+            if (!restream.stopped) connect(restream, onStatus);
+        }, delay);
+    });
+}
+
+function setStatus(restream: Restream, status: RestreamStatus, onStatus: (restream: Restream) => void): void {
+    restream.status = status;
+    console.log(`[restream] ${restream.id} ${status}${restream.lastError ? `: ${restream.lastError}` : ""}`);
+    onStatus(restream);
+}
+
+/**
+ * Ends the destination for good; stopFfmpeg lets FFmpeg close the stream cleanly.
+ */
+export async function stopRestream(restream: Restream): Promise<void> {
+    restream.stopped = true;
+    if (restream.retryTimer) clearTimeout(restream.retryTimer);
+    restream.retryTimer = undefined;
+    await stopFfmpeg(restream.process);
+    restream.process = undefined;
+    usedRestreamPorts.delete(restream.port);
+}
+
+/**
+ * JSON friendly snapshot for clients and the admin API (without the stream key).
+ */
+export function describeRestream(restream: Restream): RestreamInfo {
+    return {
+        restreamId: restream.id,
+        url: maskUrl(restream.url),
+        protocol: restream.protocol,
+        status: restream.status,
+        startedAt: new Date(restream.startedAt).toISOString(),
+        liveSince: restream.liveSince !== undefined ? new Date(restream.liveSince).toISOString() : undefined,
+        attempts: restream.attempts,
+        lastError: restream.lastError,
+        nextAttemptAt: restream.nextAttemptAt !== undefined ? new Date(restream.nextAttemptAt).toISOString() : undefined,
+    };
+}
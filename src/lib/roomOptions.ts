@@ -0,0 +1,100 @@
+import crypto from "crypto";
+import { config } from "../config/mediasoup.config.js";
+import type { RoomOptions } from "../protocol/index.js";
+
+// --- Type Declarations ---
+export type { RoomOptions } from "../protocol/index.js";
+
+// What createRoom, the admin API and config.rooms.preProvisioned accept
+export interface RoomSpec extends Partial<RoomOptions> {
+    roomId?: string;
+    password?: string;
+}
+
+export interface ParsedRoomSpec {
+    roomId?: string;
+    options: RoomOptions;
+    // `salt:hash` (scrypt), never the plain password
+    passwordHash?: string;
+}
+
+const ROOM_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const MAX_NAME_LENGTH = 128;
+const SCRYPT_KEY_LENGTH = 32;
+
+// --- Helpers ---
+function isPositiveInteger(value: unknown): value is number {
+    return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+export function hashPassword(password: string): string {
+    const salt = crypto.randomBytes(16).toString("hex");
+    const hash = crypto.scryptSync(password, salt, SCRYPT_KEY_LENGTH).toString("hex");
+    return `${salt}:${hash}`;
+}
+
+export function verifyPassword(passwordHash: string, password: unknown): boolean {
+    if (typeof password !== "string") return false;
+    const [salt, hash] = passwordHash.split(":");
+    const expected = Buffer.from(hash, "hex");
+    const actual = crypto.scryptSync(password, salt, SCRYPT_KEY_LENGTH);
+    return crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Validates room options and fills in config.rooms.defaults. `persistent` is
+ * only accepted from trusted callers (admin API, config).
+ */
+export function parseRoomSpec(data: unknown, { allowPersistent = false } = {}): ParsedRoomSpec | { error: string } {
+    if (data !== undefined && data !== null && (typeof data !== "object" || Array.isArray(data))) {
+        return { error: "Room options must be an object" };
+    }
+    // Unchecked until every field passed
+    const fields: { [K in keyof RoomSpec]?: unknown } = data ?? {};
+    const defaults = config.rooms.defaults;
+
+    if (fields.roomId !== undefined && (typeof fields.roomId !== "string" || !ROOM_ID_PATTERN.test(fields.roomId))) {
+        return { error: "roomId must be 1-64 characters of A-Z, a-z, 0-9, _ or -" };
+    }
+    if (fields.name !== undefined && (typeof fields.name !== "string" || !fields.name.trim() || fields.name.length > MAX_NAME_LENGTH)) {
+        return { error: `name must be a non-empty string of at most ${MAX_NAME_LENGTH} characters` };
+    }
+    for (const field of ["maxParticipants", "maxPublishers"] as const) {
+        if (fields[field] !== undefined && !isPositiveInteger(fields[field])) {
+            return { error: `${field} must be a positive integer` };
+        }
+    }
+    if (fields.password !== undefined && (typeof fields.password !== "string" || !fields.password)) {
+        return { error: "password must be a non-empty string" };
+    }
+    for (const field of ["hls", "recording", "persistent"] as const) {
+        if (fields[field] !== undefined && typeof fields[field] !== "boolean") {
+            return { error: `${field} must be a boolean` };
+        }
+    }
+    if (fields.idleTimeoutSeconds !== undefined &&
+        (typeof fields.idleTimeoutSeconds !== "number" || !Number.isFinite(fields.idleTimeoutSeconds) || fields.idleTimeoutSeconds < 0)) {
+        return { error: "idleTimeoutSeconds must be a non-negative number" };
+    }
+    const spec = fields as RoomSpec;
+    if (spec.maxParticipants !== undefined && spec.maxPublishers !== undefined && spec.maxPublishers > spec.maxParticipants) {
+        return { error: "maxPublishers cannot exceed maxParticipants" };
+    }
+    if (spec.persistent && !allowPersistent) {
+        return { error: "Only pre-provisioned rooms can be persistent" };
+    }
+
+    return {
+        roomId: spec.roomId,
+        options: {
+            name: spec.name?.trim(),
+            maxParticipants: spec.maxParticipants ?? defaults.maxParticipants,
+            maxPublishers: spec.maxPublishers ?? defaults.maxPublishers,
+            hls: spec.hls ?? defaults.hls,
+            recording: spec.recording ?? defaults.recording,
+            idleTimeoutSeconds: spec.idleTimeoutSeconds ?? defaults.idleTimeoutSeconds,
+            persistent: spec.persistent ?? false,
+        },
+        passwordHash: spec.password !== undefined ? hashPassword(spec.password) : undefined,
+    };
+}
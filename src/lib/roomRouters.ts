@@ -0,0 +1,105 @@
+import type { Consumer, Router, WebRtcTransport } from "mediasoup/types";
+import { config } from "../config/mediasoup.config.js";
+import { createRouter } from "./worker.js";
+import type { Room, RoomRouter } from "./rooms.js";
+
+// --- Multi-router rooms ---
+// Producers (and the HLS/recording taps) live on the room's origin router
+// (room.router, always room.routers[0]). Consumer transports are spread over
+// the room's routers, adding one on another worker when all reached
+// config.mediasoup.router.maxConsumersPerRouter. Producers and data producers
+// are piped to a consumer's router the first time someone there consumes them.
+
+export function createRoomRouter(router: Router): RoomRouter {
+    return { router, consumers: 0, pipes: new Map() };
+}
+
+/**
+ * Router for a new consumer transport: the least used one below the cap, or a new one.
+ */
+export async function pickConsumerRouter(room: Room): Promise<RoomRouter> {
+    const cap = config.mediasoup.router.maxConsumersPerRouter;
+    const available = room.routers.filter(entry => !entry.router.closed && entry.consumers < cap);
+    if (available.length) {
+        return available.reduce((best, entry) => (entry.consumers < best.consumers ? entry : best));
+    }
+    const entry = createRoomRouter(await createRouter(room.routers.map(entry => entry.router)));
+    room.routers.push(entry);
+    console.log(`[rooms] Room router ${entry.router.id} added (${room.routers.length} routers)`);
+    return entry;
+}
+
+/**
+ * A WebRtcTransport with the configured listen IPs, protocols and SCTP settings.
+ */
+export function createWebRtcTransport(router: Router): Promise<WebRtcTransport> {
+    const options = config.mediasoup.webRtcTransport;
+    return router.createWebRtcTransport({
+        listenIps: options.listenIps,
+        enableUdp: options.enableUdp,
+        enableTcp: options.enableTcp,
+        preferUdp: options.preferUdp,
+        initialAvailableOutgoingBitrate: options.initialAvailableOutgoingBitrate,
+        enableSctp: options.enableSctp,
+        numSctpStreams: options.numSctpStreams,
+        maxSctpMessageSize: options.maxSctpMessageSize,
+    });
+}
+
+/**
+ * Makes a (data) producer of the origin router consumable on `target` (once per router).
+ */
+export function ensureProducerPiped(room: Room, target: RoomRouter, producerId: string): Promise<void> {
+    return ensurePiped(room, target, producerId, { producerId });
+}
+
+export function ensureDataProducerPiped(room: Room, target: RoomRouter, dataProducerId: string): Promise<void> {
+    return ensurePiped(room, target, dataProducerId, { dataProducerId });
+}
+
+function ensurePiped(
+    room: Room,
+    target: RoomRouter,
+    id: string,
+    source: { producerId: string } | { dataProducerId: string }
+): Promise<void> {
+    if (target.router === room.router) return Promise.resolve();
+    let pipe = target.pipes.get(id);
+    if (!pipe) {
+        pipe = room.router.pipeToRouter({ ...source, router: target.router }).then(({ pipeProducer, pipeDataProducer }) => {
+            const forget = () => target.pipes.delete(id);
+            pipeProducer?.observer.on("close", forget);
+            pipeDataProducer?.observer.on("close", forget);
+        });
+        // A failed pipe may be retried by the next consumer
+        pipe.catch(() => target.pipes.delete(id));
+        target.pipes.set(id, pipe);
+    }
+    return pipe;
+}
+
+/**
+ * Counts a consumer against its router until it closes.
+ */
+export function trackConsumer(entry: RoomRouter, consumer: Consumer): void {
+    entry.consumers++;
+    consumer.observer.on("close", () => { entry.consumers--; });
+}
+
+/**
+ * Forgets a socket's consumer router and closes it when no other socket uses it
+ * (the origin router stays).
+ */
+export function releaseConsumerRouter(room: Room, socketId: string): void {
+    const entry = room.consumerRouters.get(socketId);
+    if (!entry) return;
+    room.consumerRouters.delete(socketId);
+    if (entry.router === room.router) return;
+    if ([...room.consumerRouters.values()].includes(entry)) return;
+    room.routers = room.routers.filter(e => e !== entry);
+    entry.router.close();
+}
+
+export function closeRoomRouters(room: Room): void {
+    for (const entry of room.routers) entry.router.close();
+}
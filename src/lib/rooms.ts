@@ -0,0 +1,444 @@
+import type {
+    ActiveSpeakerObserver,
+    AudioLevelObserver,
+    DataConsumer,
+    DataProducer,
+    DirectTransport,
+    Router,
+    WebRtcTransport,
+    Producer,
+    PlainTransport,
+    Consumer,
+} from "mediasoup/types";
+import type { ChildProcess } from "child_process";
+import type { PortPair } from "./launchFfmpeg.js";
+import type { HlsLayout } from "./hlsLayout.js";
+import type { HlsRendition } from "./hlsLadder.js";
+import type { HlsMode } from "./llhls.js";
+import { describeHlsHealth, HlsHealth } from "./hlsSupervisor.js";
+import { describeHlsMixer, HlsMixer } from "./hlsMixer.js";
+import { ActiveRecording, stopProducerRecorders, stopRecording } from "./recording.js";
+import { closeRoomHls, endRoomHls, safeRestartRoomHls } from "./hlsPipeline.js";
+import { describeRestream, Restream, stopRestream } from "./restream.js";
+import { describeIngest, Ingest, stopIngest } from "./ingest.js";
+import { Bot, describeBot, stopBot } from "./bots.js";
+import { createRouter } from "./worker.js";
+import { config } from "../config/mediasoup.config.js";
+import { parseRoomSpec, ParsedRoomSpec, RoomOptions } from "./roomOptions.js";
+import { closeRoomRouters, createRoomRouter } from "./roomRouters.js";
+import { stopSpeakerTracking } from "./speakers.js";
+import { isReconnecting } from "./sessions.js";
+import type { ProducerKind, ProducerSource, TransportKind } from "../protocol/index.js";
+
+// --- Type Declarations ---
+export type { ProducerKind, ProducerSource, TransportKind } from "../protocol/index.js";
+export type Room = {
+    options: RoomOptions;
+    passwordHash?: string;
+    users: Set<string>;
+    // Origin router: producers, HLS and recording (also routers[0])
+    router: Router;
+    // Every router of the room; consumer transports are spread over them (see roomRouters.ts)
+    routers: RoomRouter[];
+    // Router of each socket's consumer transport
+    consumerRouters: Map<string, RoomRouter>;
+    // Consumers of each socket, by consumer id
+    consumers: Map<string, Map<string, Consumer>>;
+    transports: Map<string, WebRtcTransport>;
+    producers: Map<string, Map<ProducerSource, Producer>>;
+    // Producers muted by their owner (pauseProducer), by producer id
+    pausedProducers: Set<string>;
+    // SCTP data producers of each user and data consumers of each socket, by id
+    dataProducers: Map<string, Map<string, DataProducer>>;
+    dataConsumers: Map<string, Map<string, DataConsumer>>;
+    // Server-side "system" data producer (see dataChannels.ts)
+    systemChannel?: Promise<SystemChannel>;
+    hlsLayout: HlsLayout;
+    hlsMode: HlsMode;
+    // Audio observers on the origin router, created with the first audio producer
+    speakerObservers?: Promise<SpeakerObservers>;
+    // User id of the dominant speaker, and the one the HLS speaker layout focuses (lags behind)
+    activeSpeaker?: string;
+    hlsSpeaker?: string;
+    hlsSpeakerTimer?: NodeJS.Timeout;
+    // One slot per producer in the composition (by producer id), kept across pipeline runs
+    hlsSlots?: Map<string, HlsSlot>;
+    // Decoders, canvas and compositor (see hlsMixer.ts)
+    hlsMixer?: HlsMixer;
+    hlsPackager?: HlsPackager;
+    hlsDir?: string;
+    // Canvas and ladder of the running compositor; a change relaunches it
+    hlsMixerKey?: string;
+    // Compositor launches and failed pipeline restarts (see safeRestartRoomHls), for /metrics,
+    // and how long the launches took, in ms. Decoder launches are counted apart:
+    // joins, leaves and layout changes only (re)start decoders.
+    hlsStats: {
+        restarts: number;
+        failures: number;
+        decoderLaunches: number;
+        lastStartedAt?: number;
+        lastRestartMs?: number;
+        maxRestartMs: number;
+        totalRestartMs: number;
+    };
+    // Supervisor state while the pipeline runs (see hlsSupervisor.ts)
+    hlsHealth?: HlsHealth;
+    recording?: ActiveRecording;
+    // RTMP/SRT destinations fed by the compositor, by restream id
+    restreams: Map<string, Restream>;
+    // External streams published as synthetic participants, by ingest id (their key in producers)
+    ingests: Map<string, Ingest>;
+    // Synthetic test participants (admin API), by bot id (their key in producers and consumers)
+    bots: Map<string, Bot>;
+    // Pending teardown of an empty room (options.idleTimeoutSeconds)
+    idleTimer?: NodeJS.Timeout;
+    // Set by destroyRoom, queued pipeline work checks it
+    closed?: boolean;
+    __pendingRestart?: boolean;
+};
+export type Rooms = Map<string, Room>;
+export type SystemChannel = {
+    transport: DirectTransport;
+    dataProducer: DataProducer;
+};
+export type SpeakerObservers = {
+    audioLevel: AudioLevelObserver;
+    activeSpeaker: ActiveSpeakerObserver;
+};
+export type RoomRouter = {
+    router: Router;
+    consumers: number;
+    // Producers of the origin router piped here, by producer id
+    pipes: Map<string, Promise<void>>;
+};
+export type HlsSlot = {
+    userId: string;
+    source: ProducerSource;
+    kind: ProducerKind;
+    transport: PlainTransport;
+    ports: PortPair;
+    // Created paused with the transport; the decoder's SDP is written from its rtpParameters
+    consumer: Consumer;
+};
+export type HlsPackager = {
+    process: ChildProcess;
+    port: number;
+    startedAt: number;
+    canvas: string; // `${width}x${height}`, a change needs a new packager (and a discontinuity)
+    renditions: HlsRendition[];
+    mode: HlsMode;
+    // Set by the supervisor: relaunched with the next pipeline run
+    stale?: boolean;
+};
+// --- State ---
+const rooms: Rooms = new Map();
+// Drain mode (rolling deploys, shutdown): existing rooms go on, no new ones
+let draining = false;
+
+// --- Helpers ---
+export function generateRoomId(): string {
+    return "room_" + Math.random().toString(36).slice(2, 8);
+}
+
+export function transportKey(socketId: string, kind: TransportKind): string {
+    return `${socketId}:${kind}`;
+}
+
+// --- Registry ---
+// The single owner of all room state; used by the socket handlers (ws.ts) and the admin API.
+
+export function getRoom(roomId: string): Room | undefined {
+    return rooms.get(roomId);
+}
+
+export function addRoom(roomId: string, room: Room): void {
+    rooms.set(roomId, room);
+}
+
+/**
+ * Creates a room with its own router. Fails when a custom roomId is taken.
+ */
+export function isDraining(): boolean {
+    return draining;
+}
+
+export function setDraining(on: boolean): void {
+    draining = on;
+}
+
+export async function createRoom(spec: ParsedRoomSpec): Promise<{ roomId: string; room: Room } | { error: string }> {
+    if (draining) return { error: "Server is draining, no new rooms" };
+    if (spec.roomId && rooms.has(spec.roomId)) return { error: "Room already exists" };
+    const router = await createRouter();
+    const roomId = spec.roomId ?? generateRoomId();
+    // Checked again: another request may have taken the id while the router was created
+    if (rooms.has(roomId)) {
+        router.close();
+        return { error: "Room already exists" };
+    }
+    const room: Room = {
+        options: spec.options,
+        passwordHash: spec.passwordHash,
+        users: new Set(),
+        router,
+        routers: [createRoomRouter(router)],
+        consumerRouters: new Map(),
+        consumers: new Map(),
+        transports: new Map(),
+        producers: new Map(),
+        pausedProducers: new Set(),
+        dataProducers: new Map(),
+        dataConsumers: new Map(),
+        hlsLayout: { ...config.hls.layout },
+        hlsMode: config.hls.mode,
+        hlsStats: { restarts: 0, failures: 0, decoderLaunches: 0, maxRestartMs: 0, totalRestartMs: 0 },
+        restreams: new Map(),
+        ingests: new Map(),
+        bots: new Map(),
+    };
+    addRoom(roomId, room);
+    return { roomId, room };
+}
+
+/**
+ * Creates the rooms of config.rooms.preProvisioned (always persistent).
+ */
+export async function provisionRooms(): Promise<void> {
+    for (const spec of config.rooms.preProvisioned) {
+        const parsed = parseRoomSpec({ ...spec, persistent: true }, { allowPersistent: true });
+        const result = "error" in parsed ? parsed : await createRoom(parsed);
+        if ("error" in result) {
+            console.error(`[rooms] Cannot provision room ${spec.roomId ?? spec.name ?? ""}: ${result.error}`);
+        } else {
+            console.log(`[rooms] Provisioned room ${result.roomId}`);
+        }
+    }
+}
+
+/**
+ * Called when the last user left: persistent rooms stay, others are destroyed
+ * now or after options.idleTimeoutSeconds unless someone joins in between.
+ */
+export function releaseEmptyRoom(roomId: string): void {
+    const room = rooms.get(roomId);
+    if (!room || room.users.size > 0 || room.options.persistent) return;
+    if (!room.options.idleTimeoutSeconds) {
+        destroyRoom(roomId);
+        return;
+    }
+    cancelIdleTeardown(room);
+    room.idleTimer = setTimeout(() => {
+        room.idleTimer = undefined;
+        if (room.users.size === 0) destroyRoom(roomId);
+    }, room.options.idleTimeoutSeconds * 1000);
+}
+
+export function cancelIdleTeardown(room: Room): void {
+    if (room.idleTimer) clearTimeout(room.idleTimer);
+    room.idleTimer = undefined;
+}
+
+export function listRooms(): Array<[string, Room]> {
+    return [...rooms.entries()];
+}
+
+const PRODUCER_SOURCES: ProducerSource[] = ["mic", "webcam", "screen", "screen-audio"];
+
+export function sourceKind(source: ProducerSource): ProducerKind {
+    return source === "mic" || source === "screen-audio" ? "audio" : "video";
+}
+
+/**
+ * Source label of a new producer; clients that send none get "mic"/"webcam".
+ */
+export function parseProducerSource(kind: ProducerKind, source: unknown): { source: ProducerSource } | { error: string } {
+    if (kind !== "audio" && kind !== "video") return { error: `Unknown kind: ${kind}` };
+    if (source === undefined) return { source: kind === "audio" ? "mic" : "webcam" };
+    if (!PRODUCER_SOURCES.includes(source as ProducerSource)) return { error: `Unknown source: ${source}` };
+    if (sourceKind(source as ProducerSource) !== kind) return { error: `Source ${source} cannot be ${kind}` };
+    return { source: source as ProducerSource };
+}
+
+export function findProducer(
+    room: Room,
+    producerId: string
+): { userId: string; source: ProducerSource; kind: ProducerKind; producer: Producer } | undefined {
+    for (const [userId, userProducers] of room.producers) {
+        for (const [source, producer] of userProducers) {
+            if (producer.id === producerId) return { userId, source, kind: producer.kind, producer };
+        }
+    }
+    return undefined;
+}
+
+export function findDataProducer(room: Room, dataProducerId: string): { userId?: string; dataProducer: DataProducer } | undefined {
+    for (const [userId, dataProducers] of room.dataProducers) {
+        const dataProducer = dataProducers.get(dataProducerId);
+        if (dataProducer) return { userId, dataProducer };
+    }
+    return undefined;
+}
+
+export function findConsumer(room: Room, socketId: string, consumerId: string): Consumer | undefined {
+    return room.consumers.get(socketId)?.get(consumerId);
+}
+
+// WebRTC consumers of a producer, on any of the room's routers
+export function consumersOfProducer(room: Room, producerId: string): Consumer[] {
+    return [...room.consumers.values()].flatMap(consumers =>
+        [...consumers.values()].filter(consumer => consumer.producerId === producerId)
+    );
+}
+
+/**
+ * Stops recording, restreams, ingests, bots and HLS output, closes the router (and with it every
+ * transport, producer and consumer) and removes the room from the registry.
+ * The room is gone right away; the promise resolves once FFmpeg finalized its
+ * files. With `endHls` (shutdown) the playlists are finished with EXT-X-ENDLIST.
+ */
+export async function destroyRoom(roomId: string, { endHls = false } = {}): Promise<void> {
+    const room = rooms.get(roomId);
+    if (!room) return;
+    room.closed = true;
+    rooms.delete(roomId);
+    cancelIdleTeardown(room);
+
+    const pending: Promise<unknown>[] = [];
+    const recording = room.recording;
+    if (recording) {
+        room.recording = undefined;
+        pending.push(stopRecording(recording)
+            .catch(err => console.error(`[recording] Failed to finalize ${recording.id}:`, err)));
+    }
+    for (const restream of room.restreams.values()) pending.push(stopRestream(restream));
+    room.restreams.clear();
+    for (const ingest of room.ingests.values()) pending.push(stopIngest(ingest));
+    room.ingests.clear();
+    for (const bot of room.bots.values()) pending.push(stopBot(room, bot));
+    room.bots.clear();
+    if (endHls) pending.push(endRoomHls(roomId, room));
+    else closeRoomHls(roomId, room);
+    stopSpeakerTracking(room);
+    closeRoomRouters(room);
+    await Promise.all(pending);
+}
+
+/**
+ * Gives every room whose router was closed by a dying worker a new router.
+ * Transports, producers, ingests, bots and per-producer recorders are gone with the old one;
+ * users, options, a running composite recording and restreams are kept.
+ * Clients of `recovered` rooms have to rebuild their transports; rooms that
+ * could not get a new router are destroyed.
+ */
+export async function recoverRooms(deadRouters: Router[]): Promise<{ recovered: string[]; destroyed: string[] }> {
+    const recovered: string[] = [];
+    const destroyed: string[] = [];
+    for (const [roomId, room] of rooms) {
+        if (!room.routers.some(entry => deadRouters.includes(entry.router))) continue;
+        closeRoomHls(roomId, room);
+        stopSpeakerTracking(room);
+        // Losing any router resets the whole room: consumers depend on the origin, producers on pipes
+        closeRoomRouters(room);
+        room.consumerRouters.clear();
+        room.consumers.clear();
+        room.transports.clear();
+        room.producers.clear();
+        room.pausedProducers.clear();
+        room.dataProducers.clear();
+        room.dataConsumers.clear();
+        room.systemChannel = undefined;
+        for (const ingest of room.ingests.values()) stopIngest(ingest);
+        room.ingests.clear();
+        for (const bot of room.bots.values()) stopBot(room, bot);
+        room.bots.clear();
+        if (room.recording) await stopProducerRecorders(room.recording);
+        try {
+            room.router = await createRouter();
+            room.routers = [createRoomRouter(room.router)];
+        } catch (err) {
+            console.error(`[rooms] Cannot recreate router of room ${roomId}:`, err);
+            destroyRoom(roomId);
+            destroyed.push(roomId);
+            continue;
+        }
+        recovered.push(roomId);
+        // Keeps a running recording (and restreams) going (with the slate until producers return)
+        safeRestartRoomHls(roomId, room);
+    }
+    return { recovered, destroyed };
+}
+
+/**
+ * JSON friendly snapshot of a room for the admin API.
+ */
+export function describeRoom(roomId: string, room: Room) {
+    const transports = [...room.transports.entries()].map(([key, transport]) => {
+        const [userId, kind] = key.split(":");
+        return {
+            id: transport.id,
+            userId,
+            kind,
+            iceState: transport.iceState,
+            dtlsState: transport.dtlsState,
+            closed: transport.closed,
+        };
+    });
+    const producers = [...room.producers.entries()].flatMap(([userId, userProducers]) =>
+        [...userProducers.entries()].map(([source, producer]) => ({
+            id: producer.id,
+            userId,
+            source,
+            kind: producer.kind,
+            paused: room.pausedProducers.has(producer.id),
+            closed: producer.closed,
+        }))
+    );
+    return {
+        roomId,
+        options: room.options,
+        hasPassword: !!room.passwordHash,
+        routerId: room.router.id,
+        routers: room.routers.map(entry => ({
+            id: entry.router.id,
+            consumers: entry.consumers,
+            pipedProducers: entry.pipes.size,
+            users: [...room.consumerRouters.entries()].filter(([, e]) => e === entry).map(([userId]) => userId),
+        })),
+        users: [...room.users],
+        // Users whose socket dropped, kept until config.sessions.graceSeconds pass
+        reconnecting: [...room.users].filter(isReconnecting),
+        transports,
+        producers,
+        activeSpeaker: room.activeSpeaker,
+        hls: {
+            mode: room.hlsMode,
+            layout: room.hlsLayout,
+            hlsDir: room.hlsDir,
+            mixerKey: room.hlsMixerKey,
+            mixer: room.hlsMixer && describeHlsMixer(room.hlsMixer),
+            stats: room.hlsStats,
+            health: room.hlsHealth && describeHlsHealth(room.hlsHealth),
+            packager: room.hlsPackager && {
+                pid: room.hlsPackager.process.pid,
+                port: room.hlsPackager.port,
+                startedAt: new Date(room.hlsPackager.startedAt).toISOString(),
+                canvas: room.hlsPackager.canvas,
+                renditions: room.hlsPackager.renditions.map(r => r.name),
+            },
+            slots: [...(room.hlsSlots?.entries() ?? [])].map(([producerId, slot]) => ({
+                producerId,
+                userId: slot.userId,
+                source: slot.source,
+                ports: slot.ports,
+            })),
+        },
+        recording: room.recording && {
+            id: room.recording.id,
+            startedAt: new Date(room.recording.startedAt).toISOString(),
+            ...room.recording.options,
+        },
+        restreams: [...room.restreams.values()].map(describeRestream),
+        ingests: [...room.ingests.values()].map(ingest => describeIngest(ingest)),
+        bots: [...room.bots.values()].map(bot => describeBot(room, bot)),
+    };
+}
@@ -0,0 +1,37 @@
+import type { Consumer, RtpCapabilities } from "mediasoup/types";
+import getPort, { portNumbers } from "get-port";
+
+export async function getEvenPort(range: { startPort: number; endPort: number }, exclude: Set<number> = new Set()): Promise<number> {
+    while (true) {
+        const port = await getPort({ port: portNumbers(range.startPort, range.endPort), exclude });
+        if (port % 2 === 0 && !exclude.has(port + 1)) return port;
+        exclude.add(port);
+    }
+}
+
+/**
+ * Router capabilities without RTX, for consumers on PlainTransports read by
+ * FFmpeg: it never sends NACKs and would only see an undecodable extra stream.
+ */
+export function plainRtpCapabilities(capabilities: RtpCapabilities): RtpCapabilities {
+    return {
+        ...capabilities,
+        codecs: capabilities.codecs?.filter(codec => !codec.mimeType.toLowerCase().endsWith("/rtx")),
+    };
+}
+
+export async function requestKeyFrameWithRetry(
+    consumer: Consumer,
+    maxRetries = 5,
+    intervalMs = 500
+): Promise<void> {
+    for (let i = 0; i < maxRetries; i++) {
+        try {
+            await consumer.requestKeyFrame();
+            console.log(`[HLS] Requested keyframe (attempt ${i + 1}) for consumer ${consumer.id}`);
+        } catch (err) {
+            console.warn(`[HLS] Keyframe request failed:`, err);
+        }
+        await new Promise(res => setTimeout(res, intervalMs));
+    }
+}
@@ -0,0 +1,257 @@
+import type {
+    DtlsParameters,
+    IceCandidate,
+    IceParameters,
+    RtpCodecParameters,
+    RtpHeaderExtensionParameters,
+} from "mediasoup/types";
+
+// --- SDP (offer/answer for WHIP/WHEP) ---
+// Just enough of RFC 8866 / JSEP to read a browser's or encoder's offer and
+// write an ICE-lite answer for a mediasoup WebRtcTransport.
+
+// --- Type Declarations ---
+export type SdpDirection = "sendrecv" | "sendonly" | "recvonly" | "inactive";
+
+export interface SdpCodec {
+    payloadType: number;
+    name: string;
+    clockRate: number;
+    channels?: number;
+    parameters: Record<string, string | number>;
+    rtcpFeedback: Array<{ type: string; parameter?: string }>;
+}
+
+export interface SdpMedia {
+    kind: string;
+    port: number;
+    protocol: string;
+    formats: string[];
+    mid?: string;
+    direction: SdpDirection;
+    iceUfrag?: string;
+    icePwd?: string;
+    fingerprint?: { algorithm: string; value: string };
+    setup?: string;
+    codecs: SdpCodec[];
+    extensions: Array<{ id: number; uri: string }>;
+    ssrcs: Array<{ ssrc: number; attribute: string; value?: string }>;
+    ssrcGroups: Array<{ semantics: string; ssrcs: number[] }>;
+    rids: Array<{ id: string; direction: string }>;
+}
+
+export interface SdpOffer {
+    media: SdpMedia[];
+}
+
+export interface AnswerMedia {
+    // The offered m-section this one answers
+    offer: SdpMedia;
+    // Undefined rejects the m-section (port 0)
+    codecs?: RtpCodecParameters[];
+    headerExtensions?: RtpHeaderExtensionParameters[];
+    direction?: SdpDirection;
+    // Sending side only (WHEP)
+    ssrc?: { ssrc: number; rtxSsrc?: number; cname: string; msid: string };
+}
+
+// Values that are numbers in mediasoup's codec parameters, everything else stays a string
+const NUMERIC_PARAMETER = /^\d+$/;
+const STRING_PARAMETERS = ["profile-level-id"];
+const DIRECTIONS: SdpDirection[] = ["sendrecv", "sendonly", "recvonly", "inactive"];
+
+// --- Parsing ---
+
+function parseParameters(value: string): Record<string, string | number> {
+    const parameters: Record<string, string | number> = {};
+    for (const pair of value.split(";")) {
+        const [key, ...rest] = pair.trim().split("=");
+        if (!key) continue;
+        const raw = rest.join("=");
+        parameters[key] = NUMERIC_PARAMETER.test(raw) && !STRING_PARAMETERS.includes(key) ? Number(raw) : raw;
+    }
+    return parameters;
+}
+
+/**
+ * Parses the parts of an offer the WHIP/WHEP endpoints need. Session level
+ * ICE/DTLS attributes are copied into every m-section that has none.
+ */
+export function parseSdp(sdp: string): SdpOffer {
+    const session: Partial<SdpMedia> = {};
+    const media: SdpMedia[] = [];
+    let current: Partial<SdpMedia> = session;
+
+    for (const line of sdp.split(/\r?\n/)) {
+        const type = line[0];
+        const value = line.slice(2);
+        if (type === "m") {
+            const [kind, port, protocol, ...formats] = value.split(" ");
+            const section: SdpMedia = {
+                kind, port: Number(port), protocol, formats,
+                direction: "sendrecv", codecs: [], extensions: [], ssrcs: [], ssrcGroups: [], rids: [],
+            };
+            media.push(section);
+            current = section;
+            continue;
+        }
+        if (type !== "a") continue;
+
+        const colon = value.indexOf(":");
+        const name = colon < 0 ? value : value.slice(0, colon);
+        const arg = colon < 0 ? "" : value.slice(colon + 1);
+        const section = current as SdpMedia;
+        if (DIRECTIONS.includes(name as SdpDirection)) current.direction = name as SdpDirection;
+        else if (name === "mid") current.mid = arg;
+        else if (name === "ice-ufrag") current.iceUfrag = arg;
+        else if (name === "ice-pwd") current.icePwd = arg;
+        else if (name === "setup") current.setup = arg;
+        else if (name === "fingerprint") {
+            const [algorithm, fingerprint] = arg.split(" ");
+            current.fingerprint = { algorithm: algorithm.toLowerCase(), value: fingerprint };
+        } else if (current === session) {
+            continue;
+        } else if (name === "rtpmap") {
+            const [pt, encoding] = arg.split(" ");
+            const [codecName, clockRate, channels] = encoding.split("/");
+            section.codecs.push({
+                payloadType: Number(pt),
+                name: codecName,
+                clockRate: Number(clockRate),
+                channels: channels ? Number(channels) : undefined,
+                parameters: {},
+                rtcpFeedback: [],
+            });
+        } else if (name === "fmtp") {
+            const space = arg.indexOf(" ");
+            const codec = section.codecs.find(c => c.payloadType === Number(arg.slice(0, space)));
+            if (codec) codec.parameters = parseParameters(arg.slice(space + 1));
+        } else if (name === "rtcp-fb") {
+            const [pt, fbType, parameter] = arg.split(" ");
+            const codecs = pt === "*" ? section.codecs : section.codecs.filter(c => c.payloadType === Number(pt));
+            for (const codec of codecs) codec.rtcpFeedback.push({ type: fbType, parameter });
+        } else if (name === "extmap") {
+            const [id, uri] = arg.split(" ");
+            // "id/direction"
+            section.extensions.push({ id: parseInt(id, 10), uri });
+        } else if (name === "ssrc") {
+            // "ssrc attribute[:value]", the value may contain spaces (msid)
+            const space = arg.indexOf(" ");
+            const ssrc = space < 0 ? arg : arg.slice(0, space);
+            const [attrName, ...attrValue] = (space < 0 ? "" : arg.slice(space + 1)).split(":");
+            section.ssrcs.push({ ssrc: Number(ssrc), attribute: attrName, value: attrValue.join(":") || undefined });
+        } else if (name === "ssrc-group") {
+            const [semantics, ...ssrcs] = arg.split(" ");
+            section.ssrcGroups.push({ semantics, ssrcs: ssrcs.map(Number) });
+        } else if (name === "rid") {
+            const [id, direction] = arg.split(" ");
+            section.rids.push({ id, direction });
+        }
+    }
+
+    for (const section of media) {
+        section.iceUfrag ??= session.iceUfrag;
+        section.icePwd ??= session.icePwd;
+        section.fingerprint ??= session.fingerprint;
+        section.setup ??= session.setup;
+    }
+    return { media };
+}
+
+/**
+ * `a=ice-ufrag` / `a=ice-pwd` of a trickle-ice-sdpfrag (WHIP/WHEP PATCH).
+ */
+export function parseIceFragment(fragment: string): { iceUfrag?: string; icePwd?: string } {
+    const result: { iceUfrag?: string; icePwd?: string } = {};
+    for (const line of fragment.split(/\r?\n/)) {
+        if (line.startsWith("a=ice-ufrag:")) result.iceUfrag = line.slice("a=ice-ufrag:".length);
+        if (line.startsWith("a=ice-pwd:")) result.icePwd = line.slice("a=ice-pwd:".length);
+    }
+    return result;
+}
+
+// --- Writing ---
+
+// rtpmap/fmtp/rtcp-fb of one codec; also used for the FFmpeg input SDPs (launchFfmpeg.ts)
+export function codecLines(codec: RtpCodecParameters): string[] {
+    const [, name] = codec.mimeType.split("/");
+    const lines = [`a=rtpmap:${codec.payloadType} ${name}/${codec.clockRate}${codec.channels && codec.channels > 1 ? `/${codec.channels}` : ""}`];
+    const parameters = Object.entries(codec.parameters ?? {});
+    if (parameters.length) {
+        lines.push(`a=fmtp:${codec.payloadType} ${parameters.map(([key, value]) => `${key}=${value}`).join(";")}`);
+    }
+    for (const fb of codec.rtcpFeedback ?? []) {
+        lines.push(`a=rtcp-fb:${codec.payloadType} ${fb.type}${fb.parameter ? ` ${fb.parameter}` : ""}`);
+    }
+    return lines;
+}
+
+export function candidateLines(iceCandidates: IceCandidate[]): string[] {
+    return [
+        ...iceCandidates.map(c =>
+            `a=candidate:${c.foundation} 1 ${c.protocol} ${c.priority} ${c.address} ${c.port} typ ${c.type}` +
+            (c.tcpType ? ` tcptype ${c.tcpType}` : "")
+        ),
+        "a=end-of-candidates",
+    ];
+}
+
+/**
+ * ICE-lite answer for a WebRtcTransport: one m-section per offered one, in
+ * offer order, all bundled on the transport's single ICE/DTLS session.
+ */
+export function buildAnswer(opts: {
+    iceParameters: IceParameters;
+    iceCandidates: IceCandidate[];
+    dtlsParameters: DtlsParameters;
+    // Our DTLS role in SDP terms: "passive" (DTLS server) or "active"
+    setup: "active" | "passive";
+    media: AnswerMedia[];
+}): string {
+    const fingerprint = opts.dtlsParameters.fingerprints.find(f => f.algorithm === "sha-256") ?? opts.dtlsParameters.fingerprints[0];
+    const accepted = opts.media.filter(m => m.codecs && m.offer.mid !== undefined);
+
+    const lines = [
+        "v=0",
+        `o=- ${Date.now()} 2 IN IP4 127.0.0.1`,
+        "s=-",
+        "t=0 0",
+        "a=ice-lite",
+        `a=group:BUNDLE ${accepted.map(m => m.offer.mid).join(" ")}`,
+        "a=msid-semantic: WMS *",
+    ];
+
+    for (const m of opts.media) {
+        if (!m.codecs) {
+            lines.push(`m=${m.offer.kind} 0 ${m.offer.protocol} ${m.offer.formats.join(" ")}`, "c=IN IP4 0.0.0.0");
+            if (m.offer.mid !== undefined) lines.push(`a=mid:${m.offer.mid}`);
+            lines.push("a=inactive");
+            continue;
+        }
+        lines.push(
+            `m=${m.offer.kind} 9 UDP/TLS/RTP/SAVPF ${m.codecs.map(c => c.payloadType).join(" ")}`,
+            "c=IN IP4 0.0.0.0",
+            "a=rtcp:9 IN IP4 0.0.0.0",
+            `a=ice-ufrag:${opts.iceParameters.usernameFragment}`,
+            `a=ice-pwd:${opts.iceParameters.password}`,
+            `a=fingerprint:${fingerprint.algorithm} ${fingerprint.value}`,
+            `a=setup:${opts.setup}`,
+            `a=mid:${m.offer.mid}`,
+            `a=${m.direction ?? "sendrecv"}`,
+            "a=rtcp-mux",
+            "a=rtcp-rsize",
+            ...(m.headerExtensions ?? []).map(ext => `a=extmap:${ext.id} ${ext.uri}`),
+            ...m.codecs.flatMap(codecLines),
+        );
+        if (m.ssrc) {
+            const { ssrc, rtxSsrc, cname, msid } = m.ssrc;
+            lines.push(`a=msid:${msid}`);
+            if (rtxSsrc) lines.push(`a=ssrc-group:FID ${ssrc} ${rtxSsrc}`);
+            for (const s of rtxSsrc ? [ssrc, rtxSsrc] : [ssrc]) {
+                lines.push(`a=ssrc:${s} cname:${cname}`, `a=ssrc:${s} msid:${msid}`);
+            }
+        }
+        lines.push(...candidateLines(opts.iceCandidates));
+    }
+    return lines.join("\r\n") + "\r\n";
+}
@@ -0,0 +1,122 @@
+import crypto from "crypto";
+import type { Socket } from "socket.io";
+import { config } from "../config/mediasoup.config.js";
+import { AuthUser, isAuthEnabled } from "./auth.js";
+import type { ErrorCode } from "../protocol/index.js";
+
+// --- Type Declarations ---
+// A client's membership across reconnects. The participant id is the id of the
+// socket that joined first: rooms key users, transports, producers and consumers
+// by it, so a new socket can take them over (resumeSession).
+export type Session = {
+    participantId: string;
+    // Handed to the client by createRoom/joinRoom/resumeSession, replaced on every resume
+    token: string;
+    user: AuthUser;
+    // Socket currently attached, undefined during the grace period
+    socketId?: string;
+    disconnectedAt?: number;
+    graceTimer?: NodeJS.Timeout;
+};
+
+// --- State ---
+const sessionsByParticipant: Map<string, Session> = new Map();
+const sessionsByToken: Map<string, Session> = new Map();
+
+// --- Helpers ---
+function generateToken(): string {
+    return crypto.randomBytes(24).toString("base64url");
+}
+
+/**
+ * Id the socket's user has in its rooms: the socket id, or after resumeSession
+ * the id of the socket that joined first. Sockets also join a Socket.IO room of
+ * that name, so `nsp.to(participantId)` reaches the current one.
+ */
+export function participantId(socket: Socket): string {
+    return socket.data.participantId ?? socket.id;
+}
+
+export function getSession(participantId: string): Session | undefined {
+    return sessionsByParticipant.get(participantId);
+}
+
+/**
+ * Session of the socket's participant, opened on its first createRoom/joinRoom.
+ */
+export function ensureSession(socket: Socket, user: AuthUser): Session {
+    const id = participantId(socket);
+    let session = sessionsByParticipant.get(id);
+    if (!session) {
+        session = { participantId: id, token: generateToken(), user, socketId: socket.id };
+        sessionsByParticipant.set(id, session);
+        sessionsByToken.set(session.token, session);
+    }
+    return session;
+}
+
+/**
+ * The socket dropped: keeps the session (and with it the participant's media)
+ * for config.sessions.graceSeconds, then ends it and calls `onExpire`.
+ * Returns false without a grace period; the caller cleans up at once.
+ */
+export function suspendSession(session: Session, onExpire: () => void): boolean {
+    const { graceSeconds } = config.sessions;
+    if (graceSeconds <= 0) return false;
+    session.socketId = undefined;
+    session.disconnectedAt = Date.now();
+    session.graceTimer = setTimeout(() => {
+        endSession(session);
+        onExpire();
+    }, graceSeconds * 1000);
+    return true;
+}
+
+/**
+ * Attaches `socket` to the session of `token` and issues a new token. A socket
+ * still attached to it (the server has not noticed the drop yet) is disconnected
+ * and marked `superseded`, so its disconnect handler leaves the media alone.
+ * With auth, the new socket must have authenticated as the same user.
+ */
+export function resumeSession(socket: Socket, token: unknown, user: AuthUser): Session | { error: string; code: ErrorCode } {
+    const session = typeof token === "string" ? sessionsByToken.get(token) : undefined;
+    if (!session) return { error: "Session not found or expired", code: "sessionNotFound" };
+    if (isAuthEnabled() && user.userId !== session.user.userId) return { error: "Session belongs to another user", code: "forbidden" };
+    const current = participantId(socket);
+    if (current !== session.participantId && sessionsByParticipant.has(current)) {
+        return { error: "Socket already joined a room as another participant", code: "conflict" };
+    }
+
+    const previous = session.socketId !== undefined ? socket.nsp.sockets.get(session.socketId) : undefined;
+    if (previous && previous !== socket) {
+        previous.data.superseded = true;
+        previous.disconnect(true);
+    }
+    clearTimeout(session.graceTimer);
+    session.graceTimer = undefined;
+    session.disconnectedAt = undefined;
+    session.socketId = socket.id;
+    // A fresh token (role changes included) replaces the one from the first join
+    if (isAuthEnabled()) session.user = user;
+    sessionsByToken.delete(session.token);
+    session.token = generateToken();
+    sessionsByToken.set(session.token, session);
+
+    socket.data.participantId = session.participantId;
+    socket.data.user = session.user;
+    socket.join(session.participantId);
+    return session;
+}
+
+export function endSession(session: Session): void {
+    clearTimeout(session.graceTimer);
+    sessionsByParticipant.delete(session.participantId);
+    sessionsByToken.delete(session.token);
+}
+
+/**
+ * Whether the participant's socket dropped and its session waits for a resume.
+ */
+export function isReconnecting(participantId: string): boolean {
+    return sessionsByParticipant.get(participantId)?.disconnectedAt !== undefined;
+}
@@ -0,0 +1,69 @@
+import { config } from "../config/mediasoup.config.js";
+import { cleanHlsRoot, killOrphanedFfmpeg } from "./launchFfmpeg.js";
+import { listRooms, setDraining } from "./rooms.js";
+import { closeMediasoupWorkers } from "./worker.js";
+import { closeRoom, Server } from "./ws.js";
+
+// --- State ---
+let io: Server | undefined;
+let shuttingDown = false;
+
+export function isShuttingDown(): boolean {
+    return shuttingDown;
+}
+
+/**
+ * Startup: clears what a previous run may have left behind (it may have
+ * crashed): orphaned FFmpeg processes and the HLS output of its rooms.
+ */
+export function cleanupPreviousRun(): void {
+    const killed = killOrphanedFfmpeg();
+    const dirs = cleanHlsRoot();
+    if (killed || dirs) console.log(`[shutdown] Cleaned up ${killed} orphaned FFmpeg processes and ${dirs} HLS directories`);
+}
+
+/**
+ * Shuts down on SIGTERM (and SIGINT, which pm2 sends); a second signal exits at once.
+ */
+export function initShutdown(ioServer: Server): void {
+    io = ioServer;
+    for (const signal of ["SIGTERM", "SIGINT"] as const) {
+        process.on(signal, () => {
+            if (shuttingDown) {
+                console.warn(`[shutdown] ${signal} again, exiting now`);
+                process.exit(1);
+            }
+            shutdown(`Received ${signal}`);
+        });
+    }
+}
+
+/**
+ * 1. no new rooms (drain), 2. "serverShuttingDown" with the deadline to every
+ * client, 3. at the deadline every room is closed: HLS playlists are finished
+ * (EXT-X-ENDLIST), FFmpeg is stopped gracefully, recordings are finalized,
+ * 4. workers are closed and the process exits. Gives up after
+ * config.shutdown.timeoutSeconds.
+ */
+export async function shutdown(reason: string, noticeSeconds: number = config.shutdown.noticeSeconds): Promise<void> {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    setDraining(true);
+    const deadline = Date.now() + noticeSeconds * 1000;
+    setTimeout(() => {
+        console.error("[shutdown] Timed out, exiting");
+        process.exit(1);
+    }, (noticeSeconds + config.shutdown.timeoutSeconds) * 1000).unref();
+
+    console.log(`[shutdown] ${reason}: closing ${listRooms().length} rooms in ${noticeSeconds} s`);
+    io?.emit("serverShuttingDown", { reason, deadline: new Date(deadline).toISOString() });
+    await new Promise(resolve => setTimeout(resolve, noticeSeconds * 1000));
+
+    await Promise.all(listRooms().map(([roomId]) =>
+        io ? closeRoom(io, roomId, "Server shutting down", { endHls: true }) : Promise.resolve()
+    ));
+    closeMediasoupWorkers();
+    io?.close();
+    console.log("[shutdown] Done");
+    process.exit(0);
+}
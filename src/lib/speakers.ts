@@ -0,0 +1,87 @@
+import type { Producer } from "mediasoup/types";
+import { config } from "../config/mediasoup.config.js";
+import { safeRestartRoomHls } from "./hlsPipeline.js";
+import { findProducer, Room, SpeakerObservers } from "./rooms.js";
+import type { AudioLevel } from "../protocol/index.js";
+
+// --- Type Declarations ---
+export type { AudioLevel } from "../protocol/index.js";
+
+export interface SpeakerEvents {
+    // Loudest producers above config.speakers.threshold (dBvo, -127..0); empty on silence
+    onAudioLevels(levels: AudioLevel[]): void;
+    onActiveSpeaker(speaker: { userId: string; producerId: string }): void;
+}
+
+// --- Observers ---
+
+async function createSpeakerObservers(roomId: string, room: Room, events: SpeakerEvents): Promise<SpeakerObservers> {
+    const { audioLevelInterval, threshold, maxEntries, activeSpeakerInterval } = config.speakers;
+    const audioLevel = await room.router.createAudioLevelObserver({ interval: audioLevelInterval, threshold, maxEntries });
+    const activeSpeaker = await room.router.createActiveSpeakerObserver({ interval: activeSpeakerInterval });
+
+    audioLevel.on("volumes", (volumes) => {
+        events.onAudioLevels(volumes.flatMap(({ producer, volume }) => {
+            const userId = findProducer(room, producer.id)?.userId;
+            return userId ? [{ userId, producerId: producer.id, volume }] : [];
+        }));
+    });
+    audioLevel.on("silence", () => events.onAudioLevels([]));
+
+    activeSpeaker.on("dominantspeaker", ({ producer }) => {
+        const userId = findProducer(room, producer.id)?.userId;
+        if (!userId || userId === room.activeSpeaker) return;
+        room.activeSpeaker = userId;
+        events.onActiveSpeaker({ userId, producerId: producer.id });
+        scheduleHlsSpeaker(roomId, room);
+    });
+
+    return { audioLevel, activeSpeaker };
+}
+
+/**
+ * Adds an audio producer to the room's observers, creating them on first use
+ * (and again after the router was replaced).
+ */
+export async function observeSpeaker(roomId: string, room: Room, producer: Producer, events: SpeakerEvents): Promise<void> {
+    if (producer.kind !== "audio") return;
+    let observers = room.speakerObservers ? await room.speakerObservers : undefined;
+    if (!observers || observers.audioLevel.closed) {
+        const creating = createSpeakerObservers(roomId, room, events).catch(err => {
+            // Not cached: the next producer tries again
+            if (room.speakerObservers === creating) room.speakerObservers = undefined;
+            throw err;
+        });
+        room.speakerObservers = creating;
+        observers = await creating;
+    }
+    if (producer.closed) return;
+    // Closed producers leave the observers on their own
+    await Promise.all([
+        observers.audioLevel.addProducer({ producerId: producer.id }),
+        observers.activeSpeaker.addProducer({ producerId: producer.id }),
+    ]);
+}
+
+/**
+ * The speaker layout focuses room.hlsSpeaker, which follows the active speaker
+ * only after they kept the floor for config.speakers.hlsSwitchDelay ms, so the
+ * tiles (and their decoders) are not swapped on every interjection.
+ */
+function scheduleHlsSpeaker(roomId: string, room: Room): void {
+    if (room.hlsSpeakerTimer) clearTimeout(room.hlsSpeakerTimer);
+    room.hlsSpeakerTimer = setTimeout(() => {
+        room.hlsSpeakerTimer = undefined;
+        if (room.closed || room.hlsSpeaker === room.activeSpeaker) return;
+        room.hlsSpeaker = room.activeSpeaker;
+        if (room.hlsLayout.mode === "speaker") safeRestartRoomHls(roomId, room);
+    }, config.speakers.hlsSwitchDelay);
+}
+
+export function stopSpeakerTracking(room: Room): void {
+    if (room.hlsSpeakerTimer) clearTimeout(room.hlsSpeakerTimer);
+    room.hlsSpeakerTimer = undefined;
+    room.speakerObservers = undefined;
+    room.activeSpeaker = undefined;
+    room.hlsSpeaker = undefined;
+}
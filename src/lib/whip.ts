@@ -0,0 +1,382 @@
+import type {
+    Consumer,
+    DtlsParameters,
+    FingerprintAlgorithm,
+    MediaKind,
+    Producer,
+    Router,
+    RtpCapabilities,
+    RtpCodecParameters,
+    RtpEncodingParameters,
+    RtpHeaderExtensionParameters,
+    RtpHeaderExtensionUri,
+    WebRtcTransport,
+} from "mediasoup/types";
+import crypto from "crypto";
+import type { AuthUser } from "./auth.js";
+import { adaptConsumerLayers } from "./layers.js";
+import { createWebRtcTransport, ensureProducerPiped, pickConsumerRouter, trackConsumer } from "./roomRouters.js";
+import { cancelIdleTeardown, ProducerSource, Room, transportKey, TransportKind } from "./rooms.js";
+import { AnswerMedia, buildAnswer, candidateLines, parseIceFragment, parseSdp, SdpCodec, SdpMedia } from "./sdp.js";
+import { leaveRoom, registerProducer, Server, syncConsumerPaused } from "./ws.js";
+
+// --- WHIP (RFC 9725) / WHEP sessions ---
+// A session is a room participant with a synthetic id (whip_... / whep_...):
+// it is in room.users, owns one WebRtcTransport under transportKey(id, kind)
+// and its producers/consumers are registered like a socket's. DELETE is leaveRoom.
+
+// --- Type Declarations ---
+export type SessionResult = { sessionId: string; answer: string } | { status: number; error: string };
+
+// What the offer's m-sections have to allow us to do with them
+const WHIP_DIRECTIONS = ["sendonly", "sendrecv"];
+const WHEP_DIRECTIONS = ["recvonly", "sendrecv"];
+
+// --- Helpers ---
+function generateSessionId(kind: "whip" | "whep"): string {
+    // The session URL is all a client needs for PATCH/DELETE: not guessable
+    return `${kind}_` + crypto.randomBytes(12).toString("hex");
+}
+
+function isMediaSection(section: SdpMedia): section is SdpMedia & { kind: MediaKind } {
+    return (section.kind === "audio" || section.kind === "video") && section.port !== 0 && section.mid !== undefined;
+}
+
+// What mediasoup accepts as a DTLS fingerprint algorithm
+const FINGERPRINT_ALGORITHMS: FingerprintAlgorithm[] = ["sha-1", "sha-224", "sha-256", "sha-384", "sha-512"];
+
+/**
+ * Our DTLS side from the offer's `a=setup`: we answer "passive" (DTLS server)
+ * unless the offerer insists on being passive itself.
+ */
+function remoteDtls(offer: SdpMedia[]): { dtlsParameters: DtlsParameters; setup: "active" | "passive" } | { error: string } {
+    const section = offer.find(s => s.fingerprint);
+    const fingerprint = section?.fingerprint;
+    if (!section || !fingerprint) return { error: "Offer has no DTLS fingerprint" };
+    // parseSdp lowercases the algorithm
+    const algorithm = FINGERPRINT_ALGORITHMS.find(a => a === fingerprint.algorithm);
+    if (!algorithm) return { error: `Unsupported DTLS fingerprint algorithm "${fingerprint.algorithm}"` };
+    const remotePassive = section.setup === "passive";
+    return {
+        dtlsParameters: {
+            role: remotePassive ? "server" : "client",
+            fingerprints: [{ algorithm, value: fingerprint.value }],
+        },
+        setup: remotePassive ? "active" : "passive",
+    };
+}
+
+function codecParameters(kind: MediaKind, codec: SdpCodec, rtcpFeedback = codec.rtcpFeedback): RtpCodecParameters {
+    return {
+        mimeType: `${kind}/${codec.name}`,
+        payloadType: codec.payloadType,
+        clockRate: codec.clockRate,
+        channels: codec.channels,
+        parameters: codec.parameters,
+        rtcpFeedback,
+    };
+}
+
+/**
+ * First offered codec the router supports (same mime type, H264 also the same
+ * profile and packetization mode), with its RTX codec if offered.
+ */
+function selectCodecs(router: Router, kind: MediaKind, section: SdpMedia): RtpCodecParameters[] | undefined {
+    for (const codec of section.codecs) {
+        const mimeType = `${kind}/${codec.name}`.toLowerCase();
+        const supported = router.rtpCapabilities.codecs?.find(cap => {
+            if (cap.kind !== kind || cap.mimeType.toLowerCase() !== mimeType || cap.clockRate !== codec.clockRate) return false;
+            if (mimeType !== "video/h264") return true;
+            const profile = (parameters: Record<string, unknown> | undefined) =>
+                String(parameters?.["profile-level-id"] ?? "42001f").slice(0, 4).toLowerCase();
+            return (cap.parameters?.["packetization-mode"] ?? 0) === (codec.parameters["packetization-mode"] ?? 0) &&
+                profile(cap.parameters) === profile(codec.parameters);
+        });
+        if (!supported || mimeType.endsWith("/rtx")) continue;
+
+        // Only the feedback mediasoup implements for this codec
+        const rtcpFeedback = codec.rtcpFeedback.filter(fb =>
+            supported.rtcpFeedback?.some(s => s.type === fb.type && (s.parameter ?? "") === (fb.parameter ?? ""))
+        );
+        const rtx = section.codecs.find(c => c.name.toLowerCase() === "rtx" && c.parameters.apt === codec.payloadType);
+        return [codecParameters(kind, codec, rtcpFeedback), ...(rtx ? [codecParameters(kind, rtx, [])] : [])];
+    }
+    return undefined;
+}
+
+function selectHeaderExtensions(router: Router, kind: MediaKind, section: SdpMedia): RtpHeaderExtensionParameters[] {
+    return section.extensions
+        .filter(ext => router.rtpCapabilities.headerExtensions?.some(h => h.kind === kind && h.uri === ext.uri))
+        .map(ext => ({ uri: ext.uri as RtpHeaderExtensionUri, id: ext.id }));
+}
+
+/**
+ * Encodings of a sending m-section: one per RID (simulcast), per SIM group
+ * SSRC (legacy simulcast) or its single SSRC, with RTX from the FID groups.
+ */
+function offeredEncodings(section: SdpMedia): RtpEncodingParameters[] {
+    const sendRids = section.rids.filter(rid => rid.direction === "send");
+    if (sendRids.length) return sendRids.map(rid => ({ rid: rid.id }));
+
+    const fid = section.ssrcGroups.filter(group => group.semantics === "FID");
+    const rtxFor = (ssrc: number) => fid.find(group => group.ssrcs[0] === ssrc)?.ssrcs[1];
+    const sim = section.ssrcGroups.find(group => group.semantics === "SIM");
+    const primaries = sim?.ssrcs ??
+        [...new Set(section.ssrcs.map(s => s.ssrc))].filter(ssrc => !fid.some(group => group.ssrcs[1] === ssrc)).slice(0, 1);
+    // No SSRC at all: mediasoup matches the stream by its MID
+    if (!primaries.length) return [{}];
+    return primaries.map(ssrc => {
+        const rtx = rtxFor(ssrc);
+        return rtx ? { ssrc, rtx: { ssrc: rtx } } : { ssrc };
+    });
+}
+
+// Consumer side: what the offerer can receive in this m-section
+function offeredCapabilities(kind: MediaKind, section: SdpMedia): RtpCapabilities {
+    return {
+        codecs: section.codecs.map(codec => ({
+            kind,
+            mimeType: `${kind}/${codec.name}`,
+            preferredPayloadType: codec.payloadType,
+            clockRate: codec.clockRate,
+            channels: codec.channels,
+            parameters: codec.parameters,
+            rtcpFeedback: codec.rtcpFeedback,
+        })),
+        headerExtensions: section.extensions.map(ext => ({
+            kind,
+            uri: ext.uri as RtpHeaderExtensionUri,
+            preferredId: ext.id,
+            direction: "sendrecv" as const,
+        })),
+    };
+}
+
+/**
+ * Registers the session's transport in the room and tears the session down
+ * when DTLS fails or closes (the client vanished without DELETE).
+ */
+function attachSession(
+    io: Server,
+    roomId: string,
+    room: Room,
+    sessionId: string,
+    kind: TransportKind,
+    transport: WebRtcTransport,
+    remoteIceUfrag?: string
+): void {
+    cancelIdleTeardown(room);
+    room.users.add(sessionId);
+    room.transports.set(transportKey(sessionId, kind), transport);
+    transport.appData.remoteIceUfrag = remoteIceUfrag;
+    transport.on("dtlsstatechange", (state) => {
+        if ((state === "failed" || state === "closed") && room.users.has(sessionId)) leaveRoom(io, roomId, sessionId);
+    });
+}
+
+function checkCapacity(room: Room, publisher: boolean): { status: number; error: string } | undefined {
+    const { maxParticipants, maxPublishers } = room.options;
+    if (maxParticipants !== undefined && room.users.size >= maxParticipants) return { status: 403, error: "Room is full" };
+    if (publisher && maxPublishers !== undefined && room.producers.size >= maxPublishers) {
+        return { status: 403, error: "Publisher limit reached" };
+    }
+    return undefined;
+}
+
+// --- Sessions ---
+
+/**
+ * WHIP: publishes the offer's audio/video as a new participant on the origin
+ * router (first audio section as "mic", first video section as "webcam").
+ */
+export async function createWhipSession(io: Server, roomId: string, room: Room, offerSdp: string, user: AuthUser): Promise<SessionResult> {
+    const { media } = parseSdp(offerSdp);
+    const dtls = remoteDtls(media);
+    if ("error" in dtls) return { status: 400, error: dtls.error };
+    const capacity = checkCapacity(room, true);
+    if (capacity) return capacity;
+
+    const sessionId = generateSessionId("whip");
+    const transport = await createWebRtcTransport(room.router);
+    attachSession(io, roomId, room, sessionId, "producer", transport, media.find(s => s.iceUfrag)?.iceUfrag);
+    try {
+        await transport.connect({ dtlsParameters: dtls.dtlsParameters });
+        const participant: AuthUser = { userId: sessionId, name: user.name, role: user.role };
+        const used = new Set<ProducerSource>();
+        const answerMedia: AnswerMedia[] = [];
+        for (const section of media) {
+            const source: ProducerSource | undefined = section.kind === "audio" ? "mic" : section.kind === "video" ? "webcam" : undefined;
+            const codecs = isMediaSection(section) && WHIP_DIRECTIONS.includes(section.direction) && source && !used.has(source)
+                ? selectCodecs(room.router, section.kind, section)
+                : undefined;
+            if (!codecs || !source || !isMediaSection(section)) {
+                answerMedia.push({ offer: section });
+                continue;
+            }
+            const headerExtensions = selectHeaderExtensions(room.router, section.kind, section);
+            let producer: Producer;
+            try {
+                producer = await transport.produce({
+                    kind: section.kind,
+                    rtpParameters: {
+                        mid: section.mid,
+                        codecs,
+                        headerExtensions,
+                        encodings: offeredEncodings(section),
+                        rtcp: { cname: section.ssrcs.find(s => s.attribute === "cname")?.value, reducedSize: true },
+                    },
+                    appData: { source, userId: sessionId },
+                });
+            } catch (err) {
+                console.warn(`[whip] Cannot produce m-section ${section.mid}:`, err);
+                answerMedia.push({ offer: section });
+                continue;
+            }
+            used.add(source);
+            registerProducer(io, roomId, room, source, producer, participant);
+            answerMedia.push({ offer: section, codecs, headerExtensions, direction: "recvonly" });
+        }
+        if (!used.size) {
+            leaveRoom(io, roomId, sessionId);
+            return { status: 400, error: "Offer has no audio or video the room can receive" };
+        }
+        const answer = buildAnswer({
+            iceParameters: transport.iceParameters,
+            iceCandidates: transport.iceCandidates,
+            dtlsParameters: transport.dtlsParameters,
+            setup: dtls.setup,
+            media: answerMedia,
+        });
+        return { sessionId, answer };
+    } catch (err) {
+        leaveRoom(io, roomId, sessionId);
+        throw err;
+    }
+}
+
+/**
+ * WHEP: plays one participant (`userId`, by default the active speaker or the
+ * first publisher): their microphone and their webcam, or their screen share
+ * with `video: "screen"`. Any participant may be picked, as a room member may
+ * consume every producer of the room.
+ */
+export async function createWhepSession(
+    io: Server,
+    roomId: string,
+    room: Room,
+    offerSdp: string,
+    target: { userId?: string; video?: "webcam" | "screen" }
+): Promise<SessionResult> {
+    const { media } = parseSdp(offerSdp);
+    const dtls = remoteDtls(media);
+    if ("error" in dtls) return { status: 400, error: dtls.error };
+    const targetUserId = target.userId ??
+        (room.activeSpeaker && room.producers.has(room.activeSpeaker) ? room.activeSpeaker : room.producers.keys().next().value);
+    const userProducers = targetUserId !== undefined ? room.producers.get(targetUserId) : undefined;
+    if (!targetUserId || !userProducers) return { status: 404, error: "Nobody to play" };
+    const capacity = checkCapacity(room, false);
+    if (capacity) return capacity;
+
+    const sessionId = generateSessionId("whep");
+    const routerEntry = await pickConsumerRouter(room);
+    room.consumerRouters.set(sessionId, routerEntry);
+    const transport = await createWebRtcTransport(routerEntry.router);
+    attachSession(io, roomId, room, sessionId, "consumer", transport, media.find(s => s.iceUfrag)?.iceUfrag);
+    try {
+        await transport.connect({ dtlsParameters: dtls.dtlsParameters });
+        const videoSources: ProducerSource[] = target.video === "screen" ? ["screen", "webcam"] : ["webcam", "screen"];
+        const sources: Record<MediaKind, ProducerSource[]> = { audio: ["mic", "screen-audio"], video: videoSources };
+        const consumers: Consumer[] = [];
+        const answerMedia: AnswerMedia[] = [];
+        const sessionConsumers = new Map<string, Consumer>();
+        room.consumers.set(sessionId, sessionConsumers);
+
+        for (const section of media) {
+            const producer = isMediaSection(section) && WHEP_DIRECTIONS.includes(section.direction)
+                ? sources[section.kind]
+                    .map(source => userProducers.get(source))
+                    .find(p => p && !p.closed && !consumers.some(c => c.producerId === p.id))
+                : undefined;
+            if (!producer || !isMediaSection(section)) {
+                answerMedia.push({ offer: section });
+                continue;
+            }
+            const rtpCapabilities = offeredCapabilities(section.kind, section);
+            await ensureProducerPiped(room, routerEntry, producer.id);
+            if (!routerEntry.router.canConsume({ producerId: producer.id, rtpCapabilities })) {
+                answerMedia.push({ offer: section });
+                continue;
+            }
+            // Resumed once DTLS is up (and only if the producer is not muted)
+            const consumer = await transport.consume({
+                producerId: producer.id,
+                rtpCapabilities,
+                paused: true,
+                mid: section.mid,
+                appData: { clientPaused: false },
+            });
+            trackConsumer(routerEntry, consumer);
+            sessionConsumers.set(consumer.id, consumer);
+            consumer.observer.on("close", () => sessionConsumers.delete(consumer.id));
+            adaptConsumerLayers(consumer, producer.rtpParameters);
+            consumers.push(consumer);
+
+            const encoding = consumer.rtpParameters.encodings?.[0];
+            answerMedia.push({
+                offer: section,
+                codecs: consumer.rtpParameters.codecs,
+                headerExtensions: consumer.rtpParameters.headerExtensions,
+                direction: "sendonly",
+                ssrc: encoding?.ssrc !== undefined ? {
+                    ssrc: encoding.ssrc,
+                    rtxSsrc: encoding.rtx?.ssrc,
+                    cname: consumer.rtpParameters.rtcp?.cname ?? sessionId,
+                    msid: `${targetUserId} ${consumer.id}`,
+                } : undefined,
+            });
+        }
+        if (!consumers.length) {
+            leaveRoom(io, roomId, sessionId);
+            return { status: 400, error: "Offer cannot receive any of the participant's media" };
+        }
+        transport.on("dtlsstatechange", (state) => {
+            if (state !== "connected") return;
+            for (const consumer of consumers) {
+                if (!consumer.closed) syncConsumerPaused(room, consumer).catch(() => { });
+            }
+        });
+        const answer = buildAnswer({
+            iceParameters: transport.iceParameters,
+            iceCandidates: transport.iceCandidates,
+            dtlsParameters: transport.dtlsParameters,
+            setup: dtls.setup,
+            media: answerMedia,
+        });
+        return { sessionId, answer };
+    } catch (err) {
+        leaveRoom(io, roomId, sessionId);
+        throw err;
+    }
+}
+
+/**
+ * PATCH with a trickle-ice-sdpfrag. mediasoup is ICE-lite and learns the
+ * client's candidates from its connectivity checks, so only an ICE restart
+ * (new ufrag) does something: it answers with our new credentials.
+ */
+export async function patchSession(room: Room, sessionId: string, kind: TransportKind, fragment: string): Promise<{ status: number; body?: string; error?: string }> {
+    const transport = room.transports.get(transportKey(sessionId, kind));
+    if (!transport) return { status: 404, error: "Session not found" };
+    const { iceUfrag } = parseIceFragment(fragment);
+    if (!iceUfrag || iceUfrag === transport.appData.remoteIceUfrag) return { status: 204 };
+
+    const iceParameters = await transport.restartIce();
+    transport.appData.remoteIceUfrag = iceUfrag;
+    const body = [
+        "a=ice-lite",
+        `a=ice-ufrag:${iceParameters.usernameFragment}`,
+        `a=ice-pwd:${iceParameters.password}`,
+        ...candidateLines(transport.iceCandidates),
+    ].join("\r\n") + "\r\n";
+    return { status: 200, body };
+}
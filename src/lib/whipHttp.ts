@@ -0,0 +1,117 @@
+import express from "express";
+import { can, forbidden, Permission, requestUser } from "./auth.js";
+import { verifyPassword } from "./roomOptions.js";
+import { getRoom, TransportKind } from "./rooms.js";
+import { createWhepSession, createWhipSession, patchSession } from "./whip.js";
+import { leaveRoom, Server } from "./ws.js";
+
+const SDP_TYPES = ["application/sdp", "application/trickle-ice-sdpfrag"];
+
+/**
+ * WHIP (publish) and WHEP (playback) endpoints, one router each:
+ *
+ * POST   /:roomId[?password=]           -> SDP offer in, 201 + SDP answer + Location of the session
+ * PATCH  /:roomId/:sessionId            -> trickle-ice-sdpfrag (ICE restart), 200 or 204
+ * DELETE /:roomId/:sessionId            -> end the session
+ *
+ * WHEP also takes `?userId=` (participant to play) and `?video=screen`. Any
+ * publisher of the room can be played: a token with the consume permission
+ * (and the room password) gets what a joined socket could consume.
+ * Requires `Authorization: Bearer <JWT>` with the produce (WHIP) or consume
+ * (WHEP) permission when signaling auth is enabled.
+ */
+function sessionRouter(io: Server, protocol: "whip" | "whep"): express.Router {
+    const router = express.Router();
+    const permission: Permission = protocol === "whip" ? "produce" : "consume";
+    const transportKind: TransportKind = protocol === "whip" ? "producer" : "consumer";
+
+    router.use(express.text({ type: SDP_TYPES }));
+
+    // Same token for every request of a session
+    router.use((req, res, next) => {
+        let user;
+        try {
+            user = requestUser(req.headers.authorization, `${protocol}-anonymous`);
+        } catch (err) {
+            res.status(401).json({ error: `Unauthorized: ${(err as Error).message}` });
+            return;
+        }
+        if (!can(user, permission)) {
+            res.status(403).json(forbidden(user, permission));
+            return;
+        }
+        res.locals.user = user;
+        next();
+    });
+
+    router.post("/:roomId", async (req, res) => {
+        if (!req.is("application/sdp") || typeof req.body !== "string") {
+            res.status(415).json({ error: "Expected an application/sdp offer" });
+            return;
+        }
+        const { roomId } = req.params;
+        const room = getRoom(roomId);
+        if (!room) {
+            res.status(404).json({ error: "Room does not exist" });
+            return;
+        }
+        if (room.passwordHash && !verifyPassword(room.passwordHash, req.query.password)) {
+            res.status(403).json({ error: "Wrong room password" });
+            return;
+        }
+        const video = req.query.video === "screen" ? "screen" : "webcam";
+        const userId = typeof req.query.userId === "string" ? req.query.userId : undefined;
+        const result = protocol === "whip"
+            ? await createWhipSession(io, roomId, room, req.body, res.locals.user)
+            : await createWhepSession(io, roomId, room, req.body, { userId, video });
+        if ("error" in result) {
+            res.status(result.status).json({ error: result.error });
+            return;
+        }
+        res.status(201)
+            .location(`${req.baseUrl}/${roomId}/${result.sessionId}`)
+            .type("application/sdp")
+            .send(result.answer);
+    });
+
+    router.patch("/:roomId/:sessionId", async (req, res) => {
+        if (!req.is("application/trickle-ice-sdpfrag") || typeof req.body !== "string") {
+            res.status(415).json({ error: "Expected an application/trickle-ice-sdpfrag body" });
+            return;
+        }
+        const room = getRoom(req.params.roomId);
+        if (!room) {
+            res.status(404).json({ error: "Room does not exist" });
+            return;
+        }
+        const result = await patchSession(room, req.params.sessionId, transportKind, req.body);
+        if (result.error) {
+            res.status(result.status).json({ error: result.error });
+        } else if (result.body) {
+            res.status(result.status).type("application/trickle-ice-sdpfrag").send(result.body);
+        } else {
+            res.sendStatus(result.status);
+        }
+    });
+
+    router.delete("/:roomId/:sessionId", (req, res) => {
+        const { roomId, sessionId } = req.params;
+        const room = getRoom(roomId);
+        if (!room || !sessionId.startsWith(`${protocol}_`) || !room.users.has(sessionId)) {
+            res.status(404).json({ error: "Session not found" });
+            return;
+        }
+        leaveRoom(io, roomId, sessionId);
+        res.sendStatus(200);
+    });
+
+    return router;
+}
+
+export function whipRouter(io: Server): express.Router {
+    return sessionRouter(io, "whip");
+}
+
+export function whepRouter(io: Server): express.Router {
+    return sessionRouter(io, "whep");
+}
@@ -6,43 +6,133 @@ import type { Worker, Router } from "mediasoup/types";
 type MediasoupWorker = {
     worker: Worker;
     routers: Router[];
+    // Open transports on all routers of this worker, the main load indicator
+    transports: number;
 };
 
+type WorkerDiedListener = (routers: Router[]) => void;
+
 const workers: MediasoupWorker[] = [];
-let nextWorkerIdx = 0;
+const workerDiedListeners: WorkerDiedListener[] = [];
+const RESPAWN_RETRY_MS = 2000;
 
-// Initialize multiple mediasoup workers for scalability
-export async function initializeMediasoupWorkers() {
-    for (let i = 0; i < config.mediasoup.numWorkers; i++) {
-        const worker = await mediasoup.createWorker({
-            rtcMinPort: config.mediasoup.worker.rtcMinPort,
-            rtcMaxPort: config.mediasoup.worker.rtcMaxPort,
-            logLevel: config.mediasoup.worker.logLevel,
-            logTags: config.mediasoup.worker.logTags,
-        });
+async function spawnWorker(index: number): Promise<void> {
+    const worker = await mediasoup.createWorker({
+        rtcMinPort: config.mediasoup.worker.rtcMinPort,
+        rtcMaxPort: config.mediasoup.worker.rtcMaxPort,
+        logLevel: config.mediasoup.worker.logLevel,
+        logTags: config.mediasoup.worker.logTags,
+    });
+    const entry: MediasoupWorker = { worker, routers: [], transports: 0 };
+    workers[index] = entry;
 
-        worker.on("died", () => {
-            console.error(
-                "Mediasoup worker died [pid:%d], exiting in 2 seconds...",
-                worker.pid
-            );
-            setTimeout(() => process.exit(1), 2000);
+    worker.on("died", (error) => {
+        console.error("Mediasoup worker died [pid:%d]: %s, respawning...", worker.pid, error.message);
+        // Routers keep their entry when the worker dies (see createRouter), so these are the affected ones
+        const routers = entry.routers;
+        respawnWorker(index).then(() => {
+            for (const listener of workerDiedListeners) listener(routers);
         });
+    });
+}
+
+async function respawnWorker(index: number): Promise<void> {
+    for (;;) {
+        try {
+            await spawnWorker(index);
+            console.log(`Respawned Mediasoup worker ${index} [pid:${workers[index].worker.pid}]`);
+            return;
+        } catch (err) {
+            console.error(`Failed to respawn Mediasoup worker ${index}, retrying:`, err);
+            await new Promise(resolve => setTimeout(resolve, RESPAWN_RETRY_MS));
+        }
+    }
+}
 
-        workers.push({ worker, routers: [] });
+// Initialize multiple mediasoup workers for scalability
+export async function initializeMediasoupWorkers() {
+    for (let i = 0; i < config.mediasoup.numWorkers; i++) {
+        await spawnWorker(i);
     }
     console.log(`Initialized ${workers.length} Mediasoup workers.`);
 }
 
-// Create a new router (for a room or a group of users), assign to a worker in round-robin
-export async function createRouter(): Promise<Router> {
-    const worker = workers[nextWorkerIdx];
-    nextWorkerIdx = (nextWorkerIdx + 1) % workers.length;
+/**
+ * Called with the routers of a worker once it has died and been replaced;
+ * every one of them is closed and has to be recreated by its owner.
+ */
+export function onWorkerDied(listener: WorkerDiedListener): void {
+    workerDiedListeners.push(listener);
+}
+
+// Least transports first, then fewest routers; workers hosting one of `avoid` only as a last resort
+function leastLoadedWorker(avoid: Router[]): MediasoupWorker {
+    const alive = workers.filter(entry => !entry.worker.closed);
+    if (!alive.length) throw new Error("No Mediasoup worker available");
+    const preferred = alive.filter(entry => !entry.routers.some(router => avoid.includes(router)));
+    return (preferred.length ? preferred : alive).reduce((best, entry) =>
+        entry.transports < best.transports ||
+        (entry.transports === best.transports && entry.routers.length < best.routers.length)
+            ? entry
+            : best
+    );
+}
+
+// Create a new router (for a room or a group of users) on the least loaded worker,
+// preferably one that hosts none of the `avoid` routers (e.g. the room's other routers)
+export async function createRouter(avoid: Router[] = []): Promise<Router> {
+    const entry = leastLoadedWorker(avoid);
 
-    const router = await worker.worker.createRouter({
+    const router = await entry.worker.createRouter({
         mediaCodecs: config.mediasoup.router.mediaCodecs,
     });
-    worker.routers.push(router);
+    entry.routers.push(router);
+
+    router.observer.on("newtransport", (transport) => {
+        entry.transports++;
+        transport.observer.on("close", () => { entry.transports--; });
+    });
+    router.observer.on("close", () => {
+        // Kept on worker death: the died handler hands them to the listeners
+        if (entry.worker.died) return;
+        entry.routers = entry.routers.filter(r => r !== router);
+    });
 
     return router;
 }
+
+/**
+ * Per worker load, for the admin API.
+ */
+export function describeWorkers() {
+    return workers.map((entry, index) => ({
+        index,
+        pid: entry.worker.pid,
+        closed: entry.worker.closed,
+        routers: entry.routers.length,
+        transports: entry.transports,
+    }));
+}
+
+/**
+ * Per worker load plus CPU/memory usage of the worker process, for /metrics.
+ */
+export async function workerResourceUsage() {
+    return Promise.all(workers.map(async (entry, index) => ({
+        index,
+        pid: entry.worker.pid,
+        routers: entry.routers.length,
+        transports: entry.transports,
+        usage: entry.worker.closed ? undefined : await entry.worker.getResourceUsage().catch(() => undefined),
+    })));
+}
+
+/**
+ * Shutdown: closes every worker (and with it any router left). Closing is not
+ * dying, so nothing is respawned.
+ */
+export function closeMediasoupWorkers(): void {
+    for (const entry of workers) {
+        if (!entry.worker.closed) entry.worker.close();
+    }
+}
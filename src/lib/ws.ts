@@ -1,241 +1,230 @@
-import type {
-    Router,
-    WebRtcTransport,
-    Producer,
-    PlainTransport,
-    Consumer,
-} from "mediasoup/types";
-import { Server, Socket } from "socket.io";
-import { createRouter } from "./worker.js";
+import type { DisconnectReason, Server as SocketIOServer, Socket as SocketIOSocket } from "socket.io";
 import { config } from "../config/mediasoup.config.js";
-import getPort, { portNumbers } from "get-port";
-import { launchFfmpeg, PortPair } from "./launchFfmpeg.js";
-import type { ChildProcess } from "child_process";
+import { mergeHlsLayout } from "./hlsLayout.js";
+import { parseRecordingOptions, recordProducer, startRecording, stopRecording } from "./recording.js";
+import { safeRestartRoomHls } from "./hlsPipeline.js";
+import { describeHlsHealth, onHlsStatus } from "./hlsSupervisor.js";
+import { describeRestream, parseRestreamUrl, startRestream, stopRestream } from "./restream.js";
+import { onWorkerDied } from "./worker.js";
+import { adaptConsumerLayers, parseLayers, parsePriority, setPreferredLayers } from "./layers.js";
+import type { Consumer, ConsumerLayers, IceParameters, Producer } from "mediasoup/types";
+import { observeSpeaker, SpeakerEvents } from "./speakers.js";
+import { ensureSystemChannel, sendSystemMessage, SYSTEM_CHANNEL_LABEL } from "./dataChannels.js";
+import {
+    createWebRtcTransport,
+    ensureDataProducerPiped,
+    ensureProducerPiped,
+    pickConsumerRouter,
+    releaseConsumerRouter,
+    trackConsumer,
+} from "./roomRouters.js";
+import {
+    cancelIdleTeardown,
+    createRoom,
+    destroyRoom,
+    findProducer,
+    getRoom,
+    isDraining,
+    consumersOfProducer,
+    findConsumer,
+    findDataProducer,
+    listRooms,
+    recoverRooms,
+    releaseEmptyRoom,
+    transportKey,
+    parseProducerSource,
+    ProducerSource,
+    Room,
+    TransportKind,
+} from "./rooms.js";
+import { parseRoomSpec, verifyPassword } from "./roomOptions.js";
+import { AuthUser, can, forbidden, isAuthEnabled, Permission, socketAuthMiddleware, socketUser } from "./auth.js";
+import { describeIngest, Ingest, parseIngestSpec, startIngest, stopIngest } from "./ingest.js";
+import { Bot, BotInfo, botConsume, BotSpec, consumeRoomProducers, describeBot, startBot, stopBot } from "./bots.js";
+import { endSession, ensureSession, getSession, participantId, resumeSession, suspendSession } from "./sessions.js";
+import {
+    Ack,
+    ClientToServerEvents,
+    ErrorCode,
+    ErrorResponse,
+    ProducerInfo,
+    RequestEvent,
+    RequestOf,
+    RestreamInfo,
+    ServerToClientEvents,
+    validateRequest,
+} from "../protocol/index.js";
 
 // --- Type Declarations ---
-type TransportKind = "producer" | "consumer";
-type ProducerKind = "audio" | "video";
-type Room = {
-    users: Set<string>;
-    router: Router;
-    transports: Map<string, WebRtcTransport>;
-    producers: Map<string, Map<ProducerKind, Producer>>;
-    hlsPlainTransports?: Array<{ audio: PlainTransport; video: PlainTransport }>;
-    hlsFfmpegProcess?: ChildProcess;
-    hlsDir?: string;
-    lastHlsProducersKey?: string;
-    __pendingRestart?: boolean;
-};
-type Rooms = Map<string, Room>;
-
-// --- State ---
-const rooms: Rooms = new Map();
-const hlsRestarting: Map<string, boolean> = new Map();
+// Socket.IO typed with the protocol's events, so every emit is checked against it
+export type Server = SocketIOServer<ClientToServerEvents, ServerToClientEvents>;
+type Socket = SocketIOSocket<ClientToServerEvents, ServerToClientEvents>;
 
 // --- Helpers ---
-function generateRoomId(): string {
-    return "room_" + Math.random().toString(36).slice(2, 8);
+function emitRoomProducersChanged(roomId: string, io: Server): void {
+    io.to(roomId).emit("roomProducersChanged");
 }
 
-function transportKey(socketId: string, kind: TransportKind): string {
-    return `${socketId}:${kind}`;
+function speakerEvents(roomId: string, io: Server): SpeakerEvents {
+    return {
+        onAudioLevels: (levels) => io.to(roomId).emit("audioLevels", { roomId, levels }),
+        onActiveSpeaker: (speaker) => io.to(roomId).emit("activeSpeaker", { roomId, ...speaker }),
+    };
 }
 
-async function getEvenPort(range: { startPort: number; endPort: number }): Promise<number> {
-    while (true) {
-        const port = await getPort({ port: portNumbers(range.startPort, range.endPort) });
-        if (port % 2 === 0) return port;
-    }
+function fail(code: ErrorCode, message: string): ErrorResponse {
+    return { error: { code, message } };
 }
 
-function emitRoomProducersChanged(roomId: string, io: Server): void {
-    io.to(roomId).emit("roomProducersChanged");
+// Answers with a "forbidden" error and returns false when the socket's role lacks the permission
+function authorize(socket: Socket, permission: Permission, cb: (result: ErrorResponse) => void): boolean {
+    const user = socketUser(socket);
+    if (can(user, permission)) return true;
+    cb({ error: { code: "forbidden", message: forbidden(user, permission).error, permission } });
+    return false;
 }
 
-async function requestKeyFrameWithRetry(
-    consumer: Consumer,
-    maxRetries = 5,
-    intervalMs = 500
-): Promise<void> {
-    for (let i = 0; i < maxRetries; i++) {
+/**
+ * Registers the handler of a client request. The payload is checked against the
+ * protocol's schema first, and the client's ack is called exactly once: with an
+ * "internal" error when the handler throws (e.g. a mediasoup call rejects) or
+ * returns without answering.
+ */
+function onRequest<E extends RequestEvent>(
+    socket: Socket,
+    event: E,
+    handler: (data: RequestOf<E>, cb: Ack<E>) => void | Promise<void>
+): void {
+    socket.on(event as RequestEvent, async (data: unknown, ack?: unknown) => {
+        let answered = false;
+        const cb: Ack<E> = (result) => {
+            if (answered) return;
+            answered = true;
+            if (typeof ack === "function") ack(result);
+        };
+        const parsed = validateRequest(event, data);
+        if ("error" in parsed) return cb(fail("invalidRequest", parsed.error));
         try {
-            await consumer.requestKeyFrame();
-            console.log(`[HLS] Requested keyframe (attempt ${i + 1}) for consumer ${consumer.id}`);
+            await handler(parsed.value, cb);
+            if (!answered) throw new Error("Handler returned without a response");
         } catch (err) {
-            console.warn(`[HLS] Keyframe request failed:`, err);
-        }
-        await new Promise(res => setTimeout(res, intervalMs));
-    }
-}
-
-// --- HLS Restart Logic (serialized per room) ---
-async function safeRestartRoomHls(roomId: string, room: Room) {
-    if (hlsRestarting.get(roomId)) {
-        room.__pendingRestart = true;
-        return;
-    }
-    hlsRestarting.set(roomId, true);
-    try {
-        await restartRoomHls(roomId, room);
-    } catch (err) {
-        console.error(`[safeRestartRoomHls] Error for room ${roomId}:`, err);
-    } finally {
-        hlsRestarting.delete(roomId);
-        if (room.__pendingRestart) {
-            room.__pendingRestart = false;
-            safeRestartRoomHls(roomId, room);
+            console.error(`[ws] ${event} failed:`, err);
+            cb(fail("internal", "Internal server error"));
         }
-    }
+    });
 }
 
 /**
- * Full pipeline: 1. cleanup old, 2. allocate ports, 3. create transports,
- * 4. write SDP, 5. start FFmpeg, 6. connect transports, 7. create consumers, 8. save state.
+ * A consumer forwards media only when its client asked for it (resumeConsumer)
+ * and the producer's owner has not muted it (pauseProducer).
  */
-async function restartRoomHls(roomId: string, room: Room): Promise<void> {
-    // --- Step 1: Find all users with BOTH audio+video (full AV pairs)
-    const producersArray: Array<{ audio: Producer; video: Producer }> = [];
-    for (const [, kindMap] of room.producers.entries()) {
-        const audio = kindMap.get("audio");
-        const video = kindMap.get("video");
-        if (audio && video) producersArray.push({ audio, video });
-    }
-    // --- Step 2: If no AV, cleanup old, return
-    if (!producersArray.length) {
-        if (room.hlsFfmpegProcess) { try { room.hlsFfmpegProcess.kill("SIGKILL"); } catch { } }
-        if (room.hlsPlainTransports) for (const t of room.hlsPlainTransports) { try { t.audio.close(); } catch { } try { t.video.close(); } catch { } }
-        room.hlsFfmpegProcess = undefined;
-        room.hlsPlainTransports = undefined;
-        room.lastHlsProducersKey = "";
-        return;
-    }
-    // --- Step 3: Skip if no change
-    const key = producersArray.map(p => `${p.audio.id},${p.video.id}`).sort().join("|");
-    if (room.lastHlsProducersKey === key) return;
-
-    // --- Step 4: Kill old FFmpeg and transports
-    if (room.hlsFfmpegProcess) { try { room.hlsFfmpegProcess.kill("SIGKILL"); } catch { } }
-    if (room.hlsPlainTransports) for (const t of room.hlsPlainTransports) { try { t.audio.close(); } catch { } try { t.video.close(); } catch { } }
-    room.hlsFfmpegProcess = undefined;
-    room.hlsPlainTransports = undefined;
-
-    // --- Step 5: Allocate ports and create transports
-    const audioPortPairs: PortPair[] = [], videoPortPairs: PortPair[] = [], plainTransports: Array<{ audio: PlainTransport; video: PlainTransport }> = [];
-    for (let i = 0; i < producersArray.length; i++) {
-        const audioRtp = await getEvenPort({ startPort: 10102, endPort: 10200 });
-        const videoRtp = await getEvenPort({ startPort: 10202, endPort: 10300 });
-        audioPortPairs.push({ rtp: audioRtp, rtcp: audioRtp + 1 });
-        videoPortPairs.push({ rtp: videoRtp, rtcp: videoRtp + 1 });
-
-        const audioTransport = await room.router.createPlainTransport({
-            listenIp: "127.0.0.1", rtcpMux: false, comedia: false,
-        });
-        const videoTransport = await room.router.createPlainTransport({
-            listenIp: "127.0.0.1", rtcpMux: false, comedia: false,
-        });
-        plainTransports.push({ audio: audioTransport, video: videoTransport });
-    }
-
-    // --- Step 6: Write SDP, launch FFmpeg (before connecting ports!)
-    const { process: ffmpegProcess, hlsDir } = launchFfmpeg(roomId, {
-        audioPortPairs,
-        videoPortPairs,
-    });
-
-    // --- Step 7: Connect transports (AFTER ffmpeg starts)
-    for (let i = 0; i < plainTransports.length; i++) {
-        await plainTransports[i].audio.connect({
-            ip: "127.0.0.1", port: audioPortPairs[i].rtp, rtcpPort: audioPortPairs[i].rtcp,
-        });
-        await plainTransports[i].video.connect({
-            ip: "127.0.0.1", port: videoPortPairs[i].rtp, rtcpPort: videoPortPairs[i].rtcp,
-        });
+export async function syncConsumerPaused(room: Room, consumer: Consumer): Promise<void> {
+    const shouldPause = consumer.appData.clientPaused === true || room.pausedProducers.has(consumer.producerId);
+    if (shouldPause && !consumer.paused) {
+        await consumer.pause();
+    } else if (!shouldPause && consumer.paused) {
+        await consumer.resume();
+        // The client's decoder needs a keyframe to show anything
+        if (consumer.kind === "video") await consumer.requestKeyFrame();
     }
+}
 
-    // --- Step 8: Create consumers and request video keyframes
-    const consumerPromises: Promise<any>[] = [];
-    for (let i = 0; i < producersArray.length; ++i) {
-        const { audio, video } = producersArray[i];
-        consumerPromises.push(
-            plainTransports[i].audio.consume({
-                producerId: audio.id,
-                rtpCapabilities: room.router.rtpCapabilities,
-                paused: false,
-            })
-        );
-        consumerPromises.push(
-            (async () => {
-                const videoConsumer = await plainTransports[i].video.consume({
-                    producerId: video.id,
-                    rtpCapabilities: room.router.rtpCapabilities,
-                    paused: false,
-                });
-                await requestKeyFrameWithRetry(videoConsumer, 5, 500);
-            })()
-        );
-    }
-    await Promise.all(consumerPromises);
-
-    // --- Step 9: Save state
-    room.hlsPlainTransports = plainTransports;
-    room.hlsFfmpegProcess = ffmpegProcess;
-    room.hlsDir = hlsDir;
-    room.lastHlsProducersKey = key;
+// The caller's own producer in this room
+function ownProducer(room: Room, socketId: string, producerId: string) {
+    const found = findProducer(room, producerId);
+    return found && found.userId === socketId ? found : undefined;
 }
 
 // --- Main handlers (all included) ---
 
-async function handleCreateRoom(socket: Socket, cb: (result: any) => void): Promise<void> {
-    const roomId = generateRoomId();
-    const router = await createRouter();
-    rooms.set(roomId, {
-        users: new Set([socket.id]),
-        router,
-        transports: new Map(),
-        producers: new Map(),
-    });
-    socket.join(roomId);
-    cb({ roomId });
+async function handleCreateRoom(socket: Socket, data: RequestOf<"createRoom">, cb: Ack<"createRoom">): Promise<void> {
+    if (!authorize(socket, "createRoom", cb)) return;
+    const parsed = parseRoomSpec(data);
+    if ("error" in parsed) return cb(fail("invalidRequest", parsed.error));
+    if (isDraining()) return cb(fail("unavailable", "Server is draining, no new rooms"));
+    const result = await createRoom(parsed);
+    if ("error" in result) return cb(fail("roomExists", result.error));
+
+    result.room.users.add(participantId(socket));
+    socket.join(result.roomId);
+    const session = ensureSession(socket, socketUser(socket));
+    cb({ roomId: result.roomId, options: result.room.options, sessionToken: session.token });
 }
 
-function handleJoinRoom(socket: Socket, io: Server, data: { roomId: string }, cb: (result: any) => void): void {
-    const room = rooms.get(data.roomId);
-    if (!room) return cb({ error: "Room does not exist" });
-    room.users.add(socket.id);
+function handleJoinRoom(socket: Socket, io: Server, data: RequestOf<"joinRoom">, cb: Ack<"joinRoom">): void {
+    const room = getRoom(data.roomId);
+    if (!room) return cb(fail("roomNotFound", "Room does not exist"));
+    if (!room.users.has(participantId(socket))) {
+        if (room.passwordHash && !verifyPassword(room.passwordHash, data.password)) {
+            return cb(fail("wrongPassword", "Wrong room password"));
+        }
+        if (room.options.maxParticipants !== undefined && room.users.size >= room.options.maxParticipants) {
+            return cb(fail("roomFull", "Room is full"));
+        }
+    }
+    cancelIdleTeardown(room);
+    room.users.add(participantId(socket));
     socket.join(data.roomId);
-    cb({ roomId: data.roomId });
+    const session = ensureSession(socket, socketUser(socket));
+    cb({
+        roomId: data.roomId,
+        options: room.options,
+        activeSpeaker: room.activeSpeaker,
+        hlsStatus: room.hlsHealth && describeHlsHealth(room.hlsHealth),
+        sessionToken: session.token,
+    });
     emitRoomProducersChanged(data.roomId, io);
 }
 
-function handleGetRouterRtpCapabilities(socket: Socket, data: { roomId: string }, cb: (result: any) => void): void {
-    const room = rooms.get(data.roomId);
-    if (!room) return cb({ error: "Room does not exist" });
+function handleGetRouterRtpCapabilities(socket: Socket, data: RequestOf<"getRouterRtpCapabilities">, cb: Ack<"getRouterRtpCapabilities">): void {
+    const room = getRoom(data.roomId);
+    if (!room) return cb(fail("roomNotFound", "Room does not exist"));
+    if (!room.users.has(participantId(socket))) return cb(fail("notInRoom", "Not a member of this room"));
     cb({ rtpCapabilities: room.router.rtpCapabilities });
 }
 
-async function handleCreateTransport(socket: Socket, data: { roomId: string }, kind: TransportKind, cb: (result: any) => void): Promise<void> {
-    const room = rooms.get(data.roomId);
-    if (!room) return cb({ error: "Room does not exist" });
-    const transport = await room.router.createWebRtcTransport({
-        listenIps: config.mediasoup.webRtcTransport.listenIps,
-        enableUdp: config.mediasoup.webRtcTransport.enableUdp,
-        enableTcp: config.mediasoup.webRtcTransport.enableTcp,
-        preferUdp: config.mediasoup.webRtcTransport.preferUdp,
-    });
-    room.transports.set(transportKey(socket.id, kind), transport);
+async function handleCreateTransport(socket: Socket, data: RequestOf<"createProducerTransport" | "createConsumerTransport">, kind: TransportKind, cb: Ack<"createProducerTransport"> | Ack<"createConsumerTransport">): Promise<void> {
+    // Viewers never get a transport to send media on
+    if (!authorize(socket, kind === "producer" ? "produce" : "consume", cb)) return;
+    const room = getRoom(data.roomId);
+    if (!room) return cb(fail("roomNotFound", "Room does not exist"));
+    if (!room.users.has(participantId(socket))) return cb(fail("notInRoom", "Not a member of this room"));
+    // Producers always go to the origin router, consumers to a router with room to spare
+    let router = room.router;
+    if (kind === "consumer") {
+        const current = room.consumerRouters.get(participantId(socket));
+        const entry = current && !current.router.closed ? current : await pickConsumerRouter(room);
+        room.consumerRouters.set(participantId(socket), entry);
+        router = entry.router;
+    }
+    const transport = await createWebRtcTransport(router);
+    // A second create replaces the transport. The old one is closed with what runs on
+    // it; producers first, so their close handlers announce them and update the room.
+    const key = transportKey(participantId(socket), kind);
+    const previous = room.transports.get(key);
+    if (previous && !previous.closed) {
+        if (kind === "producer") {
+            for (const producer of room.producers.get(participantId(socket))?.values() ?? []) producer.close();
+        }
+        previous.close();
+    }
+    room.transports.set(key, transport);
     cb({
         id: transport.id,
         iceParameters: transport.iceParameters,
         iceCandidates: transport.iceCandidates,
         dtlsParameters: transport.dtlsParameters,
+        sctpParameters: transport.sctpParameters,
     });
 }
 
-async function handleConnectTransport(socket: Socket, data: { roomId: string; dtlsParameters: any }, kind: TransportKind, cb: (result: any) => void): Promise<void> {
-    const room = rooms.get(data.roomId);
-    if (!room) return cb({ error: "Room does not exist" });
-    const transport = room.transports.get(transportKey(socket.id, kind));
-    if (!transport) return cb({ error: `${kind} transport not found` });
+async function handleConnectTransport(socket: Socket, data: RequestOf<"connectProducerTransport" | "connectConsumerTransport">, kind: TransportKind, cb: Ack<"connectProducerTransport"> | Ack<"connectConsumerTransport">): Promise<void> {
+    if (!authorize(socket, kind === "producer" ? "produce" : "consume", cb)) return;
+    const room = getRoom(data.roomId);
+    if (!room) return cb(fail("roomNotFound", "Room does not exist"));
+    if (!room.users.has(participantId(socket))) return cb(fail("notInRoom", "Not a member of this room"));
+    const transport = room.transports.get(transportKey(participantId(socket), kind));
+    if (!transport) return cb(fail("transportNotFound", `${kind} transport not found`));
     await transport.connect({ dtlsParameters: data.dtlsParameters });
     cb({ connected: true });
 }
@@ -243,21 +232,31 @@ async function handleConnectTransport(socket: Socket, data: { roomId: string; dt
 async function handleProduce(
     socket: Socket,
     io: Server,
-    data: { roomId: string; kind: ProducerKind; rtpParameters: any },
-    cb: (result: any) => void
+    data: RequestOf<"produce">,
+    cb: Ack<"produce">
 ): Promise<void> {
-    const room = rooms.get(data.roomId);
-    if (!room) return cb({ error: "Room does not exist" });
-    const transport = room.transports.get(transportKey(socket.id, "producer"));
-    if (!transport) return cb({ error: "Producer transport not found" });
+    if (!authorize(socket, "produce", cb)) return;
+    const room = getRoom(data.roomId);
+    if (!room) return cb(fail("roomNotFound", "Room does not exist"));
+    if (!room.users.has(participantId(socket))) return cb(fail("notInRoom", "Not a member of this room"));
+    const userId = participantId(socket);
+    const transport = room.transports.get(transportKey(userId, "producer"));
+    if (!transport) return cb(fail("transportNotFound", "Producer transport not found"));
+    const parsed = parseProducerSource(data.kind, data.appData?.source);
+    if ("error" in parsed) return cb(fail("invalidRequest", parsed.error));
+    const { source } = parsed;
+    const { maxPublishers } = room.options;
+    if (maxPublishers !== undefined && !room.producers.has(userId) && room.producers.size >= maxPublishers) {
+        return cb(fail("publisherLimit", "Publisher limit reached"));
+    }
 
-    // Close old producer if present
-    let userProducers = room.producers.get(socket.id);
+    // Close the user's old producer of the same source if present
+    let userProducers = room.producers.get(userId);
     if (!userProducers) {
         userProducers = new Map();
-        room.producers.set(socket.id, userProducers);
+        room.producers.set(userId, userProducers);
     }
-    const oldProducer = userProducers.get(data.kind);
+    const oldProducer = userProducers.get(source);
     if (oldProducer && !oldProducer.closed) {
         try { oldProducer.close(); } catch { }
     }
@@ -265,62 +264,116 @@ async function handleProduce(
     const producer = await transport.produce({
         kind: data.kind,
         rtpParameters: data.rtpParameters,
+        appData: { source, userId: userId },
     });
 
-    userProducers.set(data.kind, producer);
+    cb({ id: producer.id, source });
+    // Keyed by the participant id like the transports, not by the token's `sub`
+    registerProducer(io, data.roomId, room, source, producer, { ...socketUser(socket), userId }, socket);
+}
 
-    if (!room.producers.has(socket.id)) {
-        room.producers.set(socket.id, new Map());
+/**
+ * Adds a new producer to the room: announces it (to everyone but `sender`),
+ * hands it to a running recording and speaker detection, and removes it again
+ * once it closes. Bots consume it. Used for client producers, ingests, bots and WHIP alike.
+ * `user.userId` is the participant id the producer is stored under.
+ */
+export function registerProducer(
+    io: Server,
+    roomId: string,
+    room: Room,
+    source: ProducerSource,
+    producer: Producer,
+    user: AuthUser,
+    sender?: Socket
+): void {
+    const { userId } = user;
+    if (!room.producers.has(userId)) {
+        room.producers.set(userId, new Map());
     }
-    room.producers.get(socket.id)!.set(data.kind, producer);
+    room.producers.get(userId)!.set(source, producer);
 
-    socket.to(data.roomId).emit("newProducer", {
-        userId: socket.id,
+    (sender ? sender.to(roomId) : io.to(roomId)).emit("newProducer", {
+        userId,
         producerId: producer.id,
-        kind: data.kind,
+        kind: producer.kind,
+        source,
+        user: { userId, name: user.name, role: user.role },
     });
-    cb({ id: producer.id });
-    emitRoomProducersChanged(data.roomId, io);
+    emitRoomProducersChanged(roomId, io);
+
+    if (room.recording) {
+        room.recording.participants.add(userId);
+        if (room.recording.options.perProducer) {
+            recordProducer(room.recording, room.router, userId, producer)
+                .catch(err => console.error(`[recording] Failed to record producer ${producer.id}:`, err));
+        }
+    }
+
+    // Only microphones take part in active speaker detection
+    if (source === "mic") {
+        observeSpeaker(roomId, room, producer, speakerEvents(roomId, io))
+            .catch(err => console.error(`[speakers] Failed to observe producer ${producer.id}:`, err));
+    }
+
+    for (const bot of room.bots.values()) {
+        if (bot.id === userId) continue;
+        botConsume(room, bot, producer)
+            .catch(err => console.error(`[bots] ${bot.id} failed to consume producer ${producer.id}:`, err));
+    }
 
     // Producer close event
     producer.on("@close", () => {
-        const userProducers = room.producers.get(socket.id);
-        if (userProducers && userProducers.get(data.kind) === producer) {
-            userProducers.delete(data.kind);
+        room.pausedProducers.delete(producer.id);
+        io.to(roomId).emit("producerClosed", { userId, producerId: producer.id, kind: producer.kind, source });
+        const userProducers = room.producers.get(userId);
+        if (userProducers && userProducers.get(source) === producer) {
+            userProducers.delete(source);
             if (userProducers.size === 0) {
-                room.producers.delete(socket.id);
+                room.producers.delete(userId);
             }
-            emitRoomProducersChanged(data.roomId, io);
-            safeRestartRoomHls(data.roomId, room);
+            emitRoomProducersChanged(roomId, io);
+            safeRestartRoomHls(roomId, room);
         }
     });
 
-    safeRestartRoomHls(data.roomId, room);
+    safeRestartRoomHls(roomId, room);
 }
 
-function handleStopProducing(socket: Socket, data: { roomId: string }, cb?: (result: any) => void): void {
-    const room = rooms.get(data.roomId);
-    if (!room) return cb && cb({ error: "Room does not exist" });
-    const userProducers = room.producers.get(socket.id);
+// Stops every producer of the user, or only the one of `source`
+function handleStopProducing(socket: Socket, data: RequestOf<"stopProducing">, cb: Ack<"stopProducing">): void {
+    if (!authorize(socket, "produce", cb)) return;
+    const room = getRoom(data.roomId);
+    if (!room) return cb(fail("roomNotFound", "Room does not exist"));
+    const userProducers = room.producers.get(participantId(socket));
     if (userProducers) {
-        for (const [, producer] of userProducers.entries()) {
+        for (const [source, producer] of [...userProducers.entries()]) {
+            if (data.source !== undefined && source !== data.source) continue;
             if (producer && !producer.closed) producer.close();
+            userProducers.delete(source);
         }
-        room.producers.delete(socket.id);
+        if (userProducers.size === 0) room.producers.delete(participantId(socket));
         safeRestartRoomHls(data.roomId, room);
     }
-    cb && cb({ stopped: true });
+    cb({ stopped: true });
 }
 
-function handleListProducers(socket: Socket, data: { roomId: string }, cb: (result: any) => void): void {
-    const room = rooms.get(data.roomId);
-    if (!room) return cb({ error: "Room does not exist" });
-    const producers: Array<{ userId: string; producerId: string; kind: ProducerKind }> = [];
+function handleListProducers(socket: Socket, data: RequestOf<"listProducers">, cb: Ack<"listProducers">): void {
+    const room = getRoom(data.roomId);
+    if (!room) return cb(fail("roomNotFound", "Room does not exist"));
+    if (!room.users.has(participantId(socket))) return cb(fail("notInRoom", "Not a member of this room"));
+    const producers: ProducerInfo[] = [];
     for (const [userId, userProducers] of room.producers) {
-        if (userId !== socket.id) {
-            for (const [kind, producer] of userProducers.entries()) {
+        if (userId !== participantId(socket)) {
+            for (const [source, producer] of userProducers.entries()) {
                 if (producer && !producer.closed) {
-                    producers.push({ userId, producerId: producer.id, kind });
+                    producers.push({
+                        userId,
+                        producerId: producer.id,
+                        kind: producer.kind,
+                        source,
+                        paused: room.pausedProducers.has(producer.id),
+                    });
                 }
             }
         }
@@ -328,95 +381,673 @@ function handleListProducers(socket: Socket, data: { roomId: string }, cb: (resu
     cb({ producers });
 }
 
-async function handleConsume(socket: Socket, data: { roomId: string; producerId: string; rtpCapabilities: any }, cb: (result: any) => void): Promise<void> {
-    const room = rooms.get(data.roomId);
-    if (!room) return cb({ error: "Room does not exist" });
-    const transport = room.transports.get(transportKey(socket.id, "consumer"));
-    if (!transport) return cb({ error: "Consumer transport not found" });
-
-    let foundProducer: Producer | undefined;
-    for (const userProducers of room.producers.values()) {
-        for (const producer of userProducers.values()) {
-            if (producer.id === data.producerId) {
-                foundProducer = producer;
-                break;
-            }
-        }
-        if (foundProducer) break;
+async function handleConsume(
+    socket: Socket,
+    data: RequestOf<"consume">,
+    cb: Ack<"consume">
+): Promise<void> {
+    if (!authorize(socket, "consume", cb)) return;
+    const room = getRoom(data.roomId);
+    if (!room) return cb(fail("roomNotFound", "Room does not exist"));
+    if (!room.users.has(participantId(socket))) return cb(fail("notInRoom", "Not a member of this room"));
+    const userId = participantId(socket);
+    let preferredLayers: ConsumerLayers | undefined;
+    if (data.preferredLayers !== undefined) {
+        const parsed = parseLayers(data.preferredLayers);
+        if ("error" in parsed) return cb(fail("invalidRequest", parsed.error));
+        preferredLayers = parsed.layers;
     }
-    if (!foundProducer) return cb({ error: "Producer not found" });
+    const priority = data.priority !== undefined ? parsePriority(data.priority) : undefined;
+    if (data.priority !== undefined && priority === undefined) return cb(fail("invalidRequest", "priority must be an integer from 1 to 255"));
+    const transport = room.transports.get(transportKey(userId, "consumer"));
+    if (!transport) return cb(fail("transportNotFound", "Consumer transport not found"));
+
+    const foundProducer = findProducer(room, data.producerId)?.producer;
+    if (!foundProducer) return cb(fail("producerNotFound", "Producer not found"));
+    const routerEntry = room.consumerRouters.get(userId) ?? room.routers[0];
+    await ensureProducerPiped(room, routerEntry, foundProducer.id);
     if (
-        !room.router.canConsume({
+        !routerEntry.router.canConsume({
             producerId: foundProducer.id,
             rtpCapabilities: data.rtpCapabilities,
         })
     ) {
-        return cb({ error: "Cannot consume this producer" });
+        return cb(fail("cannotConsume", "Cannot consume this producer"));
     }
+    // Created paused: the client sends resumeConsumer once its side is ready
     const consumer = await transport.consume({
         producerId: foundProducer.id,
         rtpCapabilities: data.rtpCapabilities,
-        paused: false,
+        paused: true,
+        preferredLayers,
+        appData: { clientPaused: true },
     });
+    trackConsumer(routerEntry, consumer);
+    if (priority !== undefined) await consumer.setPriority(priority);
+
+    let socketConsumers = room.consumers.get(userId);
+    if (!socketConsumers) {
+        socketConsumers = new Map();
+        room.consumers.set(userId, socketConsumers);
+    }
+    socketConsumers.set(consumer.id, consumer);
+    consumer.observer.on("close", () => {
+        room.consumers.get(userId)?.delete(consumer.id);
+    });
+    // mediasoup has already closed the consumer. Sent to the participant's room:
+    // after resumeSession the consumer belongs to another socket.
+    consumer.on("producerclose", () => {
+        socket.nsp.to(userId).emit("consumerClosed", { roomId: data.roomId, consumerId: consumer.id, producerId: consumer.producerId });
+    });
+    consumer.on("layerschange", (layers) => {
+        socket.nsp.to(userId).emit("layersChanged", { roomId: data.roomId, consumerId: consumer.id, layers: layers ?? null });
+    });
+    adaptConsumerLayers(consumer, foundProducer.rtpParameters, preferredLayers);
+
     cb({
         id: consumer.id,
         producerId: data.producerId,
         kind: consumer.kind,
+        type: consumer.type,
         rtpParameters: consumer.rtpParameters,
+        paused: true,
+        producerPaused: room.pausedProducers.has(foundProducer.id),
     });
 }
 
-function handleDisconnect(socket: Socket, io: Server): void {
-    for (const [roomId, room] of rooms) {
-        // Cleanup transports for this user
-        for (const kind of ["producer", "consumer"] as TransportKind[]) {
-            const key = transportKey(socket.id, kind);
-            if (room.transports.has(key)) {
-                room.transports.get(key)?.close();
-                room.transports.delete(key);
-            }
+async function handleSetConsumerPaused(
+    socket: Socket,
+    data: RequestOf<"pauseConsumer" | "resumeConsumer">,
+    paused: boolean,
+    cb: Ack<"pauseConsumer"> | Ack<"resumeConsumer">
+): Promise<void> {
+    if (!authorize(socket, "consume", cb)) return;
+    const room = getRoom(data.roomId);
+    if (!room) return cb(fail("roomNotFound", "Room does not exist"));
+    const consumer = findConsumer(room, participantId(socket), data.consumerId);
+    if (!consumer) return cb(fail("consumerNotFound", "Consumer not found"));
+
+    consumer.appData.clientPaused = paused;
+    await syncConsumerPaused(room, consumer);
+    cb({ paused, producerPaused: room.pausedProducers.has(consumer.producerId) });
+}
+
+function handleCloseConsumer(socket: Socket, data: RequestOf<"closeConsumer">, cb: Ack<"closeConsumer">): void {
+    if (!authorize(socket, "consume", cb)) return;
+    const room = getRoom(data.roomId);
+    if (!room) return cb(fail("roomNotFound", "Room does not exist"));
+    const consumer = findConsumer(room, participantId(socket), data.consumerId);
+    if (!consumer) return cb(fail("consumerNotFound", "Consumer not found"));
+    // The close observer removes it from room.consumers
+    consumer.close();
+    cb({ closed: true });
+}
+
+/**
+ * Mutes/unmutes one of the caller's producers for everyone consuming it over
+ * WebRTC. The mediasoup producer itself keeps running: the HLS and recording
+ * taps get the (silent/black) media the muted client still sends, so the
+ * compositor neither stalls nor restarts.
+ */
+async function handleSetProducerPaused(
+    socket: Socket,
+    data: RequestOf<"pauseProducer" | "resumeProducer">,
+    paused: boolean,
+    cb: Ack<"pauseProducer"> | Ack<"resumeProducer">
+): Promise<void> {
+    if (!authorize(socket, "produce", cb)) return;
+    const room = getRoom(data.roomId);
+    if (!room) return cb(fail("roomNotFound", "Room does not exist"));
+    const found = ownProducer(room, participantId(socket), data.producerId);
+    if (!found) return cb(fail("producerNotFound", "Producer not found"));
+
+    if (paused) room.pausedProducers.add(found.producer.id);
+    else room.pausedProducers.delete(found.producer.id);
+    await Promise.all(consumersOfProducer(room, found.producer.id).map(consumer => syncConsumerPaused(room, consumer)));
+
+    cb({ paused });
+    socket.to(data.roomId).emit(paused ? "producerPaused" : "producerResumed", {
+        userId: participantId(socket),
+        producerId: found.producer.id,
+        kind: found.kind,
+        source: found.source,
+    });
+}
+
+async function handleSetPreferredLayers(
+    socket: Socket,
+    data: RequestOf<"setPreferredLayers">,
+    cb: Ack<"setPreferredLayers">
+): Promise<void> {
+    if (!authorize(socket, "consume", cb)) return;
+    const room = getRoom(data.roomId);
+    if (!room) return cb(fail("roomNotFound", "Room does not exist"));
+    const consumer = findConsumer(room, participantId(socket), data.consumerId);
+    if (!consumer) return cb(fail("consumerNotFound", "Consumer not found"));
+    if (consumer.type !== "simulcast" && consumer.type !== "svc") return cb(fail("conflict", "Consumer has no layers"));
+    const parsed = parseLayers(data);
+    if ("error" in parsed) return cb(fail("invalidRequest", parsed.error));
+    const producer = findProducer(room, consumer.producerId)?.producer;
+    if (!producer) return cb(fail("producerNotFound", "Producer not found"));
+
+    const preferredLayers = await setPreferredLayers(consumer, producer.rtpParameters, parsed.layers);
+    cb({ preferredLayers });
+}
+
+async function handleSetConsumerPriority(
+    socket: Socket,
+    data: RequestOf<"setConsumerPriority">,
+    cb: Ack<"setConsumerPriority">
+): Promise<void> {
+    if (!authorize(socket, "consume", cb)) return;
+    const room = getRoom(data.roomId);
+    if (!room) return cb(fail("roomNotFound", "Room does not exist"));
+    const consumer = findConsumer(room, participantId(socket), data.consumerId);
+    if (!consumer) return cb(fail("consumerNotFound", "Consumer not found"));
+    const priority = parsePriority(data.priority);
+    if (priority === undefined) return cb(fail("invalidRequest", "priority must be an integer from 1 to 255"));
+
+    await consumer.setPriority(priority);
+    cb({ priority: consumer.priority });
+}
+
+async function handleProduceData(
+    socket: Socket,
+    io: Server,
+    data: RequestOf<"produceData">,
+    cb: Ack<"produceData">
+): Promise<void> {
+    if (!authorize(socket, "produce", cb)) return;
+    const room = getRoom(data.roomId);
+    if (!room) return cb(fail("roomNotFound", "Room does not exist"));
+    if (!room.users.has(participantId(socket))) return cb(fail("notInRoom", "Not a member of this room"));
+    const userId = participantId(socket);
+    const transport = room.transports.get(transportKey(userId, "producer"));
+    if (!transport) return cb(fail("transportNotFound", "Producer transport not found"));
+    if (data.label === SYSTEM_CHANNEL_LABEL) return cb(fail("invalidRequest", `Label "${SYSTEM_CHANNEL_LABEL}" is reserved`));
+
+    const dataProducer = await transport.produceData({
+        sctpStreamParameters: data.sctpStreamParameters,
+        label: data.label,
+        protocol: data.protocol,
+    });
+    let userDataProducers = room.dataProducers.get(userId);
+    if (!userDataProducers) {
+        userDataProducers = new Map();
+        room.dataProducers.set(userId, userDataProducers);
+    }
+    userDataProducers.set(dataProducer.id, dataProducer);
+
+    const info = { userId: userId, dataProducerId: dataProducer.id, label: dataProducer.label, protocol: dataProducer.protocol };
+    dataProducer.observer.on("close", () => {
+        const userDataProducers = room.dataProducers.get(userId);
+        userDataProducers?.delete(dataProducer.id);
+        if (userDataProducers?.size === 0) room.dataProducers.delete(userId);
+        io.to(data.roomId).emit("dataProducerClosed", info);
+    });
+    cb({ id: dataProducer.id });
+    socket.to(data.roomId).emit("newDataProducer", info);
+}
+
+async function handleListDataProducers(socket: Socket, data: RequestOf<"listDataProducers">, cb: Ack<"listDataProducers">): Promise<void> {
+    const room = getRoom(data.roomId);
+    if (!room) return cb(fail("roomNotFound", "Room does not exist"));
+    if (!room.users.has(participantId(socket))) return cb(fail("notInRoom", "Not a member of this room"));
+    const { dataProducer: system } = await ensureSystemChannel(room);
+    const dataProducers = [{ userId: undefined as string | undefined, dataProducerId: system.id, label: system.label, protocol: system.protocol }];
+    for (const [userId, userDataProducers] of room.dataProducers) {
+        if (userId === participantId(socket)) continue;
+        for (const dataProducer of userDataProducers.values()) {
+            dataProducers.push({ userId, dataProducerId: dataProducer.id, label: dataProducer.label, protocol: dataProducer.protocol });
         }
-        // Cleanup producers for this user
-        const userProducers = room.producers.get(socket.id);
-        if (userProducers) {
-            for (const producer of userProducers.values()) {
-                if (producer && !producer.closed) {
-                    producer.close();
-                }
+    }
+    cb({ dataProducers });
+}
+
+async function handleConsumeData(socket: Socket, data: RequestOf<"consumeData">, cb: Ack<"consumeData">): Promise<void> {
+    if (!authorize(socket, "consume", cb)) return;
+    const room = getRoom(data.roomId);
+    if (!room) return cb(fail("roomNotFound", "Room does not exist"));
+    if (!room.users.has(participantId(socket))) return cb(fail("notInRoom", "Not a member of this room"));
+    const userId = participantId(socket);
+    const transport = room.transports.get(transportKey(userId, "consumer"));
+    if (!transport) return cb(fail("transportNotFound", "Consumer transport not found"));
+    const system = (await ensureSystemChannel(room)).dataProducer;
+    const dataProducer = system.id === data.dataProducerId ? system : findDataProducer(room, data.dataProducerId)?.dataProducer;
+    if (!dataProducer) return cb(fail("dataProducerNotFound", "Data producer not found"));
+
+    await ensureDataProducerPiped(room, room.consumerRouters.get(userId) ?? room.routers[0], dataProducer.id);
+    const dataConsumer = await transport.consumeData({ dataProducerId: dataProducer.id });
+    let socketDataConsumers = room.dataConsumers.get(userId);
+    if (!socketDataConsumers) {
+        socketDataConsumers = new Map();
+        room.dataConsumers.set(userId, socketDataConsumers);
+    }
+    socketDataConsumers.set(dataConsumer.id, dataConsumer);
+    dataConsumer.observer.on("close", () => {
+        room.dataConsumers.get(userId)?.delete(dataConsumer.id);
+    });
+    dataConsumer.on("dataproducerclose", () => {
+        socket.nsp.to(userId).emit("dataConsumerClosed", { roomId: data.roomId, dataConsumerId: dataConsumer.id, dataProducerId: dataProducer.id });
+    });
+
+    cb({
+        id: dataConsumer.id,
+        dataProducerId: dataProducer.id,
+        sctpStreamParameters: dataConsumer.sctpStreamParameters,
+        label: dataConsumer.label,
+        protocol: dataConsumer.protocol,
+    });
+}
+
+function handleSetHlsLayout(socket: Socket, io: Server, data: RequestOf<"setHlsLayout">, cb: Ack<"setHlsLayout">): void {
+    if (!authorize(socket, "manageRoom", cb)) return;
+    const room = getRoom(data.roomId);
+    if (!room) return cb(fail("roomNotFound", "Room does not exist"));
+    if (!room.users.has(participantId(socket))) return cb(fail("notInRoom", "Not a member of this room"));
+    const result = mergeHlsLayout(room.hlsLayout, data.layout);
+    if ("error" in result) return cb(fail("invalidRequest", result.error));
+
+    room.hlsLayout = result.layout;
+    cb({ layout: room.hlsLayout });
+    io.to(data.roomId).emit("hlsLayoutChanged", { layout: room.hlsLayout });
+    // Only decoders of resized tiles restart; a no-op when nothing changed
+    safeRestartRoomHls(data.roomId, room);
+}
+
+function handleSetHlsMode(socket: Socket, io: Server, data: RequestOf<"setHlsMode">, cb: Ack<"setHlsMode">): void {
+    if (!authorize(socket, "manageRoom", cb)) return;
+    const room = getRoom(data.roomId);
+    if (!room) return cb(fail("roomNotFound", "Room does not exist"));
+    if (!room.users.has(participantId(socket))) return cb(fail("notInRoom", "Not a member of this room"));
+    if (!room.options.hls) return cb(fail("featureDisabled", "HLS is disabled for this room"));
+
+    room.hlsMode = data.mode;
+    cb({ mode: room.hlsMode });
+    io.to(data.roomId).emit("hlsModeChanged", { mode: room.hlsMode });
+    safeRestartRoomHls(data.roomId, room);
+}
+
+async function handleStartRecording(
+    socket: Socket,
+    io: Server,
+    data: RequestOf<"startRecording">,
+    cb: Ack<"startRecording">
+): Promise<void> {
+    if (!authorize(socket, "manageRoom", cb)) return;
+    const room = getRoom(data.roomId);
+    if (!room) return cb(fail("roomNotFound", "Room does not exist"));
+    if (!room.users.has(participantId(socket))) return cb(fail("notInRoom", "Not a member of this room"));
+    if (!room.options.recording) return cb(fail("featureDisabled", "Recording is disabled for this room"));
+    if (room.recording) return cb(fail("conflict", "Room is already being recorded"));
+    const parsed = parseRecordingOptions(data);
+    if ("error" in parsed) return cb(fail("invalidRequest", parsed.error));
+
+    const recording = await startRecording(data.roomId, parsed.options);
+    room.recording = recording;
+    for (const [userId, userProducers] of room.producers) {
+        recording.participants.add(userId);
+        if (!recording.options.perProducer) continue;
+        for (const producer of userProducers.values()) {
+            recordProducer(recording, room.router, userId, producer)
+                .catch(err => console.error(`[recording] Failed to record producer ${producer.id}:`, err));
+        }
+    }
+
+    const info = { recordingId: recording.id, startedAt: new Date(recording.startedAt).toISOString(), ...parsed.options };
+    cb(info);
+    io.to(data.roomId).emit("recordingStarted", info);
+    sendSystemMessage(room, "recordingStarted", info);
+    // The compositor's output is sent to the recorder as well from now on (no restart)
+    safeRestartRoomHls(data.roomId, room);
+}
+
+async function handleStopRecording(socket: Socket, io: Server, data: RequestOf<"stopRecording">, cb: Ack<"stopRecording">): Promise<void> {
+    if (!authorize(socket, "manageRoom", cb)) return;
+    const room = getRoom(data.roomId);
+    if (!room) return cb(fail("roomNotFound", "Room does not exist"));
+    if (!room.users.has(participantId(socket))) return cb(fail("notInRoom", "Not a member of this room"));
+    const recording = room.recording;
+    if (!recording) return cb(fail("conflict", "Room is not being recorded"));
+
+    room.recording = undefined;
+    const metadata = await stopRecording(recording);
+    cb({ recording: metadata });
+    io.to(data.roomId).emit("recordingStopped", { recording: metadata });
+    sendSystemMessage(room, "recordingStopped", { recordingId: metadata.id, durationMs: metadata.durationMs });
+    // Without HLS the compositor only ran for the recording
+    if (!room.options.hls) safeRestartRoomHls(data.roomId, room);
+}
+
+/**
+ * Adds an RTMP/SRT destination to the room. Members get "restreamStatus" on
+ * every status change; used by the socket handler and the admin API.
+ */
+export async function addRoomRestream(
+    io: Server,
+    roomId: string,
+    room: Room,
+    url: unknown
+): Promise<{ restream: RestreamInfo } | { error: string }> {
+    const parsed = parseRestreamUrl(url);
+    if ("error" in parsed) return { error: parsed.error };
+    const restream = await startRestream(parsed.url, parsed.protocol, (r) => {
+        io.to(roomId).emit("restreamStatus", { roomId, ...describeRestream(r) });
+    });
+    if (room.closed) {
+        stopRestream(restream);
+        return { error: "Room does not exist" };
+    }
+    room.restreams.set(restream.id, restream);
+    // The compositor's output is sent to the destination as well from now on (no restart)
+    safeRestartRoomHls(roomId, room);
+    return { restream: describeRestream(restream) };
+}
+
+export async function removeRoomRestream(io: Server, roomId: string, room: Room, restreamId: string): Promise<boolean> {
+    const restream = room.restreams.get(restreamId);
+    if (!restream) return false;
+    room.restreams.delete(restreamId);
+    await stopRestream(restream);
+    io.to(roomId).emit("restreamStopped", { roomId, restreamId });
+    safeRestartRoomHls(roomId, room);
+    return true;
+}
+
+async function handleStartRestream(socket: Socket, io: Server, data: RequestOf<"startRestream">, cb: Ack<"startRestream">): Promise<void> {
+    if (!authorize(socket, "manageRoom", cb)) return;
+    const room = getRoom(data.roomId);
+    if (!room) return cb(fail("roomNotFound", "Room does not exist"));
+    if (!room.users.has(participantId(socket))) return cb(fail("notInRoom", "Not a member of this room"));
+    const result = await addRoomRestream(io, data.roomId, room, data.url);
+    if ("error" in result) return cb(fail(room.closed ? "roomNotFound" : "invalidRequest", result.error));
+    cb(result);
+}
+
+async function handleStopRestream(socket: Socket, io: Server, data: RequestOf<"stopRestream">, cb: Ack<"stopRestream">): Promise<void> {
+    if (!authorize(socket, "manageRoom", cb)) return;
+    const room = getRoom(data.roomId);
+    if (!room) return cb(fail("roomNotFound", "Room does not exist"));
+    if (!room.users.has(participantId(socket))) return cb(fail("notInRoom", "Not a member of this room"));
+    if (!await removeRoomRestream(io, data.roomId, room, data.restreamId)) return cb(fail("restreamNotFound", "Restream not found"));
+    cb({ stopped: true });
+}
+
+function handleListRestreams(socket: Socket, data: RequestOf<"listRestreams">, cb: Ack<"listRestreams">): void {
+    const room = getRoom(data.roomId);
+    if (!room) return cb(fail("roomNotFound", "Room does not exist"));
+    if (!room.users.has(participantId(socket))) return cb(fail("notInRoom", "Not a member of this room"));
+    cb({ restreams: [...room.restreams.values()].map(describeRestream) });
+}
+
+async function handleStartIngest(
+    socket: Socket,
+    io: Server,
+    data: RequestOf<"startIngest">,
+    cb: Ack<"startIngest">
+): Promise<void> {
+    if (!authorize(socket, "manageRoom", cb)) return;
+    const room = getRoom(data.roomId);
+    if (!room) return cb(fail("roomNotFound", "Room does not exist"));
+    if (!room.users.has(participantId(socket))) return cb(fail("notInRoom", "Not a member of this room"));
+    const parsed = parseIngestSpec(data);
+    if ("error" in parsed) return cb(fail("invalidRequest", parsed.error));
+    const { maxPublishers } = room.options;
+    if (maxPublishers !== undefined && room.producers.size >= maxPublishers) {
+        return cb(fail("publisherLimit", "Publisher limit reached"));
+    }
+
+    const ingest = await startIngest(room, parsed.spec, (ended: Ingest) => {
+        if (room.ingests.get(ended.id) !== ended) return;
+        room.ingests.delete(ended.id);
+        io.to(data.roomId).emit("ingestStopped", { roomId: data.roomId, ingestId: ended.id, reason: "Stream ended" });
+    });
+    if (room.closed) {
+        stopIngest(ingest);
+        return cb(fail("roomNotFound", "Room does not exist"));
+    }
+    room.ingests.set(ingest.id, ingest);
+    // The synthetic participant publishes like a client: microphone and webcam
+    const user: AuthUser = { userId: ingest.id, name: ingest.spec.name, role: "speaker" };
+    for (const producer of ingest.producers) {
+        registerProducer(io, data.roomId, room, producer.kind === "audio" ? "mic" : "webcam", producer, user);
+    }
+    cb({ ingest: describeIngest(ingest, { withPublishUrl: true }) });
+}
+
+async function handleStopIngest(socket: Socket, io: Server, data: RequestOf<"stopIngest">, cb: Ack<"stopIngest">): Promise<void> {
+    if (!authorize(socket, "manageRoom", cb)) return;
+    const room = getRoom(data.roomId);
+    if (!room) return cb(fail("roomNotFound", "Room does not exist"));
+    if (!room.users.has(participantId(socket))) return cb(fail("notInRoom", "Not a member of this room"));
+    const ingest = room.ingests.get(data.ingestId);
+    if (!ingest) return cb(fail("ingestNotFound", "Ingest not found"));
+    room.ingests.delete(ingest.id);
+    await stopIngest(ingest);
+    io.to(data.roomId).emit("ingestStopped", { roomId: data.roomId, ingestId: ingest.id, reason: "Stopped" });
+    cb({ stopped: true });
+}
+
+function handleListIngests(socket: Socket, data: RequestOf<"listIngests">, cb: Ack<"listIngests">): void {
+    const room = getRoom(data.roomId);
+    if (!room) return cb(fail("roomNotFound", "Room does not exist"));
+    if (!room.users.has(participantId(socket))) return cb(fail("notInRoom", "Not a member of this room"));
+    cb({ ingests: [...room.ingests.values()].map(ingest => describeIngest(ingest)) });
+}
+
+/**
+ * Adds a bot to the room (admin API). It publishes like an ingest and, with
+ * `consume`, consumes every producer of the room, also those added later.
+ */
+export async function addRoomBot(
+    io: Server,
+    roomId: string,
+    room: Room,
+    spec: BotSpec
+): Promise<{ bot: BotInfo } | { error: string; code: ErrorCode }> {
+    if (room.bots.size >= config.bots.maxPerRoom) return { error: "Bot limit reached", code: "conflict" };
+    const { maxPublishers } = room.options;
+    if ((spec.audio || spec.video) && maxPublishers !== undefined && room.producers.size >= maxPublishers) {
+        return { error: "Publisher limit reached", code: "publisherLimit" };
+    }
+
+    const bot = await startBot(room, spec, (ended: Bot) => {
+        if (room.bots.get(ended.id) !== ended) return;
+        room.bots.delete(ended.id);
+        console.warn(`[bots] ${ended.id} in room ${roomId} stopped: FFmpeg exited`);
+    });
+    if (room.closed) {
+        stopBot(room, bot);
+        return { error: "Room does not exist", code: "roomNotFound" };
+    }
+    room.bots.set(bot.id, bot);
+    const user: AuthUser = { userId: bot.id, name: spec.name, role: "speaker" };
+    for (const producer of bot.producers) {
+        registerProducer(io, roomId, room, producer.kind === "audio" ? "mic" : "webcam", producer, user);
+    }
+    await consumeRoomProducers(room, bot);
+    return { bot: describeBot(room, bot) };
+}
+
+export async function removeRoomBot(room: Room, botId: string): Promise<boolean> {
+    const bot = room.bots.get(botId);
+    if (!bot) return false;
+    room.bots.delete(botId);
+    await stopBot(room, bot);
+    return true;
+}
+
+/**
+ * Removes a user from one room: closes their transports and producers, and
+ * releases the room when it becomes empty (see releaseEmptyRoom).
+ */
+export function leaveRoom(io: Server, roomId: string, userId: string): void {
+    const room = getRoom(roomId);
+    if (!room) return;
+    // Cleanup transports for this user
+    for (const kind of ["producer", "consumer"] as TransportKind[]) {
+        const key = transportKey(userId, kind);
+        if (room.transports.has(key)) {
+            room.transports.get(key)?.close();
+            room.transports.delete(key);
+        }
+    }
+    releaseConsumerRouter(room, userId);
+    room.consumers.delete(userId);
+    // Usually closed with the transports already
+    room.dataConsumers.delete(userId);
+    for (const dataProducer of room.dataProducers.get(userId)?.values() ?? []) dataProducer.close();
+    room.dataProducers.delete(userId);
+    // Cleanup producers for this user
+    const userProducers = room.producers.get(userId);
+    if (userProducers) {
+        for (const producer of userProducers.values()) {
+            if (producer && !producer.closed) {
+                producer.close();
             }
-            room.producers.delete(socket.id);
-            safeRestartRoomHls(roomId, room);
         }
-        room.users.delete(socket.id);
-
-        emitRoomProducersChanged(roomId, io);
-
-        // If room is empty, destroy router and room
-        if (room.users.size === 0) {
-            if (room.hlsFfmpegProcess) { try { room.hlsFfmpegProcess.kill("SIGKILL"); } catch { } }
-            if (room.hlsPlainTransports) for (const t of room.hlsPlainTransports) { try { t.audio.close(); } catch { } try { t.video.close(); } catch { } }
-            room.hlsFfmpegProcess = undefined;
-            room.hlsPlainTransports = undefined;
-            room.router.close();
-            rooms.delete(roomId);
+        room.producers.delete(userId);
+        safeRestartRoomHls(roomId, room);
+    }
+    room.users.delete(userId);
+    if (room.activeSpeaker === userId) room.activeSpeaker = undefined;
+
+    emitRoomProducersChanged(roomId, io);
+
+    if (room.users.size === 0) {
+        releaseEmptyRoom(roomId);
+    }
+}
+
+/**
+ * Tells every member the room is gone, detaches their sockets and destroys it.
+ */
+export function closeRoom(io: Server, roomId: string, reason: string, options?: { endHls?: boolean }): Promise<void> {
+    if (!getRoom(roomId)) return Promise.resolve();
+    io.to(roomId).emit("roomClosed", { roomId, reason });
+    io.in(roomId).socketsLeave(roomId);
+    return destroyRoom(roomId, options);
+}
+
+// Rooms the participant is in, or still has media in
+function participantRooms(userId: string): string[] {
+    return listRooms()
+        .filter(([, room]) => room.users.has(userId) || room.producers.has(userId) ||
+            (["producer", "consumer"] as TransportKind[]).some(kind => room.transports.has(transportKey(userId, kind))))
+        .map(([roomId]) => roomId);
+}
+
+/**
+ * A socket dropped without saying so (ping timeout, closed connection): its
+ * session keeps everything for config.sessions.graceSeconds. Producers stay
+ * registered, so neither the other members nor the HLS pipeline notice more
+ * than a frozen picture. Deliberate disconnects leave at once.
+ */
+function handleDisconnect(socket: Socket, io: Server, reason: DisconnectReason): void {
+    // Another socket resumed the session
+    if (socket.data.superseded) return;
+    const userId = participantId(socket);
+    const roomIds = participantRooms(userId);
+    const session = getSession(userId);
+    const deliberate = reason === "client namespace disconnect" || reason === "server namespace disconnect";
+    const leave = () => {
+        for (const roomId of participantRooms(userId)) leaveRoom(io, roomId, userId);
+    };
+    if (session && roomIds.length && !deliberate && suspendSession(session, leave)) {
+        const { graceSeconds } = config.sessions;
+        for (const roomId of roomIds) io.to(roomId).emit("participantDisconnected", { roomId, userId, graceSeconds });
+        return;
+    }
+    if (session) endSession(session);
+    for (const roomId of roomIds) leaveRoom(io, roomId, userId);
+}
+
+/**
+ * A client back on a new socket takes over its session: it rejoins its rooms
+ * with the transports, producers and consumers it had, and gets fresh ICE
+ * parameters per transport (`restartIce`) for its side of the ICE restart.
+ */
+async function handleResumeSession(socket: Socket, io: Server, data: RequestOf<"resumeSession">, cb: Ack<"resumeSession">): Promise<void> {
+    const session = resumeSession(socket, data.token, socketUser(socket));
+    if ("error" in session) return cb(fail(session.code, session.error));
+    const userId = session.participantId;
+
+    const rooms = [];
+    for (const roomId of participantRooms(userId)) {
+        const room = getRoom(roomId);
+        if (!room) continue;
+        socket.join(roomId);
+        const restartIce: Partial<Record<TransportKind, IceParameters>> = {};
+        for (const kind of ["producer", "consumer"] as TransportKind[]) {
+            const transport = room.transports.get(transportKey(userId, kind));
+            if (transport && !transport.closed) restartIce[kind] = await transport.restartIce();
         }
+        rooms.push({
+            roomId,
+            options: room.options,
+            activeSpeaker: room.activeSpeaker,
+            hlsStatus: room.hlsHealth && describeHlsHealth(room.hlsHealth),
+            restartIce,
+        });
+        socket.to(roomId).emit("participantReconnected", { roomId, userId });
     }
+    cb({ userId, sessionToken: session.token, rooms });
 }
 
 // --- Main Connection Handler ---
 export function socketIoConnection(io: Server): void {
+    if (!isAuthEnabled()) {
+        console.warn("[auth] JWT_SECRET/JWT_PUBLIC_KEY not set: every socket is an anonymous host");
+    }
+    io.use(socketAuthMiddleware);
+
+    // A dead worker took these routers down: members rebuild their transports on "roomMediaReset"
+    onWorkerDied(async (routers) => {
+        const { recovered, destroyed } = await recoverRooms(routers);
+        for (const roomId of recovered) {
+            io.to(roomId).emit("roomMediaReset", { roomId, reason: "Media worker restarted" });
+        }
+        for (const roomId of destroyed) {
+            io.to(roomId).emit("roomClosed", { roomId, reason: "Media worker died" });
+            io.in(roomId).socketsLeave(roomId);
+        }
+    });
+    onHlsStatus((roomId, room) => {
+        if (room.hlsHealth) io.to(roomId).emit("hlsStatus", { roomId, ...describeHlsHealth(room.hlsHealth) });
+    });
     io.on("connection", (socket: Socket) => {
-        socket.on("createRoom", (_, cb) => handleCreateRoom(socket, cb));
-        socket.on("joinRoom", (data, cb) => handleJoinRoom(socket, io, data, cb));
-        socket.on("getRouterRtpCapabilities", (data, cb) => handleGetRouterRtpCapabilities(socket, data, cb));
-        socket.on("createProducerTransport", (data, cb) => handleCreateTransport(socket, data, "producer", cb));
-        socket.on("connectProducerTransport", (data, cb) => handleConnectTransport(socket, data, "producer", cb));
-        socket.on("createConsumerTransport", (data, cb) => handleCreateTransport(socket, data, "consumer", cb));
-        socket.on("connectConsumerTransport", (data, cb) => handleConnectTransport(socket, data, "consumer", cb));
-        socket.on("produce", (data, cb) => handleProduce(socket, io, data, cb));
-        socket.on("stopProducing", (data, cb) => handleStopProducing(socket, data, cb));
-        socket.on("listProducers", (data, cb) => handleListProducers(socket, data, cb));
-        socket.on("consume", (data, cb) => handleConsume(socket, data, cb));
-        socket.on("disconnect", () => handleDisconnect(socket, io));
+        onRequest(socket, "createRoom", (data, cb) => handleCreateRoom(socket, data, cb));
+        onRequest(socket, "joinRoom", (data, cb) => handleJoinRoom(socket, io, data, cb));
+        onRequest(socket, "getRouterRtpCapabilities", (data, cb) => handleGetRouterRtpCapabilities(socket, data, cb));
+        onRequest(socket, "createProducerTransport", (data, cb) => handleCreateTransport(socket, data, "producer", cb));
+        onRequest(socket, "connectProducerTransport", (data, cb) => handleConnectTransport(socket, data, "producer", cb));
+        onRequest(socket, "createConsumerTransport", (data, cb) => handleCreateTransport(socket, data, "consumer", cb));
+        onRequest(socket, "connectConsumerTransport", (data, cb) => handleConnectTransport(socket, data, "consumer", cb));
+        onRequest(socket, "produce", (data, cb) => handleProduce(socket, io, data, cb));
+        onRequest(socket, "stopProducing", (data, cb) => handleStopProducing(socket, data, cb));
+        onRequest(socket, "listProducers", (data, cb) => handleListProducers(socket, data, cb));
+        onRequest(socket, "consume", (data, cb) => handleConsume(socket, data, cb));
+        onRequest(socket, "pauseConsumer", (data, cb) => handleSetConsumerPaused(socket, data, true, cb));
+        onRequest(socket, "resumeConsumer", (data, cb) => handleSetConsumerPaused(socket, data, false, cb));
+        onRequest(socket, "closeConsumer", (data, cb) => handleCloseConsumer(socket, data, cb));
+        onRequest(socket, "pauseProducer", (data, cb) => handleSetProducerPaused(socket, data, true, cb));
+        onRequest(socket, "resumeProducer", (data, cb) => handleSetProducerPaused(socket, data, false, cb));
+        onRequest(socket, "produceData", (data, cb) => handleProduceData(socket, io, data, cb));
+        onRequest(socket, "listDataProducers", (data, cb) => handleListDataProducers(socket, data, cb));
+        onRequest(socket, "consumeData", (data, cb) => handleConsumeData(socket, data, cb));
+        onRequest(socket, "setPreferredLayers", (data, cb) => handleSetPreferredLayers(socket, data, cb));
+        onRequest(socket, "setConsumerPriority", (data, cb) => handleSetConsumerPriority(socket, data, cb));
+        onRequest(socket, "setHlsLayout", (data, cb) => handleSetHlsLayout(socket, io, data, cb));
+        onRequest(socket, "setHlsMode", (data, cb) => handleSetHlsMode(socket, io, data, cb));
+        onRequest(socket, "startRecording", (data, cb) => handleStartRecording(socket, io, data, cb));
+        onRequest(socket, "stopRecording", (data, cb) => handleStopRecording(socket, io, data, cb));
+        onRequest(socket, "startRestream", (data, cb) => handleStartRestream(socket, io, data, cb));
+        onRequest(socket, "stopRestream", (data, cb) => handleStopRestream(socket, io, data, cb));
+        onRequest(socket, "listRestreams", (data, cb) => handleListRestreams(socket, data, cb));
+        onRequest(socket, "startIngest", (data, cb) => handleStartIngest(socket, io, data, cb));
+        onRequest(socket, "stopIngest", (data, cb) => handleStopIngest(socket, io, data, cb));
+        onRequest(socket, "listIngests", (data, cb) => handleListIngests(socket, data, cb));
+        onRequest(socket, "resumeSession", (data, cb) => handleResumeSession(socket, io, data, cb));
+        socket.on("disconnect", (reason) => handleDisconnect(socket, io, reason));
     });
 }
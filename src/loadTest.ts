@@ -0,0 +1,243 @@
+import { parseArgs } from "node:util";
+import { config } from "./config/mediasoup.config.js";
+
+// --- Load test ---
+// Runs against a server on this machine (or --url) through the admin API:
+// creates N rooms with M bots each, samples worker CPU, consumer counts and
+// HLS restarts while they run, prints a report and removes the rooms again.
+//
+//   npm run build && npm run loadtest -- --rooms 4 --bots 6 --duration 60
+//
+// Needs the server's ADMIN_TOKEN: the admin API is disabled without one.
+
+// --- Type Declarations ---
+// The parts of the admin API responses used here
+interface WorkerSample {
+    index: number;
+    pid: number;
+    routers: number;
+    transports: number;
+    cpu?: { userMs: number; systemMs: number };
+}
+
+interface RoomSample {
+    roomId: string;
+    routers: Array<{ consumers: number }>;
+    producers: unknown[];
+    hls: {
+        health?: { status: string };
+        stats: { restarts: number; failures: number; decoderLaunches: number; lastRestartMs?: number; maxRestartMs: number; totalRestartMs: number };
+    };
+    bots: Array<{ botId: string; consumers: number; received: { packets: number; bytes: number } }>;
+}
+
+type Sample = { at: number; workers: WorkerSample[]; rooms: RoomSample[] };
+
+const USAGE = `Usage: npm run loadtest -- [options]
+  --url <url>          server (default http://127.0.0.1:${config.listenPort})
+  --rooms <n>          rooms to create (default 1)
+  --bots <n>           bots per room (default 4)
+  --duration <s>       how long to run once all bots are in (default 60)
+  --interval <s>       sampling interval (default 5)
+  --media <kind>       pattern or file (default pattern)
+  --file <name>        media file for --media file (below ingest.mediaDir)
+  --no-consume         bots only publish
+  --no-hls             rooms without HLS output
+  --keep               leave the rooms running afterwards
+  --help               show this text`;
+
+// --- Helpers ---
+function parseOptions() {
+    const { values } = parseArgs({
+        options: {
+            url: { type: "string", default: `http://127.0.0.1:${config.listenPort}` },
+            rooms: { type: "string", default: "1" },
+            bots: { type: "string", default: "4" },
+            duration: { type: "string", default: "60" },
+            interval: { type: "string", default: "5" },
+            media: { type: "string", default: "pattern" },
+            file: { type: "string" },
+            "no-consume": { type: "boolean", default: false },
+            "no-hls": { type: "boolean", default: false },
+            keep: { type: "boolean", default: false },
+            help: { type: "boolean", default: false },
+        },
+    });
+    const count = (name: "rooms" | "bots" | "duration" | "interval") => {
+        const value = Number(values[name]);
+        if (!Number.isInteger(value) || value < 1) throw new Error(`--${name} must be a positive integer`);
+        return value;
+    };
+    return {
+        url: values.url.replace(/\/$/, ""),
+        rooms: count("rooms"),
+        bots: count("bots"),
+        duration: count("duration"),
+        interval: count("interval"),
+        media: values.media,
+        file: values.file,
+        consume: !values["no-consume"],
+        hls: !values["no-hls"],
+        keep: values.keep,
+        help: values.help,
+    };
+}
+
+type Options = ReturnType<typeof parseOptions>;
+
+async function admin<T>(options: Options, method: string, route: string, body?: unknown): Promise<T> {
+    const token = config.admin.token;
+    const res = await fetch(`${options.url}/admin${route}`, {
+        method,
+        headers: {
+            ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(`${method} ${route}: ${res.status} ${json.error ?? res.statusText}`);
+    return json as T;
+}
+
+async function sample(options: Options, roomIds: string[]): Promise<Sample> {
+    const { workers } = await admin<{ workers: WorkerSample[] }>(options, "GET", "/workers");
+    const rooms = await Promise.all(roomIds.map(roomId => admin<RoomSample>(options, "GET", `/rooms/${roomId}`)));
+    return { at: Date.now(), workers, rooms };
+}
+
+function cpuMs(worker: WorkerSample | undefined): number | undefined {
+    return worker?.cpu && worker.cpu.userMs + worker.cpu.systemMs;
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+const consumersOf = (room: RoomSample) => sum(room.routers.map(entry => entry.consumers));
+
+function table(header: string[], rows: Array<Array<string | number>>): string {
+    const cells = [header, ...rows.map(row => row.map(String))];
+    const widths = header.map((_, i) => Math.max(...cells.map(row => row[i].length)));
+    return cells.map(row => "  " + row.map((cell, i) => cell.padStart(widths[i])).join("  ")).join("\n");
+}
+
+/**
+ * Worker CPU (% of one core, average and peak between samples), consumers,
+ * HLS restarts and what the bots received over the test.
+ */
+function report(options: Options, samples: Sample[], botAddMs: number[]): string {
+    const first = samples[0];
+    const last = samples[samples.length - 1];
+    const seconds = (last.at - first.at) / 1000;
+
+    const workerRows = last.workers.map(worker => {
+        const loads: number[] = [];
+        for (let i = 1; i < samples.length; i++) {
+            const before = cpuMs(samples[i - 1].workers.find(w => w.pid === worker.pid));
+            const after = cpuMs(samples[i].workers.find(w => w.pid === worker.pid));
+            if (before === undefined || after === undefined) continue;
+            loads.push((after - before) / (samples[i].at - samples[i - 1].at) * 100);
+        }
+        const avg = loads.length ? sum(loads) / loads.length : undefined;
+        return [
+            worker.index, worker.pid,
+            avg !== undefined ? `${avg.toFixed(1)}%` : "-",
+            loads.length ? `${Math.max(...loads).toFixed(1)}%` : "-",
+            worker.routers, worker.transports,
+        ];
+    });
+
+    const roomRows = last.rooms.map(room => {
+        const { restarts, failures, decoderLaunches, maxRestartMs, totalRestartMs } = room.hls.stats;
+        const received = sum(room.bots.map(bot => bot.received.bytes)) -
+            sum(first.rooms.find(r => r.roomId === room.roomId)?.bots.map(bot => bot.received.bytes) ?? []);
+        return [
+            room.roomId, room.bots.length, room.producers.length, consumersOf(room), room.routers.length,
+            restarts, decoderLaunches, failures,
+            restarts ? Math.round(totalRestartMs / restarts) : "-",
+            restarts ? maxRestartMs : "-",
+            room.hls.health?.status ?? "-",
+            seconds > 0 ? (received * 8 / seconds / 1e6).toFixed(2) : "-",
+        ];
+    });
+
+    const peakConsumers = Math.max(...samples.map(s => sum(s.rooms.map(consumersOf))));
+    const lines = [
+        `${options.rooms} room(s) x ${options.bots} bot(s), ${options.consume ? "publishing and consuming" : "publishing only"}, ` +
+            `${seconds.toFixed(0)} s sampled`,
+        "",
+        "Workers (CPU in % of one core)",
+        table(["#", "pid", "cpu avg", "cpu max", "routers", "transports"], workerRows),
+        "",
+        "Rooms (HLS compositor launch times in ms; decoders: input decoder launches; received: what the room's bots got, Mbit/s)",
+        table(["room", "bots", "producers", "consumers", "routers", "hls restarts", "decoders", "failures", "avg ms", "max ms", "hls", "received"], roomRows),
+        "",
+        `Consumers: ${sum(last.rooms.map(consumersOf))} (peak ${peakConsumers})`,
+        `Adding a bot took ${Math.round(sum(botAddMs) / botAddMs.length)} ms on average, ${Math.max(...botAddMs)} ms at most`,
+    ];
+    return lines.join("\n");
+}
+
+// --- Main ---
+async function run(): Promise<void> {
+    const options = parseOptions();
+    if (options.help) {
+        console.log(USAGE);
+        return;
+    }
+    const prefix = `loadtest-${Date.now().toString(36)}`;
+    const roomIds: string[] = [];
+    const botAddMs: number[] = [];
+    let cleanedUp = false;
+    const cleanup = async () => {
+        if (cleanedUp || options.keep) return;
+        cleanedUp = true;
+        await Promise.all(roomIds.map(roomId =>
+            admin(options, "DELETE", `/rooms/${roomId}`).catch(err => console.error(`[loadtest] ${err.message}`))
+        ));
+    };
+    process.once("SIGINT", () => {
+        console.log("[loadtest] Interrupted, removing the rooms");
+        cleanup().finally(() => process.exit(130));
+    });
+
+    try {
+        for (let r = 0; r < options.rooms; r++) {
+            const roomId = `${prefix}-${r + 1}`;
+            await admin(options, "POST", "/rooms", { roomId, hls: options.hls });
+            roomIds.push(roomId);
+        }
+        console.log(`[loadtest] Created ${roomIds.length} room(s), adding ${options.bots} bot(s) to each`);
+        // Round-robin, so every room's HLS pipeline restarts as bots come in
+        for (let b = 0; b < options.bots; b++) {
+            for (const roomId of roomIds) {
+                const startedAt = Date.now();
+                await admin(options, "POST", `/rooms/${roomId}/bots`, {
+                    name: `Bot ${b + 1}`,
+                    media: options.media,
+                    file: options.file,
+                    consume: options.consume,
+                });
+                botAddMs.push(Date.now() - startedAt);
+            }
+        }
+
+        console.log(`[loadtest] All bots in, sampling every ${options.interval} s for ${options.duration} s`);
+        const samples = [await sample(options, roomIds)];
+        const endAt = samples[0].at + options.duration * 1000;
+        while (Date.now() < endAt) {
+            await new Promise(resolve => setTimeout(resolve, Math.min(options.interval * 1000, endAt - Date.now())));
+            const current = await sample(options, roomIds);
+            samples.push(current);
+            const consumers = sum(current.rooms.map(consumersOf));
+            const live = current.rooms.filter(room => room.hls.health?.status === "live").length;
+            console.log(`[loadtest] ${Math.round((current.at - samples[0].at) / 1000)} s: ${consumers} consumers, HLS live in ${live}/${roomIds.length} room(s)`);
+        }
+        console.log("\n" + report(options, samples, botAddMs));
+    } finally {
+        await cleanup();
+    }
+}
+
+run().catch(err => {
+    console.error(`[loadtest] ${err.message}`);
+    process.exitCode = 1;
+});
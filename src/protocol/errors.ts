@@ -0,0 +1,48 @@
+// --- Error codes ---
+// Stable: clients branch on `code`, `message` is for humans and may change.
+export const ERROR_CODES = [
+    // The payload does not match the event's schema, or a value is out of range
+    "invalidRequest",
+    // The user's role lacks the permission (`permission` names it)
+    "forbidden",
+    "roomNotFound",
+    "roomExists",
+    "notInRoom",
+    "wrongPassword",
+    "roomFull",
+    "publisherLimit",
+    "transportNotFound",
+    "producerNotFound",
+    "consumerNotFound",
+    "dataProducerNotFound",
+    "restreamNotFound",
+    "ingestNotFound",
+    // resumeSession: unknown or expired token
+    "sessionNotFound",
+    // The client's RTP capabilities cannot receive the producer
+    "cannotConsume",
+    // The room has the feature (HLS, recording) turned off
+    "featureDisabled",
+    // The request does not fit the current state, e.g. stopRecording without a recording
+    "conflict",
+    // The server is draining or shutting down
+    "unavailable",
+    // Anything unexpected; the server logs the details
+    "internal",
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+export interface ProtocolError {
+    code: ErrorCode;
+    message: string;
+    // "forbidden" only
+    permission?: string;
+}
+
+// What every failed request is acknowledged with
+export type ErrorResponse = { error: ProtocolError };
+
+export function isErrorResponse(result: unknown): result is ErrorResponse {
+    return typeof result === "object" && result !== null && "error" in result;
+}
@@ -0,0 +1,193 @@
+import type { ErrorResponse } from "./errors.js";
+import type {
+    AudioLevel,
+    ConsumerLayers,
+    DataProducerInfo,
+    DtlsParameters,
+    HlsHealthInfo,
+    HlsLayout,
+    HlsLayoutPatch,
+    HlsMode,
+    IceCandidate,
+    IceParameters,
+    IngestInfo,
+    IngestType,
+    ProducerInfo,
+    ProducerKind,
+    ProducerSource,
+    RecordingFormat,
+    RecordingMetadata,
+    RestreamInfo,
+    RoomOptions,
+    RtpCapabilities,
+    RtpParameters,
+    SctpParameters,
+    SctpStreamParameters,
+    TransportKind,
+    UserInfo,
+} from "./types.js";
+
+// --- Payloads shared by several events ---
+type RoomRequest = { roomId: string };
+type ConsumerRequest = { roomId: string; consumerId: string };
+type ProducerRequest = { roomId: string; producerId: string };
+
+export interface CreateRoomRequest {
+    roomId?: string;
+    name?: string;
+    maxParticipants?: number;
+    maxPublishers?: number;
+    hls?: boolean;
+    recording?: boolean;
+    idleTimeoutSeconds?: number;
+    password?: string;
+}
+
+export interface StartIngestRequest {
+    roomId: string;
+    type: IngestType;
+    name?: string;
+    url?: string;
+    file?: string;
+    loop?: boolean;
+    audio?: boolean;
+    video?: boolean;
+}
+
+export interface RoomJoined {
+    roomId: string;
+    options: RoomOptions;
+    activeSpeaker?: string;
+    hlsStatus?: HlsHealthInfo;
+}
+
+export interface TransportInfo {
+    id: string;
+    iceParameters: IceParameters;
+    iceCandidates: IceCandidate[];
+    dtlsParameters: DtlsParameters;
+    sctpParameters?: SctpParameters;
+}
+
+export interface RecordingInfo {
+    recordingId: string;
+    startedAt: string;
+    format: RecordingFormat;
+    perProducer: boolean;
+}
+
+type ProducerEvent = { userId: string; producerId: string; kind: ProducerKind; source: ProducerSource };
+
+// --- Client → server ---
+// Payload and success response of every event a client emits. Each one is
+// acknowledged exactly once, with the response or an ErrorResponse.
+export interface ClientRequests {
+    createRoom: { request: CreateRoomRequest | undefined; response: { roomId: string; options: RoomOptions; sessionToken: string } };
+    joinRoom: { request: { roomId: string; password?: string }; response: RoomJoined & { sessionToken: string } };
+    resumeSession: {
+        request: { token: string };
+        response: {
+            userId: string;
+            sessionToken: string;
+            // New ICE parameters per transport, for the client side of the ICE restart
+            rooms: Array<RoomJoined & { restartIce: Partial<Record<TransportKind, IceParameters>> }>;
+        };
+    };
+    getRouterRtpCapabilities: { request: RoomRequest; response: { rtpCapabilities: RtpCapabilities } };
+    createProducerTransport: { request: RoomRequest; response: TransportInfo };
+    connectProducerTransport: { request: RoomRequest & { dtlsParameters: DtlsParameters }; response: { connected: true } };
+    createConsumerTransport: { request: RoomRequest; response: TransportInfo };
+    connectConsumerTransport: { request: RoomRequest & { dtlsParameters: DtlsParameters }; response: { connected: true } };
+    produce: {
+        request: RoomRequest & { kind: ProducerKind; rtpParameters: RtpParameters; appData?: { source?: ProducerSource } };
+        response: { id: string; source: ProducerSource };
+    };
+    stopProducing: { request: RoomRequest & { source?: ProducerSource }; response: { stopped: true } };
+    listProducers: { request: RoomRequest; response: { producers: ProducerInfo[] } };
+    consume: {
+        request: RoomRequest & { producerId: string; rtpCapabilities: RtpCapabilities; preferredLayers?: ConsumerLayers; priority?: number };
+        response: {
+            id: string;
+            producerId: string;
+            kind: ProducerKind;
+            type: "simple" | "simulcast" | "svc" | "pipe";
+            rtpParameters: RtpParameters;
+            paused: boolean;
+            producerPaused: boolean;
+        };
+    };
+    pauseConsumer: { request: ConsumerRequest; response: { paused: boolean; producerPaused: boolean } };
+    resumeConsumer: { request: ConsumerRequest; response: { paused: boolean; producerPaused: boolean } };
+    closeConsumer: { request: ConsumerRequest; response: { closed: true } };
+    pauseProducer: { request: ProducerRequest; response: { paused: boolean } };
+    resumeProducer: { request: ProducerRequest; response: { paused: boolean } };
+    produceData: {
+        request: RoomRequest & { sctpStreamParameters: SctpStreamParameters; label?: string; protocol?: string };
+        response: { id: string };
+    };
+    listDataProducers: { request: RoomRequest; response: { dataProducers: DataProducerInfo[] } };
+    consumeData: {
+        request: RoomRequest & { dataProducerId: string };
+        response: { id: string; dataProducerId: string; sctpStreamParameters?: SctpStreamParameters; label: string; protocol: string };
+    };
+    setPreferredLayers: { request: ConsumerRequest & ConsumerLayers; response: { preferredLayers: ConsumerLayers } };
+    setConsumerPriority: { request: ConsumerRequest & { priority: number }; response: { priority: number } };
+    setHlsLayout: { request: RoomRequest & { layout: HlsLayoutPatch }; response: { layout: HlsLayout } };
+    setHlsMode: { request: RoomRequest & { mode: HlsMode }; response: { mode: HlsMode } };
+    startRecording: { request: RoomRequest & { format?: RecordingFormat; perProducer?: boolean }; response: RecordingInfo };
+    stopRecording: { request: RoomRequest; response: { recording: RecordingMetadata } };
+    startRestream: { request: RoomRequest & { url: string }; response: { restream: RestreamInfo } };
+    stopRestream: { request: RoomRequest & { restreamId: string }; response: { stopped: true } };
+    listRestreams: { request: RoomRequest; response: { restreams: RestreamInfo[] } };
+    startIngest: { request: StartIngestRequest; response: { ingest: IngestInfo } };
+    stopIngest: { request: RoomRequest & { ingestId: string }; response: { stopped: true } };
+    listIngests: { request: RoomRequest; response: { ingests: IngestInfo[] } };
+}
+
+export type RequestEvent = keyof ClientRequests;
+export type RequestOf<E extends RequestEvent> = ClientRequests[E]["request"];
+export type ResponseOf<E extends RequestEvent> = ClientRequests[E]["response"];
+export type Ack<E extends RequestEvent> = (result: ResponseOf<E> | ErrorResponse) => void;
+
+// --- Server → client ---
+// Payload of every event the server emits; undefined for events without one
+export interface ServerEvents {
+    roomProducersChanged: undefined;
+    newProducer: ProducerEvent & { user: UserInfo };
+    producerClosed: ProducerEvent;
+    producerPaused: ProducerEvent;
+    producerResumed: ProducerEvent;
+    consumerClosed: { roomId: string; consumerId: string; producerId: string };
+    layersChanged: { roomId: string; consumerId: string; layers: ConsumerLayers | null };
+    newDataProducer: DataProducerInfo;
+    dataProducerClosed: DataProducerInfo;
+    dataConsumerClosed: { roomId: string; dataConsumerId: string; dataProducerId: string };
+    activeSpeaker: { roomId: string; userId: string; producerId: string };
+    // Loudest producers (dBvo); empty on silence
+    audioLevels: { roomId: string; levels: AudioLevel[] };
+    hlsLayoutChanged: { layout: HlsLayout };
+    hlsModeChanged: { mode: HlsMode };
+    hlsStatus: { roomId: string } & HlsHealthInfo;
+    recordingStarted: RecordingInfo;
+    recordingStopped: { recording: RecordingMetadata };
+    restreamStatus: { roomId: string } & RestreamInfo;
+    restreamStopped: { roomId: string; restreamId: string };
+    ingestStopped: { roomId: string; ingestId: string; reason: string };
+    participantDisconnected: { roomId: string; userId: string; graceSeconds: number };
+    participantReconnected: { roomId: string; userId: string };
+    roomClosed: { roomId: string; reason: string };
+    roomMediaReset: { roomId: string; reason: string };
+    kicked: { roomId: string };
+    serverShuttingDown: { reason: string; deadline: string };
+}
+
+// --- Socket.IO event maps ---
+// `io(url) as Socket<ServerToClientEvents, ClientToServerEvents>` on the client,
+// `Server<ClientToServerEvents, ServerToClientEvents>` on the server.
+export type ClientToServerEvents = {
+    [E in RequestEvent]: (data: RequestOf<E>, ack: Ack<E>) => void;
+};
+
+export type ServerToClientEvents = {
+    [E in keyof ServerEvents]: (...payload: ServerEvents[E] extends undefined ? [] : [ServerEvents[E]]) => void;
+};
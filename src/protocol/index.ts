@@ -0,0 +1,8 @@
+// Signaling protocol of the SFU: Socket.IO events with their payloads and
+// responses, error codes and payload validation. Shared by the server and its
+// clients, so it imports nothing outside this directory (not even mediasoup).
+export * from "./types.js";
+export * from "./errors.js";
+export * from "./events.js";
+export * from "./schema.js";
+export * from "./validate.js";
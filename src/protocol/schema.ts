@@ -0,0 +1,60 @@
+// --- Type Declarations ---
+// Checks one value: the (cleaned up) value when it is valid, a message otherwise.
+// `field` is the path used in the message, e.g. "appData.source".
+export type Rule<T> = (value: unknown, field: string) => { value: T } | { error: string };
+
+// One rule per property; the compiler keeps it in line with the payload type
+export type Schema<T> = { [K in keyof T]-?: Rule<T[K]> };
+
+// --- Rules ---
+export function string({ maxLength = 4096 }: { maxLength?: number } = {}): Rule<string> {
+    return (value, field) =>
+        typeof value === "string" && value.length <= maxLength
+            ? { value }
+            : { error: `${field} must be a string of at most ${maxLength} characters` };
+}
+
+export const number: Rule<number> = (value, field) =>
+    typeof value === "number" && Number.isFinite(value) ? { value } : { error: `${field} must be a number` };
+
+export const boolean: Rule<boolean> = (value, field) =>
+    typeof value === "boolean" ? { value } : { error: `${field} must be a boolean` };
+
+export function oneOf<T extends string>(...values: T[]): Rule<T> {
+    return (value, field) =>
+        values.includes(value as T) ? { value: value as T } : { error: `${field} must be one of ${values.join(", ")}` };
+}
+
+// A mediasoup parameter object (T: RtpParameters, DtlsParameters, ...). Only
+// checked to be an object here, in detail by mediasoup.
+export function mediaParameters<T extends object>(): Rule<T> {
+    return (value, field) =>
+        typeof value === "object" && value !== null && !Array.isArray(value)
+            ? { value: value as T }
+            : { error: `${field} must be an object` };
+}
+
+export function optional<T>(rule: Rule<T>): Rule<T | undefined> {
+    return (value, field) => (value === undefined || value === null ? { value: undefined } : rule(value, field));
+}
+
+// Like optional, but keeps an explicit null (e.g. to clear a setting)
+export function nullable<T>(rule: Rule<T>): Rule<T | null | undefined> {
+    return (value, field) => (value === undefined ? { value: undefined } : value === null ? { value: null } : rule(value, field));
+}
+
+/**
+ * An object with the properties of `schema`; anything else is dropped.
+ */
+export function shape<T>(schema: Schema<T>): Rule<T> {
+    return (value, field) => {
+        if (typeof value !== "object" || value === null || Array.isArray(value)) return { error: `${field || "payload"} must be an object` };
+        const result: Record<string, unknown> = {};
+        for (const [key, rule] of Object.entries(schema) as Array<[string, Rule<unknown>]>) {
+            const checked = rule((value as Record<string, unknown>)[key], field ? `${field}.${key}` : key);
+            if ("error" in checked) return checked;
+            if (checked.value !== undefined) result[key] = checked.value;
+        }
+        return { value: result as T };
+    };
+}
@@ -0,0 +1,261 @@
+// --- mediasoup parameters ---
+// Passed through unchanged and validated by mediasoup itself. Declared here by
+// shape, so clients need neither mediasoup nor mediasoup-client to use the
+// protocol: what mediasoup and mediasoup-client produce fits these, and they
+// fit what they accept.
+export type MediaKind = "audio" | "video";
+
+// The header extensions mediasoup (and mediasoup-client) know
+export type RtpHeaderExtensionUri =
+    | "urn:ietf:params:rtp-hdrext:sdes:mid"
+    | "urn:ietf:params:rtp-hdrext:sdes:rtp-stream-id"
+    | "urn:ietf:params:rtp-hdrext:sdes:repaired-rtp-stream-id"
+    | "http://tools.ietf.org/html/draft-ietf-avtext-framemarking-07"
+    | "urn:ietf:params:rtp-hdrext:framemarking"
+    | "urn:ietf:params:rtp-hdrext:ssrc-audio-level"
+    | "urn:3gpp:video-orientation"
+    | "urn:ietf:params:rtp-hdrext:toffset"
+    | "http://www.ietf.org/id/draft-holmer-rmcat-transport-wide-cc-extensions-01"
+    | "http://www.webrtc.org/experiments/rtp-hdrext/abs-send-time"
+    | "http://www.webrtc.org/experiments/rtp-hdrext/abs-capture-time"
+    | "http://www.webrtc.org/experiments/rtp-hdrext/playout-delay"
+    | "https://aomediacodec.github.io/av1-rtp-spec/#dependency-descriptor-rtp-header-extension";
+
+export interface RtcpFeedback {
+    type: string;
+    parameter?: string;
+}
+
+export interface RtpCodecCapability {
+    kind: MediaKind;
+    mimeType: string;
+    preferredPayloadType?: number;
+    clockRate: number;
+    channels?: number;
+    parameters?: any;
+    rtcpFeedback?: RtcpFeedback[];
+}
+
+export interface RtpHeaderExtension {
+    kind: MediaKind;
+    uri: RtpHeaderExtensionUri;
+    preferredId: number;
+    preferredEncrypt?: boolean;
+    direction?: "sendrecv" | "sendonly" | "recvonly" | "inactive";
+}
+
+export interface RtpCapabilities {
+    codecs?: RtpCodecCapability[];
+    headerExtensions?: RtpHeaderExtension[];
+}
+
+export interface RtpCodecParameters {
+    mimeType: string;
+    payloadType: number;
+    clockRate: number;
+    channels?: number;
+    parameters?: any;
+    rtcpFeedback?: RtcpFeedback[];
+}
+
+export interface RtpHeaderExtensionParameters {
+    uri: RtpHeaderExtensionUri;
+    id: number;
+    encrypt?: boolean;
+    parameters?: any;
+}
+
+export interface RtpEncodingParameters {
+    ssrc?: number;
+    rid?: string;
+    codecPayloadType?: number;
+    rtx?: { ssrc: number };
+    dtx?: boolean;
+    scalabilityMode?: string;
+    scaleResolutionDownBy?: number;
+    maxBitrate?: number;
+}
+
+export interface RtpParameters {
+    mid?: string;
+    codecs: RtpCodecParameters[];
+    headerExtensions?: RtpHeaderExtensionParameters[];
+    encodings?: RtpEncodingParameters[];
+    rtcp?: { cname?: string; reducedSize?: boolean };
+}
+
+export interface IceParameters {
+    usernameFragment: string;
+    password: string;
+    iceLite?: boolean;
+}
+
+export interface IceCandidate {
+    foundation: string;
+    priority: number;
+    address: string;
+    // Deprecated alias of address, still sent by mediasoup
+    ip?: string;
+    protocol: "udp" | "tcp";
+    port: number;
+    type: "host" | "srflx" | "prflx" | "relay";
+    tcpType?: "active" | "passive" | "so";
+}
+
+export type FingerprintAlgorithm = "sha-1" | "sha-224" | "sha-256" | "sha-384" | "sha-512";
+
+export interface DtlsParameters {
+    role?: "auto" | "client" | "server";
+    fingerprints: Array<{ algorithm: FingerprintAlgorithm; value: string }>;
+}
+
+export interface SctpParameters {
+    port: number;
+    OS: number;
+    MIS: number;
+    maxMessageSize: number;
+}
+
+export interface SctpStreamParameters {
+    streamId: number;
+    ordered?: boolean;
+    maxPacketLifeTime?: number;
+    maxRetransmits?: number;
+}
+
+// --- Users and media ---
+export type Role = "host" | "speaker" | "viewer";
+export type TransportKind = "producer" | "consumer";
+export type ProducerKind = MediaKind;
+// Client supplied label of a producer (appData.source); a user has at most one producer per source
+export type ProducerSource = "mic" | "webcam" | "screen" | "screen-audio";
+
+export interface UserInfo {
+    userId: string;
+    name?: string;
+    role: Role;
+}
+
+export interface ConsumerLayers {
+    spatialLayer: number;
+    temporalLayer?: number;
+}
+
+export interface ProducerInfo {
+    userId: string;
+    producerId: string;
+    kind: ProducerKind;
+    source: ProducerSource;
+    paused: boolean;
+}
+
+export interface DataProducerInfo {
+    // undefined for the server's system channel
+    userId?: string;
+    dataProducerId: string;
+    label: string;
+    protocol: string;
+}
+
+export type AudioLevel = { userId: string; producerId: string; volume: number };
+
+// --- Rooms ---
+export interface RoomOptions {
+    name?: string;
+    // Limits; undefined means unlimited
+    maxParticipants?: number;
+    maxPublishers?: number;
+    // Whether the room gets HLS output / may be recorded
+    hls: boolean;
+    recording: boolean;
+    // How long an empty room is kept before it is destroyed (0 = immediately)
+    idleTimeoutSeconds: number;
+    // Pre-provisioned rooms are never destroyed for being empty
+    persistent: boolean;
+}
+
+// --- HLS ---
+export type HlsMode = "ts" | "llhls";
+export type HlsLayoutMode = "grid" | "speaker" | "pinned";
+export type HlsTileFit = "pad" | "crop";
+
+export interface HlsLayout {
+    mode: HlsLayoutMode;
+    width: number;
+    height: number;
+    fit: HlsTileFit;
+    // Only used by the "pinned" mode; falls back to the first participant when absent
+    pinnedUserId?: string;
+}
+
+// What setHlsLayout changes; `pinnedUserId: null` unpins
+export type HlsLayoutPatch = Partial<Omit<HlsLayout, "pinnedUserId">> & { pinnedUserId?: string | null };
+
+// "starting": compositor launched, no output yet; "live": the output advances;
+// "stalled": no output for a while; "failed": FFmpeg exited on its own.
+// Stalled and failed pipelines are restarted after a backoff.
+export type HlsStatus = "starting" | "live" | "stalled" | "failed";
+
+export interface HlsHealthInfo {
+    status: HlsStatus;
+    since: string;
+    attempts: number;
+    lastError?: string;
+    nextAttemptAt?: string;
+    progress?: { time: string; speed?: number };
+}
+
+// --- Recording, restreams and ingests ---
+export type RecordingFormat = "mp4" | "webm";
+
+export interface RecordingFile {
+    name: string;
+    type: "composite" | "producer";
+    userId?: string;
+    producerId?: string;
+    kind?: ProducerKind;
+    source?: string;
+}
+
+export interface RecordingMetadata {
+    id: string;
+    roomId: string;
+    format: RecordingFormat;
+    startedAt: string;
+    endedAt: string;
+    durationMs: number;
+    participants: string[];
+    files: RecordingFile[];
+}
+
+export type RestreamProtocol = "rtmp" | "srt";
+// "failed": the last attempt ended, the next one starts after a backoff
+export type RestreamStatus = "connecting" | "live" | "failed";
+
+export interface RestreamInfo {
+    restreamId: string;
+    // Without the stream key
+    url: string;
+    protocol: RestreamProtocol;
+    status: RestreamStatus;
+    startedAt: string;
+    liveSince?: string;
+    attempts: number;
+    lastError?: string;
+    nextAttemptAt?: string;
+}
+
+// rtmp/srt: the server listens and an encoder (OBS, ...) publishes to it;
+// pull: the server reads a remote stream (e.g. an RTSP camera); file: a file of config.ingest.mediaDir
+export type IngestType = "rtmp" | "srt" | "pull" | "file";
+
+export interface IngestInfo {
+    ingestId: string;
+    type: IngestType;
+    name: string;
+    file?: string;
+    // Only in the startIngest response
+    publishUrl?: string;
+    producers: Array<{ producerId: string; kind: ProducerKind }>;
+    startedAt: string;
+}
@@ -0,0 +1,103 @@
+import type { RequestEvent, RequestOf } from "./events.js";
+import type { DtlsParameters, RtpCapabilities, RtpParameters, SctpStreamParameters } from "./types.js";
+import { boolean, mediaParameters, nullable, number, oneOf, optional, Rule, shape, string } from "./schema.js";
+
+// --- Rules shared by several events ---
+const id = string({ maxLength: 128 });
+const roomId = id;
+const producerKind = oneOf("audio", "video");
+const producerSource = oneOf("mic", "webcam", "screen", "screen-audio");
+const room = shape({ roomId });
+const consumer = shape({ roomId, consumerId: id });
+const producer = shape({ roomId, producerId: id });
+const connectTransport = shape({ roomId, dtlsParameters: mediaParameters<DtlsParameters>() });
+
+// --- Schemas ---
+// Shape checks only: ranges and combinations (layers, room limits, ingest URLs, ...)
+// are checked by the server with the room's state at hand.
+export const REQUEST_SCHEMAS: { [E in RequestEvent]: Rule<RequestOf<E>> } = {
+    createRoom: optional(shape({
+        roomId: optional(id),
+        name: optional(string()),
+        maxParticipants: optional(number),
+        maxPublishers: optional(number),
+        hls: optional(boolean),
+        recording: optional(boolean),
+        idleTimeoutSeconds: optional(number),
+        password: optional(string()),
+    })),
+    joinRoom: shape({ roomId, password: optional(string()) }),
+    resumeSession: shape({ token: string({ maxLength: 256 }) }),
+    getRouterRtpCapabilities: room,
+    createProducerTransport: room,
+    connectProducerTransport: connectTransport,
+    createConsumerTransport: room,
+    connectConsumerTransport: connectTransport,
+    produce: shape({
+        roomId,
+        kind: producerKind,
+        rtpParameters: mediaParameters<RtpParameters>(),
+        appData: optional(shape({ source: optional(producerSource) })),
+    }),
+    stopProducing: shape({ roomId, source: optional(producerSource) }),
+    listProducers: room,
+    consume: shape({
+        roomId,
+        producerId: id,
+        rtpCapabilities: mediaParameters<RtpCapabilities>(),
+        preferredLayers: optional(shape({ spatialLayer: number, temporalLayer: optional(number) })),
+        priority: optional(number),
+    }),
+    pauseConsumer: consumer,
+    resumeConsumer: consumer,
+    closeConsumer: consumer,
+    pauseProducer: producer,
+    resumeProducer: producer,
+    produceData: shape({
+        roomId,
+        sctpStreamParameters: mediaParameters<SctpStreamParameters>(),
+        label: optional(string({ maxLength: 256 })),
+        protocol: optional(string({ maxLength: 256 })),
+    }),
+    listDataProducers: room,
+    consumeData: shape({ roomId, dataProducerId: id }),
+    setPreferredLayers: shape({ roomId, consumerId: id, spatialLayer: number, temporalLayer: optional(number) }),
+    setConsumerPriority: shape({ roomId, consumerId: id, priority: number }),
+    setHlsLayout: shape({
+        roomId,
+        layout: shape({
+            mode: optional(oneOf("grid", "speaker", "pinned")),
+            width: optional(number),
+            height: optional(number),
+            fit: optional(oneOf("pad", "crop")),
+            // null unpins
+            pinnedUserId: nullable(id),
+        }),
+    }),
+    setHlsMode: shape({ roomId, mode: oneOf("ts", "llhls") }),
+    startRecording: shape({ roomId, format: optional(oneOf("mp4", "webm")), perProducer: optional(boolean) }),
+    stopRecording: room,
+    startRestream: shape({ roomId, url: string() }),
+    stopRestream: shape({ roomId, restreamId: id }),
+    listRestreams: room,
+    startIngest: shape({
+        roomId,
+        type: oneOf("rtmp", "srt", "pull", "file"),
+        name: optional(string()),
+        url: optional(string()),
+        file: optional(string()),
+        loop: optional(boolean),
+        audio: optional(boolean),
+        video: optional(boolean),
+    }),
+    stopIngest: shape({ roomId, ingestId: id }),
+    listIngests: room,
+};
+
+/**
+ * Checks the payload of a client request; the value has unknown properties removed.
+ */
+export function validateRequest<E extends RequestEvent>(event: E, data: unknown): { value: RequestOf<E> } | { error: string } {
+    const rule = REQUEST_SCHEMAS[event] as Rule<RequestOf<E>>;
+    return rule(data, "");
+}
@@ -0,0 +1,117 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+    blackFrame, blitFrame, createPcmQueue, Frame, frameBytes, mixPcm, pushPcm, samplesForTick, scaleFrame, takePcm,
+} from "../src/lib/hlsCanvas.js";
+
+// A frame whose Y, U and V planes are filled with the given values
+function solidFrame(width: number, height: number, y: number, u: number, v: number): Frame {
+    const data = Buffer.alloc(frameBytes(width, height));
+    const luma = width * height;
+    data.fill(y, 0, luma).fill(u, luma, luma * 5 / 4).fill(v, luma * 5 / 4);
+    return { width, height, data };
+}
+
+function plane(frame: Frame, p: 0 | 1 | 2): number[][] {
+    const luma = frame.width * frame.height;
+    const [offset, width, height] = p === 0
+        ? [0, frame.width, frame.height]
+        : [luma + (p - 1) * luma / 4, frame.width / 2, frame.height / 2];
+    return Array.from({ length: height }, (_, row) => [...frame.data.subarray(offset + row * width, offset + (row + 1) * width)]);
+}
+
+function pcm(...samples: number[]): Buffer {
+    const buffer = Buffer.alloc(samples.length * 2);
+    samples.forEach((sample, i) => buffer.writeInt16LE(sample, i * 2));
+    return buffer;
+}
+
+function samples(buffer: Buffer): number[] {
+    return Array.from({ length: buffer.length / 2 }, (_, i) => buffer.readInt16LE(i * 2));
+}
+
+test("blackFrame is limited range black", () => {
+    const frame = blackFrame(4, 2);
+    assert.equal(frame.data.length, 12);
+    assert.deepEqual([...frame.data], [16, 16, 16, 16, 16, 16, 16, 16, 128, 128, 128, 128]);
+});
+
+test("blitFrame copies every plane at the position", () => {
+    const canvas = blackFrame(6, 4);
+    blitFrame(canvas, solidFrame(2, 2, 200, 50, 60), 2, 2);
+    assert.deepEqual(plane(canvas, 0), [
+        [16, 16, 16, 16, 16, 16],
+        [16, 16, 16, 16, 16, 16],
+        [16, 16, 200, 200, 16, 16],
+        [16, 16, 200, 200, 16, 16],
+    ]);
+    assert.deepEqual(plane(canvas, 1), [[128, 128, 128], [128, 50, 128]]);
+    assert.deepEqual(plane(canvas, 2), [[128, 128, 128], [128, 60, 128]]);
+});
+
+test("blitFrame cuts off what falls outside the canvas", () => {
+    const canvas = blackFrame(4, 4);
+    blitFrame(canvas, solidFrame(4, 4, 200, 50, 60), 2, 2);
+    assert.deepEqual(plane(canvas, 0).map(row => row.join(",")), [
+        "16,16,16,16",
+        "16,16,16,16",
+        "16,16,200,200",
+        "16,16,200,200",
+    ]);
+    assert.deepEqual(plane(canvas, 1), [[128, 128], [128, 50]]);
+    // Entirely outside: untouched
+    const untouched = blackFrame(4, 4);
+    blitFrame(untouched, solidFrame(2, 2, 200, 50, 60), 4, 0);
+    assert.deepEqual(untouched, blackFrame(4, 4));
+});
+
+test("scaleFrame picks the nearest pixel", () => {
+    const frame = solidFrame(2, 2, 0, 50, 60);
+    frame.data.set([10, 20, 30, 40], 0);
+    const scaled = scaleFrame(frame, 4, 2);
+    assert.deepEqual(plane(scaled, 0), [[10, 10, 20, 20], [30, 30, 40, 40]]);
+    assert.deepEqual(plane(scaled, 1), [[50, 50]]);
+    assert.deepEqual(plane(scaled, 2), [[60, 60]]);
+    assert.deepEqual(plane(scaleFrame(scaled, 2, 2), 0), [[10, 20], [30, 40]]);
+});
+
+test("samplesForTick adds up to the sample rate every second", () => {
+    for (const fps of [24, 25, 30, 60]) {
+        let total = 0;
+        for (let tick = 0; tick < fps * 10; tick++) total += samplesForTick(tick, fps);
+        assert.equal(total, 480000, `${fps} fps`);
+    }
+    // Fractional rates: never drifts from the exact count by a sample
+    let total = 0;
+    for (let tick = 0; tick < 1000; tick++) total += samplesForTick(tick, 29.97);
+    assert.equal(total, Math.floor(48000 * 1000 / 29.97));
+    assert.equal(samplesForTick(0, 30), 1600);
+});
+
+test("takePcm waits for the queue to prime and pads an underrun with silence", () => {
+    const queue = createPcmQueue();
+    pushPcm(queue, pcm(1, 2, 3, 4), 1000);
+    assert.equal(takePcm(queue, 4, 12), undefined);
+    pushPcm(queue, pcm(5, 6), 1000);
+    assert.deepEqual(samples(takePcm(queue, 4, 12)!), [1, 2]);
+    assert.deepEqual(samples(takePcm(queue, 8, 12)!), [3, 4, 5, 6]);
+    assert.deepEqual(samples(takePcm(queue, 4, 12)!), [0, 0]);
+    // Underrun: primes again first
+    pushPcm(queue, pcm(7, 8), 1000);
+    assert.equal(takePcm(queue, 4, 8), undefined);
+});
+
+test("pushPcm drops the oldest whole sample frames beyond the maximum", () => {
+    const queue = createPcmQueue();
+    pushPcm(queue, pcm(1, 2, 3, 4), 100);
+    pushPcm(queue, pcm(5, 6, 7, 8), 10);
+    // 6 bytes over the maximum: rounded up to two stereo sample frames (8 bytes)
+    assert.equal(queue.bytes, 8);
+    assert.deepEqual(samples(takePcm(queue, 8, 0)!), [5, 6, 7, 8]);
+});
+
+test("mixPcm sums voices and clamps to 16 bits", () => {
+    assert.deepEqual(samples(mixPcm([pcm(100, -100, 30000, -30000), pcm(50, -50, 10000, -10000)], 8)), [150, -150, 32767, -32768]);
+    assert.deepEqual(samples(mixPcm([], 4)), [0, 0]);
+    assert.deepEqual(samples(mixPcm([pcm(7, 8)], 4)), [7, 8]);
+});
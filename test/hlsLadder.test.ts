@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+    buildMasterPlaylist, buildVarStreamMap, HlsRendition, renditionCodecs, selectRenditions,
+} from "../src/lib/hlsLadder.js";
+
+const names = (renditions: HlsRendition[]) => renditions.map(r => r.name);
+
+test("selectRenditions skips renditions that would upscale the canvas", () => {
+    assert.deepEqual(names(selectRenditions(1920, 1080)), ["1080p", "720p", "360p", "audio"]);
+    assert.deepEqual(names(selectRenditions(1280, 720)), ["720p", "360p", "audio"]);
+    assert.deepEqual(names(selectRenditions(1279, 1080)), ["360p", "audio"]);
+    // Smaller than every rendition: keeps the smallest one
+    assert.deepEqual(names(selectRenditions(320, 180)), ["360p", "audio"]);
+});
+
+test("renditionCodecs writes the H.264 profile and level", () => {
+    const [full, hd, sd, audio] = selectRenditions(1920, 1080);
+    assert.equal(renditionCodecs(full), "avc1.640028,mp4a.40.2");
+    assert.equal(renditionCodecs(hd), "avc1.4D401F,mp4a.40.2");
+    assert.equal(renditionCodecs(sd), "avc1.42C01E,mp4a.40.2");
+    assert.equal(renditionCodecs(audio), "mp4a.40.2");
+});
+
+test("buildMasterPlaylist lists every rendition with its bandwidth", () => {
+    assert.equal(buildMasterPlaylist(selectRenditions(1280, 720)), [
+        "#EXTM3U",
+        "#EXT-X-VERSION:3",
+        "#EXT-X-INDEPENDENT-SEGMENTS",
+        "#EXT-X-STREAM-INF:BANDWIDTH=3440800,AVERAGE-BANDWIDTH=2890800,CODECS=\"avc1.4D401F,mp4a.40.2\",RESOLUTION=1280x720,FRAME-RATE=30.000",
+        "720p/index.m3u8",
+        "#EXT-X-STREAM-INF:BANDWIDTH=1095600,AVERAGE-BANDWIDTH=985600,CODECS=\"avc1.42C01E,mp4a.40.2\",RESOLUTION=640x360,FRAME-RATE=30.000",
+        "360p/index.m3u8",
+        "#EXT-X-STREAM-INF:BANDWIDTH=70400,AVERAGE-BANDWIDTH=70400,CODECS=\"mp4a.40.2\"",
+        "audio/index.m3u8",
+        "",
+    ].join("\n"));
+});
+
+test("buildVarStreamMap numbers video and audio streams separately", () => {
+    assert.equal(buildVarStreamMap(selectRenditions(1920, 1080)),
+        "v:0,a:0,name:1080p v:1,a:1,name:720p v:2,a:2,name:360p a:3,name:audio");
+    assert.equal(buildVarStreamMap([]), "");
+});
@@ -0,0 +1,138 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+    buildTileFilter, canvasSize, computeTiles, gridTiles, HlsLayout, hlsLayoutKey, mergeHlsLayout, pinnedTiles,
+    speakerTiles, Tile,
+} from "../src/lib/hlsLayout.js";
+
+const LAYOUT: HlsLayout = { mode: "grid", width: 1920, height: 1080, fit: "pad" };
+
+// Every tile even sized and positioned (yuv420p) and inside the canvas
+function assertPlaceable(tiles: Tile[], width: number, height: number): void {
+    for (const tile of tiles) {
+        for (const value of [tile.x, tile.y, tile.w, tile.h]) assert.equal(value % 2, 0, `odd value in ${JSON.stringify(tile)}`);
+        assert.ok(tile.w > 0 && tile.h > 0, `empty tile ${JSON.stringify(tile)}`);
+        assert.ok(tile.x + tile.w <= width && tile.y + tile.h <= height, `${JSON.stringify(tile)} outside ${width}x${height}`);
+    }
+}
+
+function overlaps(a: Tile, b: Tile): boolean {
+    return a.x < b.x + b.w && b.x < a.x + a.w && a.y < b.y + b.h && b.y < a.y + a.h;
+}
+
+test("gridTiles: a single tile fills the canvas", () => {
+    assert.deepEqual(gridTiles(1, 1920, 1080), [{ x: 0, y: 0, w: 1920, h: 1080 }]);
+});
+
+test("gridTiles: the incomplete last row is centered", () => {
+    assert.deepEqual(gridTiles(3, 1920, 1080), [
+        { x: 0, y: 0, w: 960, h: 540 },
+        { x: 960, y: 0, w: 960, h: 540 },
+        { x: 480, y: 540, w: 960, h: 540 },
+    ]);
+});
+
+test("gridTiles: odd canvas dimensions give even tiles", () => {
+    assert.deepEqual(gridTiles(2, 641, 361), [
+        { x: 0, y: 0, w: 320, h: 360 },
+        { x: 320, y: 0, w: 320, h: 360 },
+    ]);
+    for (let count = 1; count <= 10; count++) {
+        const tiles = gridTiles(count, 1279, 719);
+        assert.equal(tiles.length, count);
+        assertPlaceable(tiles, 1279, 719);
+        tiles.forEach((a, i) => tiles.slice(i + 1).forEach(b => assert.ok(!overlaps(a, b), `${count} tiles overlap`)));
+    }
+});
+
+test("speakerTiles: focus on top, thumbnails centered along the bottom", () => {
+    assert.deepEqual(speakerTiles(1, 0, 1280, 720), [{ x: 0, y: 0, w: 1280, h: 720 }]);
+    assert.deepEqual(speakerTiles(3, 1, 1280, 720), [
+        { x: 320, y: 540, w: 320, h: 180 },
+        { x: 0, y: 0, w: 1280, h: 540 },
+        { x: 640, y: 540, w: 320, h: 180 },
+    ]);
+});
+
+test("speakerTiles: an out of range focus index focuses the first tile", () => {
+    const first = speakerTiles(3, 0, 1280, 720);
+    assert.deepEqual(speakerTiles(3, 3, 1280, 720), first);
+    assert.deepEqual(speakerTiles(3, -1, 1280, 720), first);
+    assert.deepEqual(first[0], { x: 0, y: 0, w: 1280, h: 540 });
+});
+
+test("speakerTiles: odd canvas dimensions", () => {
+    assert.deepEqual(speakerTiles(2, 0, 641, 361), [
+        { x: 0, y: 0, w: 640, h: 270 },
+        { x: 240, y: 270, w: 158, h: 88 },
+    ]);
+    assertPlaceable(speakerTiles(7, 3, 641, 361), 641, 361);
+});
+
+test("pinnedTiles: pinned tile on the left, the others stacked on the right", () => {
+    assert.deepEqual(pinnedTiles(1, 0, 1280, 720), [{ x: 0, y: 0, w: 1280, h: 720 }]);
+    assert.deepEqual(pinnedTiles(3, 2, 1280, 720), [
+        { x: 960, y: 180, w: 320, h: 180 },
+        { x: 960, y: 360, w: 320, h: 180 },
+        { x: 0, y: 0, w: 960, h: 720 },
+    ]);
+    assert.deepEqual(pinnedTiles(3, 5, 1280, 720), pinnedTiles(3, 0, 1280, 720));
+    assertPlaceable(pinnedTiles(6, 1, 1001, 563), 1001, 563);
+});
+
+test("computeTiles follows the layout mode", () => {
+    assert.deepEqual(computeTiles(3, LAYOUT, 2), gridTiles(3, 1920, 1080));
+    assert.deepEqual(computeTiles(3, { ...LAYOUT, mode: "speaker" }, 2), speakerTiles(3, 2, 1920, 1080));
+    assert.deepEqual(computeTiles(3, { ...LAYOUT, mode: "pinned" }, 2), pinnedTiles(3, 2, 1920, 1080));
+});
+
+test("buildTileFilter scales to exactly the tile", () => {
+    const tile = { x: 640, y: 540, w: 320, h: 180 };
+    assert.equal(
+        buildTileFilter(tile, "crop"),
+        "scale=320:180:force_original_aspect_ratio=increase,crop=320:180,setsar=1,format=yuv420p"
+    );
+    assert.equal(
+        buildTileFilter(tile, "pad"),
+        "scale=320:180:force_original_aspect_ratio=decrease,pad=320:180:(ow-iw)/2:(oh-ih)/2:black,setsar=1,format=yuv420p"
+    );
+});
+
+test("canvasSize rounds down to even dimensions", () => {
+    assert.deepEqual(canvasSize({ ...LAYOUT, width: 641, height: 361 }), { width: 640, height: 360 });
+    assert.deepEqual(canvasSize(LAYOUT), { width: 1920, height: 1080 });
+});
+
+test("mergeHlsLayout applies valid fields and keeps the others", () => {
+    const result = mergeHlsLayout(LAYOUT, { mode: "pinned", pinnedUserId: "alice", width: 1281 });
+    assert.deepEqual(result, { layout: { mode: "pinned", width: 1280, height: 1080, fit: "pad", pinnedUserId: "alice" } });
+    assert.deepEqual(LAYOUT, { mode: "grid", width: 1920, height: 1080, fit: "pad" });
+    const unpinned = mergeHlsLayout({ ...LAYOUT, pinnedUserId: "alice" }, { pinnedUserId: null });
+    assert.ok("layout" in unpinned && unpinned.layout.pinnedUserId === undefined);
+});
+
+test("mergeHlsLayout rejects invalid fields", () => {
+    const error = (patch: unknown) => {
+        const result = mergeHlsLayout(LAYOUT, patch as never);
+        return "error" in result ? result.error : undefined;
+    };
+    assert.equal(error(null), "Invalid layout");
+    assert.equal(error({ mode: "mosaic" }), "Unknown layout mode: mosaic");
+    assert.equal(error({ fit: "stretch" }), "Unknown tile fit: stretch");
+    assert.equal(error({ width: 100 }), "width must be an integer between 160 and 3840");
+    assert.equal(error({ height: 720.5 }), "height must be an integer between 160 and 3840");
+    assert.equal(error({ height: "tall" }), "height must be an integer between 160 and 3840");
+    assert.equal(error({ pinnedUserId: 42 }), "pinnedUserId must be a string");
+});
+
+test("hlsLayoutKey changes with every field", () => {
+    const keys = new Set([
+        LAYOUT,
+        { ...LAYOUT, mode: "speaker" as const },
+        { ...LAYOUT, width: 1280 },
+        { ...LAYOUT, height: 720 },
+        { ...LAYOUT, fit: "crop" as const },
+        { ...LAYOUT, pinnedUserId: "alice" },
+    ].map(hlsLayoutKey));
+    assert.equal(keys.size, 6);
+});
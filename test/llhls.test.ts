@@ -0,0 +1,192 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { PassThrough } from "stream";
+import { createLlHlsStream, LlHlsStream } from "../src/lib/llhls.js";
+
+// --- Minimal fragmented MP4 ---
+const SYNC = 0x02000000;
+const NON_SYNC = 0x01010000;
+
+function u32(...values: number[]): Buffer {
+    const buf = Buffer.alloc(values.length * 4);
+    values.forEach((value, i) => buf.writeUInt32BE(value, i * 4));
+    return buf;
+}
+
+function box(type: string, ...payload: Buffer[]): Buffer {
+    const body = Buffer.concat(payload);
+    return Buffer.concat([u32(body.length + 8), Buffer.from(type, "latin1"), body]);
+}
+
+// One video track (id 1, timescale 1000) and one audio track (id 2)
+function initSegment(): Buffer {
+    const trak = (id: number, timescale: number, handler: string) => box("trak",
+        box("tkhd", u32(0, 0, 0, id, 0)),
+        box("mdia",
+            box("mdhd", u32(0, 0, 0, timescale, 0)),
+            box("hdlr", u32(0, 0), Buffer.from(handler, "latin1"), u32(0, 0, 0)),
+        ),
+    );
+    return Buffer.concat([
+        box("ftyp", Buffer.from("iso6", "latin1"), u32(0)),
+        box("moov",
+            trak(1, 1000, "vide"),
+            trak(2, 48000, "soun"),
+            box("mvex", box("trex", u32(0, 1, 1, 0, 0, NON_SYNC)), box("trex", u32(0, 2, 1, 1024, 0, 0))),
+        ),
+    ]);
+}
+
+// moof+mdat with one video sample of `durationMs`, and an audio run that must not count
+function fragment(durationMs: number, sync: boolean): Buffer {
+    const moof = box("moof",
+        box("traf",
+            box("tfhd", u32(0x20, 2, 0)),
+            box("trun", u32(0, 10)),
+        ),
+        box("traf",
+            box("tfhd", u32(0, 1)),
+            // sample-duration-present + first-sample-flags-present
+            box("trun", u32(0x104, 1, sync ? SYNC : NON_SYNC, durationMs)),
+        ),
+    );
+    return Buffer.concat([moof, box("mdat", Buffer.alloc(16))]);
+}
+
+// --- Helpers ---
+function tempDir(t: { after(fn: () => void): void }): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "llhls-"));
+    t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+    return dir;
+}
+
+async function feed(output: PassThrough, ...chunks: Buffer[]): Promise<void> {
+    for (const chunk of chunks) output.write(chunk);
+    await new Promise(resolve => setImmediate(resolve));
+}
+
+function tags(stream: LlHlsStream): string[] {
+    return stream.playlist().trim().split("\n").filter(line => !line.startsWith("#EXT-X-PROGRAM-DATE-TIME"));
+}
+
+const OPTIONS = { partTarget: 0.5, segmentTarget: 2, windowSegments: 2 };
+
+test("parts are grouped into segments starting at independent parts", async t => {
+    const dir = tempDir(t);
+    const stream = createLlHlsStream(dir, OPTIONS);
+    const output = new PassThrough();
+    stream.attach(output);
+    t.after(() => stream.close());
+
+    // A leading non-independent part is dropped; half the target duration ends a segment
+    await feed(output, initSegment(), fragment(500, false), fragment(500, true), fragment(500, false), fragment(500, true), fragment(1000, false));
+    assert.deepEqual(tags(stream), [
+        "#EXTM3U",
+        "#EXT-X-VERSION:9",
+        "#EXT-X-TARGETDURATION:2",
+        "#EXT-X-PART-INF:PART-TARGET=1.000",
+        "#EXT-X-SERVER-CONTROL:CAN-BLOCK-RELOAD=YES,PART-HOLD-BACK=3.000",
+        "#EXT-X-MEDIA-SEQUENCE:0",
+        "#EXT-X-DISCONTINUITY-SEQUENCE:0",
+        "#EXT-X-MAP:URI=\"init0.mp4\"",
+        "#EXT-X-PART:DURATION=0.50000,URI=\"seg0.part0.m4s\",INDEPENDENT=YES",
+        "#EXT-X-PART:DURATION=0.50000,URI=\"seg0.part1.m4s\"",
+        "#EXTINF:1.00000,",
+        "seg0.m4s",
+        "#EXT-X-PART:DURATION=0.50000,URI=\"seg1.part0.m4s\",INDEPENDENT=YES",
+        "#EXT-X-PART:DURATION=1.00000,URI=\"seg1.part1.m4s\"",
+        "#EXT-X-PRELOAD-HINT:TYPE=PART,URI=\"seg1.part2.m4s\"",
+    ]);
+    assert.deepEqual(fs.readdirSync(dir).sort(), ["init0.mp4", "seg0.m4s", "seg0.part0.m4s", "seg0.part1.m4s", "seg1.part0.m4s", "seg1.part1.m4s"]);
+    // The complete segment is its parts back to back, the init segment ftyp+moov
+    assert.deepEqual(fs.readFileSync(path.join(dir, "seg0.m4s")), Buffer.concat([fragment(500, true), fragment(500, false)]));
+    assert.deepEqual(fs.readFileSync(path.join(dir, "init0.mp4")), initSegment());
+    assert.equal(stream.maxRequestableMsn(), 3);
+});
+
+test("boxes split across chunks are reassembled", async t => {
+    const stream = createLlHlsStream(tempDir(t), OPTIONS);
+    const output = new PassThrough();
+    stream.attach(output);
+    t.after(() => stream.close());
+
+    const data = Buffer.concat([initSegment(), fragment(400, true)]);
+    for (const at of [3, 50, data.length - 5]) await feed(output, data.subarray(0, at), data.subarray(at));
+    assert.ok(stream.playlist().includes("#EXT-X-PART:DURATION=0.40000,URI=\"seg0.part0.m4s\",INDEPENDENT=YES"));
+    assert.ok(stream.playlist().includes("seg0.part2.m4s"));
+});
+
+test("old segments leave the window and part files are dropped behind the live edge", async t => {
+    const dir = tempDir(t);
+    const stream = createLlHlsStream(dir, { ...OPTIONS, windowSegments: 3 });
+    const output = new PassThrough();
+    stream.attach(output);
+    t.after(() => stream.close());
+
+    await feed(output, initSegment());
+    for (let i = 0; i < 5; i++) await feed(output, fragment(1000, true));
+    const playlist = stream.playlist();
+    assert.ok(playlist.includes("#EXT-X-MEDIA-SEQUENCE:1\n"));
+    assert.ok(!playlist.includes("seg0.m4s"));
+    // Parts are listed for the two newest complete segments only
+    assert.ok(!playlist.includes("seg1.part0.m4s"));
+    assert.ok(playlist.includes("seg2.part0.m4s"));
+    // Files are removed in the background
+    await new Promise(resolve => setTimeout(resolve, 50));
+    assert.deepEqual(fs.readdirSync(dir).filter(name => name.startsWith("seg")).sort(), [
+        "seg1.m4s", "seg2.m4s", "seg2.part0.m4s", "seg3.m4s", "seg3.part0.m4s", "seg4.part0.m4s",
+    ]);
+});
+
+test("a new packager output continues after a discontinuity with a new init segment", async t => {
+    const stream = createLlHlsStream(tempDir(t), OPTIONS);
+    t.after(() => stream.close());
+    const first = new PassThrough();
+    stream.attach(first);
+    await feed(first, initSegment(), fragment(500, true));
+
+    const second = new PassThrough();
+    stream.attach(second);
+    // The old packager is no longer read
+    await feed(first, fragment(500, true));
+    await feed(second, initSegment(), fragment(500, true));
+    assert.deepEqual(tags(stream).slice(6), [
+        "#EXT-X-DISCONTINUITY-SEQUENCE:0",
+        "#EXT-X-MAP:URI=\"init0.mp4\"",
+        "#EXT-X-PART:DURATION=0.50000,URI=\"seg0.part0.m4s\",INDEPENDENT=YES",
+        "#EXTINF:0.50000,",
+        "seg0.m4s",
+        "#EXT-X-DISCONTINUITY",
+        "#EXT-X-MAP:URI=\"init1.mp4\"",
+        "#EXT-X-PART:DURATION=0.50000,URI=\"seg1.part0.m4s\",INDEPENDENT=YES",
+        "#EXT-X-PRELOAD-HINT:TYPE=PART,URI=\"seg1.part1.m4s\"",
+    ]);
+});
+
+test("blocking requests wait for the part, time out, or end with the stream", async t => {
+    const stream = createLlHlsStream(tempDir(t), OPTIONS);
+    const output = new PassThrough();
+    stream.attach(output);
+    await feed(output, initSegment(), fragment(500, true));
+
+    assert.equal(await stream.waitForPlaylist(0, 0, 10), true);
+    assert.equal(await stream.waitForPlaylist(0, 1, 10), false);
+    const waiting = stream.waitForPlaylist(0, 1, 5000);
+    const file = stream.waitForFile("seg0.part1.m4s", 5000);
+    await feed(output, fragment(500, false));
+    assert.equal(await waiting, true);
+    assert.equal(await file, true);
+    // A complete segment satisfies any part of it
+    const segment = stream.waitForPlaylist(0, 7, 5000);
+    await feed(output, fragment(500, true));
+    assert.equal(await segment, true);
+    assert.equal(await stream.waitForFile("init0.mp4", 10), true);
+    assert.equal(await stream.waitForFile("init5.mp4", 10), false);
+
+    const closed = stream.waitForPlaylist(5, undefined, 5000);
+    stream.close();
+    assert.equal(await closed, false);
+});
@@ -0,0 +1,110 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { describeRestream, Restream, RestreamStatus, startRestream, stopRestream } from "../src/lib/restream.js";
+
+// restream.ts spawns `ffmpeg`: test/fixtures/bin/ffmpeg stands in for it and
+// prints the fixture's `-progress` output (see the script for its switches)
+const fixtures = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures");
+const PROGRESS = path.join(fixtures, "restream-progress.txt");
+const STEP_TIMEOUT_MS = 5000;
+
+let savedPath: string | undefined;
+before(() => {
+    savedPath = process.env.PATH;
+    process.env.PATH = `${path.join(fixtures, "bin")}${path.delimiter}${savedPath}`;
+});
+after(() => {
+    process.env.PATH = savedPath;
+});
+
+// What the next FFmpeg attempt does; read when restream.ts spawns it
+function nextAttempt(opts: { progress: boolean; failAfterMs?: number }): void {
+    process.env.FAKE_FFMPEG_PROGRESS = opts.progress ? PROGRESS : "";
+    process.env.FAKE_FFMPEG_FAIL_AFTER_MS = opts.failAfterMs !== undefined ? String(opts.failAfterMs) : "";
+}
+
+// Records the status changes of one destination and waits for the next ones
+function statusRecorder() {
+    const statuses: RestreamStatus[] = [];
+    const waiters: Array<{ status: RestreamStatus; resolve: () => void }> = [];
+    const onStatus = (restream: Restream) => {
+        statuses.push(restream.status);
+        for (const waiter of waiters.filter(w => w.status === restream.status)) {
+            waiters.splice(waiters.indexOf(waiter), 1);
+            waiter.resolve();
+        }
+    };
+    const next = (status: RestreamStatus) => new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(`No "${status}" within ${STEP_TIMEOUT_MS} ms (${statuses.join(" → ")})`)), STEP_TIMEOUT_MS);
+        waiters.push({ status, resolve: () => { clearTimeout(timer); resolve(); } });
+    });
+    return { statuses, onStatus, next };
+}
+
+test("a refused attempt fails with a retry scheduled, the retry goes live", async () => {
+    nextAttempt({ progress: false, failAfterMs: 50 });
+    const { statuses, onStatus, next } = statusRecorder();
+    const failed = next("failed");
+    const restream = await startRestream("rtmp://127.0.0.1:1935/live/secret-key", "rtmp", onStatus);
+    try {
+        await failed;
+        assert.deepEqual(statuses, ["connecting", "failed"]);
+        assert.equal(restream.attempts, 1);
+        assert.equal(restream.lastError, "FFmpeg exited with code 1 (null)");
+        assert.ok(restream.nextAttemptAt! - Date.now() <= 1000);
+        assert.equal(restream.process, undefined);
+
+        nextAttempt({ progress: true });
+        await next("live");
+        assert.deepEqual(statuses, ["connecting", "failed", "connecting", "live"]);
+        assert.equal(restream.lastError, undefined);
+        assert.equal(restream.nextAttemptAt, undefined);
+        assert.ok(restream.liveSince);
+
+        const info = describeRestream(restream);
+        assert.equal(info.status, "live");
+        assert.equal(info.url, "rtmp://127.0.0.1:1935/live/***");
+    } finally {
+        await stopRestream(restream);
+    }
+});
+
+test("a dropped live stream fails and retries with a doubled backoff", async () => {
+    nextAttempt({ progress: true, failAfterMs: 300 });
+    const { statuses, onStatus, next } = statusRecorder();
+    const live = next("live");
+    const failed = next("failed");
+    const restream = await startRestream("srt://127.0.0.1:9000?passphrase=secret", "srt", onStatus);
+    try {
+        await live;
+        await failed;
+        assert.equal(restream.attempts, 1);
+        // Not live long enough to reset the backoff
+        assert.equal(restream.liveSince, undefined);
+
+        await next("failed");
+        assert.deepEqual(statuses, ["connecting", "live", "failed", "connecting", "live", "failed"]);
+        assert.equal(restream.attempts, 2);
+        assert.ok(restream.nextAttemptAt! - Date.now() > 1000);
+        assert.equal(describeRestream(restream).url, "srt://127.0.0.1:9000?***");
+    } finally {
+        await stopRestream(restream);
+    }
+});
+
+test("stopping ends FFmpeg and any further attempts", async () => {
+    nextAttempt({ progress: true });
+    const { statuses, onStatus, next } = statusRecorder();
+    const live = next("live");
+    const restream = await startRestream("rtmp://127.0.0.1:1935/live/secret-key", "rtmp", onStatus);
+    await live;
+    const proc = restream.process!;
+    await stopRestream(restream);
+
+    assert.equal(proc.exitCode, 0);
+    assert.equal(restream.process, undefined);
+    await new Promise(resolve => setTimeout(resolve, 1500));
+    assert.deepEqual(statuses, ["connecting", "live"]);
+});
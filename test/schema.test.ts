@@ -0,0 +1,80 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+    boolean, isErrorResponse, mediaParameters, nullable, number, oneOf, optional, REQUEST_SCHEMAS, shape, string,
+    validateRequest,
+} from "../src/protocol/index.js";
+
+test("scalar rules accept their type only", () => {
+    assert.deepEqual(string()("abc", "name"), { value: "abc" });
+    assert.deepEqual(string({ maxLength: 2 })("abc", "name"), { error: "name must be a string of at most 2 characters" });
+    assert.deepEqual(string()(42, "name"), { error: "name must be a string of at most 4096 characters" });
+    assert.deepEqual(number(1.5, "n"), { value: 1.5 });
+    for (const value of [NaN, Infinity, "1"]) assert.deepEqual(number(value, "n"), { error: "n must be a number" });
+    assert.deepEqual(boolean(false, "b"), { value: false });
+    assert.deepEqual(boolean(0, "b"), { error: "b must be a boolean" });
+    assert.deepEqual(oneOf("a", "b")("b", "x"), { value: "b" });
+    assert.deepEqual(oneOf("a", "b")("c", "x"), { error: "x must be one of a, b" });
+});
+
+test("mediaParameters only checks for a plain object", () => {
+    const rule = mediaParameters<{ codecs: unknown[] }>();
+    const value = { codecs: [], anything: true };
+    assert.equal((rule(value, "p") as { value: unknown }).value, value);
+    for (const bad of [null, [], "x", 1]) assert.deepEqual(rule(bad, "p"), { error: "p must be an object" });
+});
+
+test("optional and nullable", () => {
+    assert.deepEqual(optional(number)(undefined, "n"), { value: undefined });
+    assert.deepEqual(optional(number)(null, "n"), { value: undefined });
+    assert.deepEqual(optional(number)("1", "n"), { error: "n must be a number" });
+    assert.deepEqual(nullable(number)(null, "n"), { value: null });
+    assert.deepEqual(nullable(number)(undefined, "n"), { value: undefined });
+    assert.deepEqual(nullable(number)(2, "n"), { value: 2 });
+});
+
+test("shape drops unknown and undefined properties and names nested fields", () => {
+    const rule = shape<{ a: number; b?: { c: string } }>({ a: number, b: optional(shape({ c: string() })) });
+    assert.deepEqual(rule({ a: 1, extra: "x", b: undefined }, ""), { value: { a: 1 } });
+    assert.deepEqual(rule({ a: 1, b: { c: "y", d: 2 } }, ""), { value: { a: 1, b: { c: "y" } } });
+    assert.deepEqual(rule({ a: 1, b: { c: 3 } }, ""), { error: "b.c must be a string of at most 4096 characters" });
+    assert.deepEqual(rule([], ""), { error: "payload must be an object" });
+    assert.deepEqual(rule({ a: 1, b: "x" }, ""), { error: "b must be an object" });
+});
+
+test("validateRequest checks event payloads", () => {
+    assert.deepEqual(validateRequest("joinRoom", { roomId: "r1", password: "pw", admin: true }), { value: { roomId: "r1", password: "pw" } });
+    assert.deepEqual(validateRequest("joinRoom", {}), { error: "roomId must be a string of at most 128 characters" });
+    assert.deepEqual(validateRequest("joinRoom", "r1"), { error: "payload must be an object" });
+    assert.deepEqual(validateRequest("createRoom", undefined), { value: undefined });
+
+    const rtpParameters = { codecs: [{ mimeType: "audio/opus", payloadType: 111, clockRate: 48000 }] };
+    assert.deepEqual(
+        validateRequest("produce", { roomId: "r1", kind: "audio", rtpParameters, appData: { source: "mic", other: 1 } }),
+        { value: { roomId: "r1", kind: "audio", rtpParameters, appData: { source: "mic" } } }
+    );
+    assert.deepEqual(validateRequest("produce", { roomId: "r1", kind: "data", rtpParameters }), { error: "kind must be one of audio, video" });
+    assert.deepEqual(
+        validateRequest("produce", { roomId: "r1", kind: "video", rtpParameters, appData: { source: "camera" } }),
+        { error: "appData.source must be one of mic, webcam, screen, screen-audio" }
+    );
+    assert.deepEqual(validateRequest("connectProducerTransport", { roomId: "r1", dtlsParameters: "x" }), { error: "dtlsParameters must be an object" });
+    assert.deepEqual(
+        validateRequest("setHlsLayout", { roomId: "r1", layout: { mode: "grid", pinnedUserId: null } }),
+        { value: { roomId: "r1", layout: { mode: "grid", pinnedUserId: null } } }
+    );
+    assert.deepEqual(validateRequest("setHlsLayout", { roomId: "r1", layout: { width: "wide" } }), { error: "layout.width must be a number" });
+});
+
+test("every request event has a schema that rejects a non-object payload", () => {
+    for (const [event, rule] of Object.entries(REQUEST_SCHEMAS)) {
+        if (event === "createRoom") continue;
+        assert.ok("error" in rule(42, ""), event);
+    }
+});
+
+test("isErrorResponse", () => {
+    assert.equal(isErrorResponse({ error: { code: "roomNotFound", message: "Room does not exist" } }), true);
+    assert.equal(isErrorResponse({ roomId: "r1" }), false);
+    assert.equal(isErrorResponse(null), false);
+});
@@ -0,0 +1,184 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { DtlsParameters, IceCandidate, IceParameters } from "mediasoup/types";
+import { buildAnswer, parseIceFragment, parseSdp } from "../src/lib/sdp.js";
+
+const OFFER = [
+    "v=0",
+    "o=- 4611731400430051336 2 IN IP4 127.0.0.1",
+    "s=-",
+    "t=0 0",
+    "a=group:BUNDLE 0 1 2",
+    "a=ice-ufrag:sess",
+    "a=ice-pwd:sessionpassword",
+    "a=fingerprint:SHA-256 AB:CD:EF",
+    "a=setup:actpass",
+    "m=audio 9 UDP/TLS/RTP/SAVPF 111 0",
+    "c=IN IP4 0.0.0.0",
+    "a=mid:0",
+    "a=sendonly",
+    "a=extmap:1/sendonly urn:ietf:params:rtp-hdrext:ssrc-audio-level",
+    "a=rtpmap:111 opus/48000/2",
+    "a=fmtp:111 minptime=10;useinbandfec=1",
+    "a=rtcp-fb:111 transport-cc",
+    "a=rtpmap:0 PCMU/8000",
+    "a=ssrc:1001 cname:abc",
+    "a=ssrc:1001 msid:stream track:a",
+    "m=video 9 UDP/TLS/RTP/SAVPF 102 103",
+    "c=IN IP4 0.0.0.0",
+    "a=mid:1",
+    "a=ice-ufrag:own",
+    "a=setup:passive",
+    "a=sendonly",
+    "a=rtpmap:102 H264/90000",
+    "a=fmtp:102 level-asymmetry-allowed=1;packetization-mode=1;profile-level-id=42e01f",
+    "a=rtcp-fb:* nack",
+    "a=rtcp-fb:102 nack pli",
+    "a=rtpmap:103 rtx/90000",
+    "a=fmtp:103 apt=102",
+    "a=ssrc-group:FID 2001 2002",
+    "a=rid:h send",
+    "a=rid:l send",
+    "m=application 0 UDP/DTLS/SCTP webrtc-datachannel",
+    "a=mid:2",
+    "",
+].join("\r\n");
+
+test("parseSdp reads codecs, extensions and ssrcs per m-section", () => {
+    const [audio, video, application] = parseSdp(OFFER).media;
+    assert.equal(audio.kind, "audio");
+    assert.equal(audio.port, 9);
+    assert.deepEqual(audio.formats, ["111", "0"]);
+    assert.equal(audio.mid, "0");
+    assert.equal(audio.direction, "sendonly");
+    assert.deepEqual(audio.extensions, [{ id: 1, uri: "urn:ietf:params:rtp-hdrext:ssrc-audio-level" }]);
+    assert.deepEqual(audio.codecs[0], {
+        payloadType: 111, name: "opus", clockRate: 48000, channels: 2,
+        parameters: { minptime: 10, useinbandfec: 1 },
+        rtcpFeedback: [{ type: "transport-cc", parameter: undefined }],
+    });
+    assert.equal(audio.codecs[1].channels, undefined);
+    assert.deepEqual(audio.ssrcs, [
+        { ssrc: 1001, attribute: "cname", value: "abc" },
+        { ssrc: 1001, attribute: "msid", value: "stream track:a" },
+    ]);
+
+    // profile-level-id stays a string, "*" feedback goes to every codec seen so far
+    assert.deepEqual(video.codecs[0].parameters, { "level-asymmetry-allowed": 1, "packetization-mode": 1, "profile-level-id": "42e01f" });
+    assert.deepEqual(video.codecs[0].rtcpFeedback, [{ type: "nack", parameter: undefined }, { type: "nack", parameter: "pli" }]);
+    assert.deepEqual(video.codecs[1].parameters, { apt: 102 });
+    assert.deepEqual(video.ssrcGroups, [{ semantics: "FID", ssrcs: [2001, 2002] }]);
+    assert.deepEqual(video.rids, [{ id: "h", direction: "send" }, { id: "l", direction: "send" }]);
+
+    assert.equal(application.port, 0);
+    assert.equal(application.direction, "sendrecv");
+});
+
+test("parseSdp copies session level ICE and DTLS attributes into the m-sections", () => {
+    const [audio, video] = parseSdp(OFFER).media;
+    assert.equal(audio.iceUfrag, "sess");
+    assert.equal(audio.icePwd, "sessionpassword");
+    assert.equal(audio.setup, "actpass");
+    // The algorithm is lowercased
+    assert.deepEqual(audio.fingerprint, { algorithm: "sha-256", value: "AB:CD:EF" });
+    // Media level values win
+    assert.equal(video.iceUfrag, "own");
+    assert.equal(video.icePwd, "sessionpassword");
+    assert.equal(video.setup, "passive");
+    assert.deepEqual(parseSdp("v=0\nm=audio 9 RTP/AVP 0\n").media[0].fingerprint, undefined);
+});
+
+test("parseIceFragment reads the ICE credentials", () => {
+    assert.deepEqual(parseIceFragment("a=ice-ufrag:abcd\r\na=ice-pwd:secret\r\na=group:BUNDLE 0\r\n"), { iceUfrag: "abcd", icePwd: "secret" });
+    assert.deepEqual(parseIceFragment("a=mid:0\r\n"), {});
+});
+
+const ICE_PARAMETERS: IceParameters = { usernameFragment: "ufrag", password: "pwd", iceLite: true };
+const ICE_CANDIDATES = [
+    { foundation: "udpcandidate", priority: 1076302079, address: "192.0.2.1", protocol: "udp", port: 40000, type: "host" },
+    { foundation: "tcpcandidate", priority: 1076276479, address: "192.0.2.1", protocol: "tcp", port: 40001, type: "host", tcpType: "passive" },
+] as IceCandidate[];
+const DTLS_PARAMETERS: DtlsParameters = {
+    role: "auto",
+    fingerprints: [{ algorithm: "sha-1", value: "11:22" }, { algorithm: "sha-256", value: "33:44" }],
+};
+
+test("buildAnswer answers every offered m-section in order and bundles the accepted ones", () => {
+    const [audio, video, application] = parseSdp(OFFER).media;
+    const answer = buildAnswer({
+        iceParameters: ICE_PARAMETERS,
+        iceCandidates: ICE_CANDIDATES,
+        dtlsParameters: DTLS_PARAMETERS,
+        setup: "passive",
+        media: [
+            {
+                offer: audio,
+                codecs: [{ mimeType: "audio/opus", payloadType: 111, clockRate: 48000, channels: 2, parameters: { useinbandfec: 1 } }],
+                headerExtensions: [{ uri: "urn:ietf:params:rtp-hdrext:ssrc-audio-level", id: 1 }],
+                direction: "recvonly",
+            },
+            { offer: video },
+            { offer: application },
+        ],
+    });
+    assert.ok(answer.endsWith("\r\n"));
+    const lines = answer.split("\r\n");
+    assert.ok(lines.includes("a=ice-lite"));
+    assert.ok(lines.includes("a=group:BUNDLE 0"));
+    assert.deepEqual(lines.filter(line => line.startsWith("m=")), [
+        "m=audio 9 UDP/TLS/RTP/SAVPF 111",
+        "m=video 0 UDP/TLS/RTP/SAVPF 102 103",
+        "m=application 0 UDP/DTLS/SCTP webrtc-datachannel",
+    ]);
+    const audioSection = lines.slice(lines.indexOf("m=audio 9 UDP/TLS/RTP/SAVPF 111"), lines.indexOf("m=video 0 UDP/TLS/RTP/SAVPF 102 103"));
+    assert.deepEqual(audioSection.slice(1), [
+        "c=IN IP4 0.0.0.0",
+        "a=rtcp:9 IN IP4 0.0.0.0",
+        "a=ice-ufrag:ufrag",
+        "a=ice-pwd:pwd",
+        "a=fingerprint:sha-256 33:44",
+        "a=setup:passive",
+        "a=mid:0",
+        "a=recvonly",
+        "a=rtcp-mux",
+        "a=rtcp-rsize",
+        "a=extmap:1 urn:ietf:params:rtp-hdrext:ssrc-audio-level",
+        "a=rtpmap:111 opus/48000/2",
+        "a=fmtp:111 useinbandfec=1",
+        "a=candidate:udpcandidate 1 udp 1076302079 192.0.2.1 40000 typ host",
+        "a=candidate:tcpcandidate 1 tcp 1076276479 192.0.2.1 40001 typ host tcptype passive",
+        "a=end-of-candidates",
+    ]);
+    // Rejected sections are inactive, with no ICE or DTLS
+    const rejected = lines.slice(lines.indexOf("m=video 0 UDP/TLS/RTP/SAVPF 102 103"));
+    assert.deepEqual(rejected.slice(1, 4), ["c=IN IP4 0.0.0.0", "a=mid:1", "a=inactive"]);
+});
+
+test("buildAnswer announces the sending ssrcs with their rtx", () => {
+    const [, video] = parseSdp(OFFER).media;
+    const lines = buildAnswer({
+        iceParameters: ICE_PARAMETERS,
+        iceCandidates: [],
+        dtlsParameters: { role: "auto", fingerprints: [{ algorithm: "sha-512", value: "55:66" }] },
+        setup: "active",
+        media: [{
+            offer: video,
+            codecs: [{ mimeType: "video/VP8", payloadType: 96, clockRate: 90000, rtcpFeedback: [{ type: "nack", parameter: "pli" }] }],
+            direction: "sendonly",
+            ssrc: { ssrc: 1111, rtxSsrc: 2222, cname: "cname", msid: "stream track" },
+        }],
+    }).split("\r\n");
+    // Without sha-256 the first fingerprint is used
+    assert.ok(lines.includes("a=fingerprint:sha-512 55:66"));
+    assert.ok(lines.includes("a=setup:active"));
+    assert.ok(lines.includes("a=rtcp-fb:96 nack pli"));
+    const ssrcLines = lines.slice(lines.indexOf("a=msid:stream track"), lines.indexOf("a=end-of-candidates"));
+    assert.deepEqual(ssrcLines, [
+        "a=msid:stream track",
+        "a=ssrc-group:FID 1111 2222",
+        "a=ssrc:1111 cname:cname",
+        "a=ssrc:1111 msid:stream track",
+        "a=ssrc:2222 cname:cname",
+        "a=ssrc:2222 msid:stream track",
+    ]);
+});